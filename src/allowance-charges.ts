@@ -0,0 +1,230 @@
+import type { AllowanceCharge, Invoice, LineAllowanceCharge } from "./schemas.js";
+import type { XmlFormat } from "./xml.js";
+import { sumAmounts, type SemanticAllowanceCharge, type SemanticInvoice } from "./en16931/model.js";
+import { CII_NS, UBL_NS, contentOf, element, find, findAll, insert, prefixFor, type OrderedNode } from "./xml-edit.js";
+
+// ── Allowances and charges (BG-20/BG-21, BG-27/BG-28) ──
+//
+// Document-level entries carry their own VAT category and rate; line-level
+// entries adjust the line net amount and share the line's VAT. Generated XML
+// gets AllowanceCharge elements only at levels where the API rendered none.
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function amount(value: number): string {
+  return value.toFixed(2);
+}
+
+type Entry = LineAllowanceCharge | AllowanceCharge;
+
+/**
+ * Fills sum_of_allowances, sum_of_charges and invoice_total_without_vat
+ * from the document-level entries when they are omitted.
+ */
+export function prepareAllowanceCharges(invoice: Invoice): Invoice {
+  if (!invoice.allowances?.length && !invoice.charges?.length) return invoice;
+  const totals = { ...invoice.totals };
+  if (invoice.allowances?.length) totals.sum_of_allowances ??= round2(sumAmounts(invoice.allowances));
+  if (invoice.charges?.length) totals.sum_of_charges ??= round2(sumAmounts(invoice.charges));
+  totals.invoice_total_without_vat ??= round2(
+    totals.total_amount_without_vat - (totals.sum_of_allowances ?? 0) + (totals.sum_of_charges ?? 0)
+  );
+  return { ...invoice, totals };
+}
+
+// ── UBL ──
+
+/** Elements after the document-level cac:AllowanceCharge in the Invoice and CreditNote sequences */
+const UBL_AFTER_ALLOWANCE_CHARGE = [
+  "TaxExchangeRate",
+  "PricingExchangeRate",
+  "PaymentExchangeRate",
+  "PaymentAlternativeExchangeRate",
+  "TaxTotal",
+  "WithholdingTaxTotal",
+  "LegalMonetaryTotal",
+  "InvoiceLine",
+  "CreditNoteLine",
+];
+
+const UBL_LINE_AFTER_ALLOWANCE_CHARGE = ["TaxTotal", "WithholdingTaxTotal", "Item", "Price"];
+
+function ublAllowanceCharge(entry: Entry, isCharge: boolean, currency: string, cbc: string, cac: string): OrderedNode {
+  const currencyId = { "@_currencyID": currency };
+  const content = [element(`${cbc}ChargeIndicator`, String(isCharge))];
+  if (entry.reason_code) content.push(element(`${cbc}AllowanceChargeReasonCode`, entry.reason_code));
+  if (entry.reason) content.push(element(`${cbc}AllowanceChargeReason`, entry.reason));
+  if (entry.percentage !== undefined) {
+    content.push(element(`${cbc}MultiplierFactorNumeric`, String(entry.percentage)));
+  }
+  content.push(element(`${cbc}Amount`, amount(entry.amount), currencyId));
+  if (entry.base_amount !== undefined) {
+    content.push(element(`${cbc}BaseAmount`, amount(entry.base_amount), currencyId));
+  }
+  if ("vat_category_code" in entry) {
+    const category = [element(`${cbc}ID`, entry.vat_category_code)];
+    // Peppol forbids a rate for category O (outside scope of VAT)
+    if (entry.vat_category_code !== "O") category.push(element(`${cbc}Percent`, String(entry.vat_percentage)));
+    category.push(element(`${cac}TaxScheme`, [element(`${cbc}ID`, "VAT")]));
+    content.push(element(`${cac}TaxCategory`, category));
+  }
+  return element(`${cac}AllowanceCharge`, content);
+}
+
+function applyUbl(root: OrderedNode, invoice: Invoice): void {
+  const cbc = prefixFor(root, UBL_NS.cbc, "cbc");
+  const cac = prefixFor(root, UBL_NS.cac, "cac");
+  const currency = invoice.invoice_currency_code;
+  const nodes = contentOf(root);
+
+  if (!find(nodes, "AllowanceCharge")) {
+    for (const entry of invoice.allowances ?? []) {
+      insert(nodes, ublAllowanceCharge(entry, false, currency, cbc, cac), UBL_AFTER_ALLOWANCE_CHARGE);
+    }
+    for (const entry of invoice.charges ?? []) {
+      insert(nodes, ublAllowanceCharge(entry, true, currency, cbc, cac), UBL_AFTER_ALLOWANCE_CHARGE);
+    }
+  }
+
+  const lines = [...findAll(nodes, "InvoiceLine"), ...findAll(nodes, "CreditNoteLine")];
+  lines.forEach((line, i) => {
+    const item = invoice.items[i];
+    const lineNodes = contentOf(line);
+    if (!item || find(lineNodes, "AllowanceCharge")) return;
+    for (const entry of item.allowances ?? []) {
+      insert(lineNodes, ublAllowanceCharge(entry, false, currency, cbc, cac), UBL_LINE_AFTER_ALLOWANCE_CHARGE);
+    }
+    for (const entry of item.charges ?? []) {
+      insert(lineNodes, ublAllowanceCharge(entry, true, currency, cbc, cac), UBL_LINE_AFTER_ALLOWANCE_CHARGE);
+    }
+  });
+}
+
+// ── CII ──
+
+/** Elements after ram:SpecifiedTradeAllowanceCharge in ApplicableHeaderTradeSettlement */
+const CII_AFTER_ALLOWANCE_CHARGE = [
+  "SpecifiedLogisticsServiceCharge",
+  "SpecifiedTradePaymentTerms",
+  "SpecifiedTradeSettlementHeaderMonetarySummation",
+  "InvoiceReferencedDocument",
+  "ReceivableSpecifiedTradeAccountingAccount",
+  "SpecifiedAdvancePayment",
+];
+
+const CII_LINE_AFTER_ALLOWANCE_CHARGE = [
+  "SpecifiedTradeSettlementLineMonetarySummation",
+  "InvoiceReferencedDocument",
+  "AdditionalReferencedDocument",
+  "ReceivableSpecifiedTradeAccountingAccount",
+];
+
+function ciiAllowanceCharge(entry: Entry, isCharge: boolean, ram: string, udt: string): OrderedNode {
+  const content = [element(`${ram}ChargeIndicator`, [element(`${udt}Indicator`, String(isCharge))])];
+  if (entry.percentage !== undefined) content.push(element(`${ram}CalculationPercent`, String(entry.percentage)));
+  if (entry.base_amount !== undefined) content.push(element(`${ram}BasisAmount`, amount(entry.base_amount)));
+  content.push(element(`${ram}ActualAmount`, amount(entry.amount)));
+  if (entry.reason_code) content.push(element(`${ram}ReasonCode`, entry.reason_code));
+  if (entry.reason) content.push(element(`${ram}Reason`, entry.reason));
+  if ("vat_category_code" in entry) {
+    const tax = [element(`${ram}TypeCode`, "VAT"), element(`${ram}CategoryCode`, entry.vat_category_code)];
+    if (entry.vat_category_code !== "O") {
+      tax.push(element(`${ram}RateApplicablePercent`, String(entry.vat_percentage)));
+    }
+    content.push(element(`${ram}CategoryTradeTax`, tax));
+  }
+  return element(`${ram}SpecifiedTradeAllowanceCharge`, content);
+}
+
+function applyCii(root: OrderedNode, invoice: Invoice): void {
+  const ram = prefixFor(root, CII_NS.ram, "ram");
+  const transaction = find(contentOf(root), "SupplyChainTradeTransaction");
+  if (!transaction) return;
+  const transactionNodes = contentOf(transaction);
+
+  const settlement = find(transactionNodes, "ApplicableHeaderTradeSettlement");
+  if (settlement && !find(contentOf(settlement), "SpecifiedTradeAllowanceCharge")) {
+    const entries = [
+      ...(invoice.allowances ?? []).map((entry) => ({ entry, isCharge: false })),
+      ...(invoice.charges ?? []).map((entry) => ({ entry, isCharge: true })),
+    ];
+    if (entries.length) {
+      const udt = prefixFor(root, CII_NS.udt, "udt");
+      for (const { entry, isCharge } of entries) {
+        insert(contentOf(settlement), ciiAllowanceCharge(entry, isCharge, ram, udt), CII_AFTER_ALLOWANCE_CHARGE);
+      }
+    }
+  }
+
+  findAll(transactionNodes, "IncludedSupplyChainTradeLineItem").forEach((line, i) => {
+    const item = invoice.items[i];
+    const lineSettlement = find(contentOf(line), "SpecifiedLineTradeSettlement");
+    if (!item || !lineSettlement || find(contentOf(lineSettlement), "SpecifiedTradeAllowanceCharge")) return;
+    const entries = [
+      ...(item.allowances ?? []).map((entry) => ({ entry, isCharge: false })),
+      ...(item.charges ?? []).map((entry) => ({ entry, isCharge: true })),
+    ];
+    if (!entries.length) return;
+    const udt = prefixFor(root, CII_NS.udt, "udt");
+    for (const { entry, isCharge } of entries) {
+      insert(contentOf(lineSettlement), ciiAllowanceCharge(entry, isCharge, ram, udt), CII_LINE_AFTER_ALLOWANCE_CHARGE);
+    }
+  });
+}
+
+// ── Public helpers ──
+
+/** Adds the Invoice JSON's allowances and charges to generated UBL or CII XML that lacks them */
+export function applyAllowanceCharges(root: OrderedNode, format: XmlFormat, invoice: Invoice): void {
+  if (format === "cii") {
+    applyCii(root, invoice);
+  } else {
+    applyUbl(root, invoice);
+  }
+}
+
+function lineEntry(entry: SemanticAllowanceCharge): Record<string, unknown> {
+  return {
+    amount: entry.amount.value,
+    base_amount: entry.baseAmount.value,
+    percentage: entry.percentage.value,
+    reason: entry.reason.value,
+    reason_code: entry.reasonCode.value,
+  };
+}
+
+function documentEntry(entry: SemanticAllowanceCharge): Record<string, unknown> {
+  return { ...lineEntry(entry), vat_category_code: entry.vatCategory.value, vat_percentage: entry.vatRate.value ?? 0 };
+}
+
+/**
+ * Fills allowances and charges, on the document and on each item, of an
+ * Invoice JSON converted from XML when the API left them out.
+ */
+export function readAllowanceCharges(result: Record<string, unknown>, model: SemanticInvoice): Record<string, unknown> {
+  const completed = { ...result };
+  if (completed.allowances === undefined && model.allowances.length) {
+    completed.allowances = model.allowances.map(documentEntry);
+  }
+  if (completed.charges === undefined && model.charges.length) {
+    completed.charges = model.charges.map(documentEntry);
+  }
+
+  if (Array.isArray(completed.items)) {
+    completed.items = completed.items.map((item: Record<string, unknown>, i) => {
+      const line = model.lines[i];
+      if (!line || typeof item !== "object" || item === null) return item;
+      const withEntries = { ...item };
+      if (withEntries.allowances === undefined && line.allowances.length) {
+        withEntries.allowances = line.allowances.map(lineEntry);
+      }
+      if (withEntries.charges === undefined && line.charges.length) {
+        withEntries.charges = line.charges.map(lineEntry);
+      }
+      return withEntries;
+    });
+  }
+  return completed;
+}
@@ -1,12 +1,42 @@
 import axios, { AxiosError } from "axios";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { readFile, writeFile } from "node:fs/promises";
 import { basename, extname } from "node:path";
+import { withRetry } from "./retry.js";
 
-const API_BASE_URL = "https://api.invapi.org";
-const TIMEOUT_MS = 120_000;
+const DEFAULT_API_BASE_URL = "https://api.invapi.org";
+const DEFAULT_TIMEOUT_MS = 120_000;
+const USER_TIMEOUT_MS = 30_000;
 
-function getApiKey(): string {
-  const key = process.env.INVAPI_API_KEY;
+/** Base URL of the Invapi API. Override with INVAPI_API_BASE_URL, e.g. to target the local mock server. */
+export function getApiBaseUrl(): string {
+  return (process.env.INVAPI_API_BASE_URL ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+}
+
+/** Request timeout in ms. Override with INVAPI_API_TIMEOUT_MS. */
+function getTimeoutMs(fallback: number = DEFAULT_TIMEOUT_MS): number {
+  const raw = Number(process.env.INVAPI_API_TIMEOUT_MS);
+  return Number.isFinite(raw) && raw > 0 ? raw : fallback;
+}
+
+/** API key supplied by the current HTTP request, if any (see runWithApiKey) */
+const requestApiKey = new AsyncLocalStorage<string>();
+
+/**
+ * Runs `fn` with a request-scoped API key. All API calls made from within
+ * `fn` use this key instead of the process-wide INVAPI_API_KEY.
+ */
+export function runWithApiKey<T>(apiKey: string | undefined, fn: () => T): T {
+  return apiKey ? requestApiKey.run(apiKey, fn) : fn();
+}
+
+/** The API key of the current HTTP request, when it brought its own */
+export function getRequestApiKey(): string | undefined {
+  return requestApiKey.getStore();
+}
+
+export function getApiKey(): string {
+  const key = requestApiKey.getStore() ?? process.env.INVAPI_API_KEY;
   if (!key) {
     throw new Error(
       "INVAPI_API_KEY environment variable is required. " +
@@ -20,41 +50,83 @@ function baseHeaders(): Record<string, string> {
   return { "x-api-key": getApiKey() };
 }
 
+export interface RequestOptions {
+  /**
+   * Whether repeating the call is harmless. Defaults to true for conversion,
+   * validation and lookup endpoints. Extraction, QR scans and batches are
+   * passed as false: a request cut off after the API received it may already
+   * have been charged. Non-idempotent calls are only retried on 429.
+   */
+  idempotent?: boolean;
+}
+
 /** POST JSON body, receive JSON response */
-export async function postJsonGetJson<T>(endpoint: string, data: unknown): Promise<T> {
-  const response = await axios.post(`${API_BASE_URL}${endpoint}`, data, {
-    headers: { ...baseHeaders(), "Content-Type": "application/json", "Accept": "application/json" },
-    timeout: TIMEOUT_MS,
-  });
+export async function postJsonGetJson<T>(
+  endpoint: string,
+  data: unknown,
+  options: RequestOptions = {}
+): Promise<T> {
+  const response = await withRetry(
+    () =>
+      axios.post(`${getApiBaseUrl()}${endpoint}`, data, {
+        headers: { ...baseHeaders(), "Content-Type": "application/json", "Accept": "application/json" },
+        timeout: getTimeoutMs(),
+      }),
+    options.idempotent ?? true
+  );
   return response.data as T;
 }
 
 /** POST JSON body, receive text response (XML) */
-export async function postJsonGetText(endpoint: string, data: unknown): Promise<string> {
-  const response = await axios.post(`${API_BASE_URL}${endpoint}`, data, {
-    headers: { ...baseHeaders(), "Content-Type": "application/json" },
-    responseType: "text",
-    timeout: TIMEOUT_MS,
-  });
+export async function postJsonGetText(
+  endpoint: string,
+  data: unknown,
+  options: RequestOptions = {}
+): Promise<string> {
+  const response = await withRetry(
+    () =>
+      axios.post(`${getApiBaseUrl()}${endpoint}`, data, {
+        headers: { ...baseHeaders(), "Content-Type": "application/json" },
+        responseType: "text",
+        timeout: getTimeoutMs(),
+      }),
+    options.idempotent ?? true
+  );
   return response.data as string;
 }
 
 /** POST JSON body, receive binary response (XLSX, PDF) */
-export async function postJsonGetBinary(endpoint: string, data: unknown): Promise<Buffer> {
-  const response = await axios.post(`${API_BASE_URL}${endpoint}`, data, {
-    headers: { ...baseHeaders(), "Content-Type": "application/json" },
-    responseType: "arraybuffer",
-    timeout: TIMEOUT_MS,
-  });
+export async function postJsonGetBinary(
+  endpoint: string,
+  data: unknown,
+  options: RequestOptions = {}
+): Promise<Buffer> {
+  const response = await withRetry(
+    () =>
+      axios.post(`${getApiBaseUrl()}${endpoint}`, data, {
+        headers: { ...baseHeaders(), "Content-Type": "application/json" },
+        responseType: "arraybuffer",
+        timeout: getTimeoutMs(),
+      }),
+    options.idempotent ?? true
+  );
   return Buffer.from(response.data);
 }
 
 /** POST XML/text body, receive JSON response */
-export async function postXmlGetJson<T>(endpoint: string, xml: string): Promise<T> {
-  const response = await axios.post(`${API_BASE_URL}${endpoint}`, xml, {
-    headers: { ...baseHeaders(), "Content-Type": "application/xml", "Accept": "application/json" },
-    timeout: TIMEOUT_MS,
-  });
+export async function postXmlGetJson<T>(
+  endpoint: string,
+  xml: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  const response = await withRetry(
+    () =>
+      axios.post(`${getApiBaseUrl()}${endpoint}`, xml, {
+        headers: { ...baseHeaders(), "Content-Type": "application/xml", "Accept": "application/json" },
+        timeout: getTimeoutMs(),
+      }),
+    options.idempotent ?? true
+  );
   return response.data as T;
 }
 
@@ -62,21 +134,30 @@ export async function postXmlGetJson<T>(endpoint: string, xml: string): Promise<
 export async function postBinaryGetJson<T>(
   endpoint: string,
   buffer: Buffer,
-  contentType: string
+  contentType: string,
+  options: RequestOptions = {}
 ): Promise<T> {
-  const response = await axios.post(`${API_BASE_URL}${endpoint}`, buffer, {
-    headers: { ...baseHeaders(), "Content-Type": contentType, "Accept": "application/json" },
-    timeout: TIMEOUT_MS,
-  });
+  const response = await withRetry(
+    () =>
+      axios.post(`${getApiBaseUrl()}${endpoint}`, buffer, {
+        headers: { ...baseHeaders(), "Content-Type": contentType, "Accept": "application/json" },
+        timeout: getTimeoutMs(),
+      }),
+    options.idempotent ?? true
+  );
   return response.data as T;
 }
 
 /** GET request, receive JSON */
-export async function getJson<T>(endpoint: string): Promise<T> {
-  const response = await axios.get(`${API_BASE_URL}${endpoint}`, {
-    headers: { ...baseHeaders(), "Accept": "application/json" },
-    timeout: 30_000,
-  });
+export async function getJson<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+  const response = await withRetry(
+    () =>
+      axios.get(`${getApiBaseUrl()}${endpoint}`, {
+        headers: { ...baseHeaders(), "Accept": "application/json" },
+        timeout: getTimeoutMs(USER_TIMEOUT_MS),
+      }),
+    options.idempotent ?? true
+  );
   return response.data as T;
 }
 
@@ -107,6 +188,9 @@ export function getContentType(filePath: string): string {
     ".tif": "image/tiff",
     ".webp": "image/webp",
     ".xml": "application/xml",
+    ".csv": "text/csv",
+    ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ".ods": "application/vnd.oasis.opendocument.spreadsheet",
   };
   return types[ext] ?? "application/octet-stream";
 }
@@ -137,6 +221,11 @@ function parseResponseData(raw: unknown): ApiErrorData | undefined {
   return undefined;
 }
 
+/** HTTP status of a failed API call, or undefined for network and non-HTTP errors */
+export function getErrorStatus(error: unknown): number | undefined {
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
+
 export function handleApiError(error: unknown): string {
   if (axios.isAxiosError(error)) {
     const axiosErr = error as AxiosError;
@@ -154,7 +243,7 @@ export function handleApiError(error: unknown): string {
       const messages: Record<number, string> = {
         401: "Authentication failed. Ensure INVAPI_API_KEY is set correctly.",
         402: "Insufficient credits. Top up your account at https://invapi.org.",
-        429: "Rate limit exceeded. Wait a moment and retry.",
+        429: "Rate limit exceeded and automatic retries were exhausted. Wait a moment and try again.",
       };
       if (messages[status]) return `Error: ${messages[status]}`;
 
@@ -165,8 +254,9 @@ export function handleApiError(error: unknown): string {
     if (axiosErr.code === "ECONNABORTED") {
       return "Error: Request timed out. The file may be too large or the server is busy.";
     }
-    if (axiosErr.code === "ENOTFOUND") {
-      return "Error: Cannot reach api.invapi.org. Check your internet connection.";
+    if (axiosErr.code === "ENOTFOUND" || axiosErr.code === "ECONNREFUSED") {
+      const host = new URL(getApiBaseUrl()).host;
+      return `Error: Cannot reach ${host}. Check your internet connection and INVAPI_API_BASE_URL.`;
     }
   }
 
@@ -0,0 +1,182 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import type { Attachment, Invoice } from "./schemas.js";
+import type { XmlFormat } from "./xml.js";
+import type { SemanticInvoice } from "./en16931/model.js";
+import { getContentType, getFileName, readFileAsBuffer } from "./api-client.js";
+import {
+  CII_NS,
+  UBL_NS,
+  contentOf,
+  element,
+  find,
+  findAll,
+  insert,
+  prefixFor,
+  textOf,
+  type OrderedNode,
+} from "./xml-edit.js";
+
+// ── Supporting documents (BG-24) ──
+//
+// Attachments are embedded as base64 in generated UBL and CII. Files named
+// by file_path are read before the conversion, and embedded content can be
+// written back to a directory when converting XML to JSON.
+
+/** CII document type for an additional supporting document */
+const CII_SUPPORTING_DOCUMENT = "916";
+
+/** MIME type of an attachment, given or derived from its file_path */
+export function mimeTypeOf(attachment: Attachment): string | undefined {
+  return attachment.mime_type ?? (attachment.file_path ? getContentType(attachment.file_path) : undefined);
+}
+
+/** Reads every attachment's file_path into content, mime_type and filename */
+export async function resolveAttachments(invoice: Invoice): Promise<Invoice> {
+  if (!invoice.attachments?.some((attachment) => attachment.file_path)) return invoice;
+  const attachments = await Promise.all(
+    invoice.attachments.map(async ({ file_path, ...attachment }) => {
+      if (!file_path) return attachment;
+      let buffer: Buffer;
+      try {
+        buffer = await readFileAsBuffer(file_path);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Cannot read attachment '${attachment.id}' from ${file_path}: ${reason}`);
+      }
+      return {
+        ...attachment,
+        content: buffer.toString("base64"),
+        mime_type: attachment.mime_type ?? getContentType(file_path),
+        filename: attachment.filename ?? getFileName(file_path),
+      };
+    })
+  );
+  return { ...invoice, attachments };
+}
+
+// ── UBL ──
+
+function applyUbl(root: OrderedNode, attachments: Attachment[]): void {
+  const cbc = prefixFor(root, UBL_NS.cbc, "cbc");
+  const cac = prefixFor(root, UBL_NS.cac, "cac");
+  const nodes = contentOf(root);
+  const known = new Set(
+    findAll(nodes, "AdditionalDocumentReference").map((ref) => textOf(find(contentOf(ref), "ID")))
+  );
+
+  for (const attachment of attachments) {
+    if (known.has(attachment.id)) continue;
+    const content = [element(`${cbc}ID`, attachment.id)];
+    if (attachment.description) content.push(element(`${cbc}DocumentDescription`, attachment.description));
+    const attached: OrderedNode[] = [];
+    if (attachment.content) {
+      attached.push(
+        element(`${cbc}EmbeddedDocumentBinaryObject`, attachment.content, {
+          "@_mimeCode": mimeTypeOf(attachment) ?? "application/octet-stream",
+          "@_filename": attachment.filename ?? attachment.id,
+        })
+      );
+    }
+    if (attachment.uri) {
+      attached.push(element(`${cac}ExternalReference`, [element(`${cbc}URI`, attachment.uri)]));
+    }
+    if (attached.length) content.push(element(`${cac}Attachment`, attached));
+    insert(nodes, element(`${cac}AdditionalDocumentReference`, content), [
+      "ProjectReference",
+      "Signature",
+      "AccountingSupplierParty",
+    ]);
+  }
+}
+
+// ── CII ──
+
+function applyCii(root: OrderedNode, attachments: Attachment[]): void {
+  const ram = prefixFor(root, CII_NS.ram, "ram");
+  const transaction = find(contentOf(root), "SupplyChainTradeTransaction");
+  const agreement = transaction && find(contentOf(transaction), "ApplicableHeaderTradeAgreement");
+  if (!agreement) return;
+
+  const nodes = contentOf(agreement);
+  const known = new Set(
+    findAll(nodes, "AdditionalReferencedDocument").map((doc) => textOf(find(contentOf(doc), "IssuerAssignedID")))
+  );
+  for (const attachment of attachments) {
+    if (known.has(attachment.id)) continue;
+    const content = [element(`${ram}IssuerAssignedID`, attachment.id)];
+    if (attachment.uri) content.push(element(`${ram}URIID`, attachment.uri));
+    content.push(element(`${ram}TypeCode`, CII_SUPPORTING_DOCUMENT));
+    if (attachment.description) content.push(element(`${ram}Name`, attachment.description));
+    if (attachment.content) {
+      content.push(
+        element(`${ram}AttachmentBinaryObject`, attachment.content, {
+          "@_mimeCode": mimeTypeOf(attachment) ?? "application/octet-stream",
+          "@_filename": attachment.filename ?? attachment.id,
+        })
+      );
+    }
+    insert(nodes, element(`${ram}AdditionalReferencedDocument`, content), [
+      "BuyerAgentTradeParty",
+      "SpecifiedProcuringProject",
+      "UltimateCustomerOrderReferencedDocument",
+    ]);
+  }
+}
+
+// ── Public helpers ──
+
+/** Adds the invoice's attachments to generated UBL or CII XML that lacks them */
+export function applyAttachments(root: OrderedNode, format: XmlFormat, invoice: Invoice): void {
+  if (!invoice.attachments?.length) return;
+  if (format === "cii") {
+    applyCii(root, invoice.attachments);
+  } else {
+    applyUbl(root, invoice.attachments);
+  }
+}
+
+/** Fills attachments of an Invoice JSON converted from XML when the API left them out */
+export function readAttachments(result: Record<string, unknown>, model: SemanticInvoice): Record<string, unknown> {
+  if (result.attachments !== undefined || !model.attachments.length) return result;
+  const attachments: Attachment[] = model.attachments.map((attachment) => ({
+    id: attachment.id.value ?? "",
+    description: attachment.description.value,
+    content: attachment.content.value,
+    mime_type: attachment.mimeCode.value,
+    filename: attachment.filename.value,
+    uri: attachment.uri.value,
+  }));
+  return { ...result, attachments };
+}
+
+/** A safe file name for the attachment that is not in `used` yet, keeping its extension */
+function attachmentFileName(attachment: Attachment, used: Set<string>): string {
+  const name = basename(attachment.filename ?? attachment.id).replace(/[^\w.-]/g, "_");
+  const ext = extname(name);
+  const stem = name.slice(0, name.length - ext.length) || "attachment";
+  let candidate = `${stem}${ext}`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem}-${n}${ext}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Writes the embedded content of an Invoice JSON's attachments to files in
+ * `dir` and replaces it with their file_path.
+ */
+export async function saveAttachments(invoice: Record<string, unknown>, dir: string): Promise<Record<string, unknown>> {
+  const attachments = invoice.attachments as Attachment[] | undefined;
+  if (!attachments?.some((attachment) => attachment.content)) return invoice;
+  await mkdir(dir, { recursive: true });
+  const used = new Set<string>();
+  const saved = await Promise.all(
+    attachments.map(async ({ content, ...attachment }) => {
+      if (!content) return attachment;
+      const file_path = join(dir, attachmentFileName(attachment, used));
+      await writeFile(file_path, Buffer.from(content, "base64"));
+      return { ...attachment, file_path };
+    })
+  );
+  return { ...invoice, attachments: saved };
+}
@@ -0,0 +1,430 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { extname, join, relative } from "node:path";
+import { glob } from "tinyglobby";
+import type { z } from "zod";
+import {
+  InvoiceSchema,
+  type BatchOperationSchema,
+  type BatchResult,
+  type BatchRun,
+  type Invoice,
+  type LedgerFormat,
+} from "./schemas.js";
+import { getErrorStatus, handleApiError, postJsonGetJson, readFileAsBuffer, readFileAsString } from "./api-client.js";
+import { forEachConcurrent } from "./concurrency.js";
+import { completeInvoiceJson, completeInvoiceXml, toApiInvoice } from "./invoice-xml.js";
+import { resolveAttachments } from "./attachments.js";
+import { unsupportedSyntax } from "./profiles.js";
+import { recordInvoices } from "./ledger.js";
+
+export type BatchOperation = z.infer<typeof BatchOperationSchema>;
+export type BatchItemResult = BatchResult["results"][number];
+
+/** Maximum number of operations `/api/v1/batch/convert` accepts per request */
+export const BATCH_CHUNK_SIZE = 100;
+
+// ── Inputs ──
+
+/**
+ * Loads `file_path` into `input` and reads the attachment files of Invoice
+ * JSON. Returns an error message when the operation has no usable input or
+ * asks for a profile the target syntax does not support.
+ */
+export async function resolveInput(op: BatchOperation): Promise<{ op: BatchOperation } | { error: string }> {
+  const loaded = await loadInput(op);
+  if ("error" in loaded) return loaded;
+  const invoice = invoiceInput(loaded.op);
+  const format = op.operation === "json_to_cii" ? "cii" : "ubl";
+  const unsupported = invoice?.profile && unsupportedSyntax(invoice.profile, format);
+  if (unsupported) return { error: unsupported };
+  if (!invoice?.attachments?.length) return loaded;
+  try {
+    return { op: { ...loaded.op, input: await resolveAttachments(invoice) } };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function loadInput(op: BatchOperation): Promise<{ op: BatchOperation } | { error: string }> {
+  if (!op.file_path) {
+    return op.input === undefined ? { error: "Provide either 'input' or 'file_path'." } : { op };
+  }
+  const { file_path, ...rest } = op;
+  try {
+    if (op.operation === "zugferd_to_json") {
+      return { op: { ...rest, input: (await readFileAsBuffer(file_path)).toString("base64") } };
+    }
+    const text = await readFileAsString(file_path);
+    if (op.operation === "json_to_ubl" || op.operation === "json_to_cii") {
+      return { op: { ...rest, input: JSON.parse(text) } };
+    }
+    return { op: { ...rest, input: text } };
+  } catch (error) {
+    return { error: `Cannot read ${file_path}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Builds one operation per file matching `pattern` (relative to `cwd`).
+ * The id is the file's relative path without extension.
+ */
+export async function operationsFromGlob(
+  pattern: string,
+  operation: BatchOperation["operation"],
+  cwd: string = process.cwd()
+): Promise<BatchOperation[]> {
+  const files = await glob(pattern, { cwd, absolute: true, onlyFiles: true });
+  return files.sort().map((file) => {
+    const rel = relative(cwd, file);
+    return { id: rel.slice(0, rel.length - extname(rel).length), operation, file_path: file };
+  });
+}
+
+/** The operation's input as an Invoice, when it is Invoice JSON */
+function invoiceInput(op: BatchOperation): Invoice | undefined {
+  if (op.operation !== "json_to_ubl" && op.operation !== "json_to_cii") return undefined;
+  // Validate only to decide; the original object is sent so unknown fields are kept
+  return InvoiceSchema.safeParse(op.input).success ? (op.input as Invoice) : undefined;
+}
+
+/** Prepares a resolved operation for `/api/v1/batch/convert` */
+export function toApiOperation(op: BatchOperation): BatchOperation {
+  const invoice = invoiceInput(op);
+  return invoice ? { ...op, input: toApiInvoice(invoice) } : op;
+}
+
+/**
+ * Applies the document type and preceding invoices of each sent Invoice to
+ * the generated XML, or reads them back from each sent XML document, as the
+ * single-document conversion tools do.
+ */
+export function completeResults(sent: BatchOperation[], results: BatchItemResult[]): BatchItemResult[] {
+  const byId = new Map(sent.map((op) => [op.id, op]));
+  return results.map((result) => {
+    const op = byId.get(result.id);
+    if (!op || !result.success) return result;
+    const invoice = invoiceInput(op);
+    if (invoice && typeof result.output === "string") {
+      return { ...result, output: completeInvoiceXml(result.output, invoice) };
+    }
+    if (
+      (op.operation === "ubl_to_json" || op.operation === "cii_to_json") &&
+      typeof op.input === "string" &&
+      typeof result.output === "object" &&
+      result.output !== null
+    ) {
+      return { ...result, output: completeInvoiceJson(result.output as Record<string, unknown>, op.input) };
+    }
+    return result;
+  });
+}
+
+/**
+ * Records the Invoice sent or received by each successful operation in the
+ * ledger and adds the invoices it likely duplicates to its result. `given`
+ * are the operations as passed in, before `file_path` was loaded.
+ */
+export async function recordResults(
+  given: BatchOperation[],
+  sent: BatchOperation[],
+  results: BatchItemResult[],
+  tool: string
+): Promise<BatchItemResult[]> {
+  const filePaths = new Map(given.map((op) => [op.id, op.file_path]));
+  const byId = new Map(sent.map((op) => [op.id, op]));
+  const recorded = results.filter((result) => result.success && byId.has(result.id));
+  const duplicates = await recordInvoices(
+    recorded.map((result) => {
+      const op = byId.get(result.id) as BatchOperation;
+      const [from] = op.operation.split("_to_") as [LedgerFormat];
+      const invoice = invoiceInput(op) ?? result.output;
+      const content = from === "zugferd" ? Buffer.from(String(op.input), "base64") : serializeOutput(op.input);
+      return { invoice, source: { tool, format: from, file_path: filePaths.get(op.id), content } };
+    })
+  );
+  const byResult = new Map(recorded.map((result, i) => [result, duplicates[i]]));
+  return results.map((result) => {
+    const found = byResult.get(result);
+    return found?.length ? { ...result, duplicates: found } : result;
+  });
+}
+
+// ── Outputs ──
+
+/** Turns an operation id into a safe file name stem */
+export function fileStem(id: string): string {
+  return id.replace(/[^\w.-]/g, "_") || "output";
+}
+
+/**
+ * Unique file name stems for `names`, in order. Names that turn into the
+ * same stem, such as `a/b` and `a_b` or ones differing only in case, get
+ * `-2`, `-3`, … so no output overwrites another.
+ */
+export function fileStems(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const stem = fileStem(name);
+    let candidate = stem;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${stem}-${n}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+export function outputExtension(output: unknown): ".xml" | ".json" {
+  return typeof output === "string" ? ".xml" : ".json";
+}
+
+export function serializeOutput(output: unknown): string {
+  return typeof output === "string" ? output : JSON.stringify(output, null, 2);
+}
+
+/**
+ * Writes a successful result to `<outputDir>/<stem>.xml|json` and records
+ * the file name. `stem` comes from {@link fileStems} over all operation ids.
+ */
+export async function writeOutput(outputDir: string, result: BatchItemResult, stem: string): Promise<BatchItemResult> {
+  if (!result.success) return result;
+  const outputFile = join(outputDir, stem + outputExtension(result.output));
+  await writeFile(outputFile, serializeOutput(result.output), "utf-8");
+  return { ...result, output_file: outputFile };
+}
+
+/** Writes `manifest.json` listing every result without its output. Returns the manifest path. */
+export async function writeManifest(
+  outputDir: string,
+  summary: object,
+  results: BatchItemResult[]
+): Promise<string> {
+  const manifestPath = join(outputDir, "manifest.json");
+  const manifest = {
+    created_at: new Date().toISOString(),
+    summary,
+    results: results.map(({ id, success, output_file, error, duplicates }) => ({
+      id,
+      success,
+      output_file,
+      error,
+      duplicates,
+    })),
+  };
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
+  return manifestPath;
+}
+
+// ── Checkpoints ──
+//
+// A checkpoint records every operation the API has converted, so a run that
+// crashed or ran out of credits can be repeated with the same arguments and
+// only sends what is still missing. Failed operations are left out, so the
+// repeated run tries them again. Converted output is checkpointed before it
+// is written and kept there until its file exists, so a failed write is
+// repeated without converting again.
+
+/** `output` is set only while it has not been written to its file */
+type CheckpointEntry = Omit<BatchItemResult, "id">;
+
+interface Checkpoint {
+  version: 1;
+  updated_at: string;
+  results: Record<string, CheckpointEntry>;
+}
+
+async function loadCheckpoint(path: string): Promise<Map<string, CheckpointEntry>> {
+  try {
+    const data = JSON.parse(await readFile(path, "utf-8")) as Partial<Checkpoint>;
+    // Failures recorded by earlier versions are retried as well
+    const entries = data.version === 1 && data.results ? Object.entries(data.results) : [];
+    return new Map(entries.filter(([, entry]) => entry.success));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return new Map();
+    throw new Error(`Cannot read checkpoint ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Writes through a temporary file so a crash mid-write never leaves a truncated checkpoint */
+async function saveCheckpoint(path: string, results: Map<string, CheckpointEntry>): Promise<void> {
+  const checkpoint: Checkpoint = {
+    version: 1,
+    updated_at: new Date().toISOString(),
+    results: Object.fromEntries(results),
+  };
+  await writeFile(`${path}.tmp`, JSON.stringify(checkpoint), "utf-8");
+  await rename(`${path}.tmp`, path);
+}
+
+// ── Chunked runs ──
+
+export interface ChunkedRunOptions {
+  outputDir: string;
+  checkpointPath: string;
+  /** Ignore an existing checkpoint and process every operation again */
+  restart: boolean;
+  concurrency: number;
+  onProgress?: (done: number, total: number) => Promise<void>;
+}
+
+/** Counts the operations a run would send, i.e. those not yet converted in the checkpoint */
+export async function planChunkedRun(
+  operations: Array<Pick<BatchOperation, "id">>,
+  checkpointPath: string,
+  restart: boolean
+): Promise<{ total: number; pending: number }> {
+  const done = restart ? new Map<string, CheckpointEntry>() : await loadCheckpoint(checkpointPath);
+  return { total: operations.length, pending: operations.filter((op) => !done.has(op.id)).length };
+}
+
+/**
+ * Splits operations into chunks of {@link BATCH_CHUNK_SIZE}, sends up to
+ * `concurrency` chunks at a time and writes outputs as chunks finish.
+ * Operations already converted in the checkpoint are skipped, and outputs
+ * an earlier run could not write are written. A 402 stops scheduling new
+ * chunks. Failed operations, whether rejected by the API or lost with their
+ * chunk, are reported but not checkpointed, so a re-run retries them.
+ */
+export async function runChunked(operations: BatchOperation[], options: ChunkedRunOptions): Promise<BatchRun> {
+  const ids = new Set(operations.map((op) => op.id));
+  if (ids.size !== operations.length) {
+    throw new Error("Operation ids must be unique: they name the output files and checkpoint entries.");
+  }
+
+  const stems = fileStems(operations.map((op) => op.id));
+  const stemById = new Map(operations.map((op, i) => [op.id, stems[i]]));
+
+  await mkdir(options.outputDir, { recursive: true });
+  const done = options.restart ? new Map<string, CheckpointEntry>() : await loadCheckpoint(options.checkpointPath);
+
+  const pending = operations.filter((op) => !done.has(op.id));
+  const chunks: BatchOperation[][] = [];
+  for (let i = 0; i < pending.length; i += BATCH_CHUNK_SIZE) {
+    chunks.push(pending.slice(i, i + BATCH_CHUNK_SIZE));
+  }
+
+  const errors = new Map<string, string>();
+  const writeErrors = new Map<string, string>();
+  let processed = 0;
+  let sent = 0;
+  let processingTimeMs = 0;
+  let stoppedReason: BatchRun["stopped_reason"];
+  let saving = Promise.resolve();
+  // Each save writes every entry, so one that fails is made good by the next
+  const save = (): Promise<void> =>
+    (saving = saving.catch(() => undefined).then(() => saveCheckpoint(options.checkpointPath, done)));
+
+  /** Writes the outputs of `ids` that are still held in the checkpoint */
+  const writePending = async (ids: string[]): Promise<void> => {
+    for (const id of ids) {
+      const entry = done.get(id);
+      if (entry?.output === undefined) continue;
+      try {
+        const written = await writeOutput(options.outputDir, { id, ...entry }, stemById.get(id) ?? fileStem(id));
+        done.set(id, { ...entry, output: undefined, output_file: written.output_file });
+      } catch (error) {
+        writeErrors.set(id, error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  await writePending(operations.map((op) => op.id));
+
+  const runChunk = async (chunk: BatchOperation[]): Promise<void> => {
+    const toSend: BatchOperation[] = [];
+    for (const op of chunk) {
+      const resolved = await resolveInput(op);
+      if ("error" in resolved) {
+        errors.set(op.id, resolved.error);
+      } else {
+        toSend.push(resolved.op);
+      }
+    }
+
+    let outOfCredits = false;
+    let response: BatchResult | undefined;
+    if (toSend.length) {
+      try {
+        response = await postJsonGetJson<BatchResult>(
+          "/api/v1/batch/convert",
+          { operations: toSend.map(toApiOperation) },
+          { idempotent: false }
+        );
+      } catch (error) {
+        if (getErrorStatus(error) === 402) {
+          stoppedReason = "insufficient_credits";
+          outOfCredits = true;
+        } else {
+          const message = handleApiError(error);
+          for (const op of toSend) errors.set(op.id, message);
+        }
+      }
+    }
+
+    if (response) {
+      sent += toSend.length;
+      processingTimeMs += response.summary.processing_time_ms;
+      const converted = completeResults(toSend, response.results).filter((r) => {
+        if (!r.success) errors.set(r.id, r.error ?? "Unknown error");
+        return r.success;
+      });
+      // The API has charged for these: checkpoint them before the ledger and output files
+      for (const { id, ...entry } of converted) done.set(id, entry);
+      await save().catch(() => undefined);
+
+      try {
+        const recorded = await recordResults(chunk, toSend, converted, "invapi_batch_convert_large");
+        for (const r of recorded) {
+          if (r.duplicates) done.set(r.id, { ...(done.get(r.id) as CheckpointEntry), duplicates: r.duplicates });
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const message = `Converted, but not recorded in the ledger: ${reason}`;
+        for (const r of converted) done.set(r.id, { ...(done.get(r.id) as CheckpointEntry), error: message });
+      }
+      await writePending(converted.map((r) => r.id));
+    }
+
+    await save().catch(() => undefined);
+    if (outOfCredits) return;
+    processed += chunk.length;
+    await options.onProgress?.(processed, pending.length);
+  };
+
+  await forEachConcurrent(chunks, options.concurrency, runChunk, () => stoppedReason !== undefined);
+  await save();
+
+  const results: BatchItemResult[] = [];
+  for (const op of operations) {
+    const entry = done.get(op.id);
+    if (entry) {
+      const { output, ...result } = entry;
+      if (output === undefined) {
+        results.push({ id: op.id, ...result });
+      } else {
+        // Still in the checkpoint, so the next run writes it without converting again
+        const reason = writeErrors.get(op.id) ?? "not written";
+        results.push({ id: op.id, success: false, error: `Converted, but the output could not be written: ${reason}` });
+      }
+    } else if (errors.has(op.id)) {
+      results.push({ id: op.id, success: false, error: errors.get(op.id) });
+    }
+  }
+
+  const successful = results.filter((r) => r.success).length;
+  const summary: BatchRun["summary"] = {
+    total: operations.length,
+    successful,
+    failed: results.length - successful,
+    skipped: operations.length - pending.length,
+    pending: operations.length - results.length,
+    sent,
+    processing_time_ms: processingTimeMs,
+  };
+
+  return {
+    results,
+    summary,
+    stopped_reason: stoppedReason,
+    manifest_path: await writeManifest(options.outputDir, summary, results),
+    checkpoint_path: options.checkpointPath,
+  };
+}
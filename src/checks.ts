@@ -0,0 +1,506 @@
+import type { Invoice, CheckIssue, LineAllowanceCharge, AllowanceCharge, VatBreakdown } from "./schemas.js";
+import { ATTACHMENT_MIME_TYPES, ELECTRONIC_ADDRESS_SCHEMES, isCurrencyCode } from "./code-lists.js";
+import { sumAmounts } from "./en16931/model.js";
+import { deriveVatBreakdown } from "./vat-breakdown.js";
+import { mimeTypeOf } from "./attachments.js";
+
+// ── Local pre-flight checks for Invoice JSON ──
+//
+// These run before any API call so arithmetic and format mistakes are
+// caught without spending credits on a conversion that will fail anyway.
+
+/** Amounts are compared after rounding to cents, with one cent of slack */
+const TOLERANCE = 0.01;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function differs(actual: number, expected: number, tolerance: number = TOLERANCE): boolean {
+  return Math.abs(round2(actual) - round2(expected)) > tolerance + 1e-9;
+}
+
+function fmt(value: number): string {
+  return round2(value).toFixed(2);
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function checkDates(invoice: Invoice, issues: CheckIssue[]): void {
+  const dates: Array<[string, string | undefined]> = [
+    ["invoice_date", invoice.invoice_date],
+    ["payment_information.payment_due_date", invoice.payment_information.payment_due_date],
+    ["payment_information.payment_payed_date", invoice.payment_information.payment_payed_date],
+    ["delivery_information.delivery_date", invoice.delivery_information?.delivery_date],
+    ["additional_data.invoicing_period.start", invoice.additional_data?.invoicing_period?.start],
+    ["additional_data.invoicing_period.end", invoice.additional_data?.invoicing_period?.end],
+    ...(invoice.additional_data?.preceding_invoices ?? []).map(
+      (ref, i): [string, string | undefined] => [`additional_data.preceding_invoices[${i}].date`, ref.date]
+    ),
+  ];
+
+  for (const [path, value] of dates) {
+    if (value !== undefined && !isValidDate(value)) {
+      issues.push({
+        path,
+        severity: "error",
+        message: `'${value}' is not a valid date in YYYY-MM-DD format`,
+      });
+    }
+  }
+
+  const period = invoice.additional_data?.invoicing_period;
+  if (period && isValidDate(period.start) && isValidDate(period.end) && period.start > period.end) {
+    issues.push({
+      path: "additional_data.invoicing_period",
+      severity: "error",
+      message: `Period start ${period.start} is after period end ${period.end}`,
+    });
+  }
+}
+
+function checkCurrency(invoice: Invoice, issues: CheckIssue[]): void {
+  if (!isCurrencyCode(invoice.invoice_currency_code)) {
+    issues.push({
+      path: "invoice_currency_code",
+      severity: "error",
+      message: `'${invoice.invoice_currency_code}' is not an ISO 4217 currency code`,
+    });
+  }
+}
+
+function checkDocumentType(invoice: Invoice, issues: CheckIssue[]): void {
+  const type = invoice.document_type_code;
+  const data = invoice.additional_data;
+  if ((type === "381" || type === "384") && !data?.preceding_invoices?.length && !data?.preceeding_invoice_number) {
+    issues.push({
+      path: "additional_data.preceding_invoices",
+      severity: "warning",
+      message: `${type === "381" ? "Credit notes" : "Corrected invoices"} should reference the invoice they correct`,
+    });
+  }
+
+  invoice.items.forEach((item, i) => {
+    if (type === "381" && item.item_quantity < 0) {
+      issues.push({
+        path: `items[${i}].item_quantity`,
+        severity: "warning",
+        message: "Credit notes state credited quantities and amounts as positive values; the type code negates them",
+      });
+    }
+  });
+}
+
+function checkParties(invoice: Invoice, issues: CheckIssue[]): void {
+  for (const role of ["seller", "buyer"] as const) {
+    const address = invoice[role].electronic_address;
+    if (!address) continue;
+    if (!Object.hasOwn(ELECTRONIC_ADDRESS_SCHEMES, address.scheme_id)) {
+      issues.push({
+        path: `${role}.electronic_address.scheme_id`,
+        severity: "warning",
+        message: `'${address.scheme_id}' is not a common EAS scheme; Peppol may not be able to route to it`,
+      });
+    }
+    if (address.scheme_id === "EM" && !address.value.includes("@")) {
+      issues.push({
+        path: `${role}.electronic_address.value`,
+        severity: "error",
+        message: `Scheme EM requires an e-mail address, got '${address.value}'`,
+      });
+    }
+  }
+}
+
+function checkAttachments(invoice: Invoice, issues: CheckIssue[]): void {
+  const ids = new Set<string>();
+  invoice.attachments?.forEach((attachment, i) => {
+    const path = `attachments[${i}]`;
+    if (ids.has(attachment.id)) {
+      issues.push({ path: `${path}.id`, severity: "error", message: `Duplicate attachment id '${attachment.id}'` });
+    }
+    ids.add(attachment.id);
+
+    if (attachment.file_path && attachment.content) {
+      issues.push({ path, severity: "error", message: "Provide either file_path or content, not both" });
+    } else if (!attachment.file_path && !attachment.content && !attachment.uri) {
+      issues.push({ path, severity: "error", message: "Provide file_path, content or uri" });
+    }
+    if (attachment.content && !attachment.filename) {
+      issues.push({ path: `${path}.filename`, severity: "error", message: "Embedded content needs a filename" });
+    }
+
+    const mimeType = mimeTypeOf(attachment);
+    if ((attachment.file_path || attachment.content) && !Object.hasOwn(ATTACHMENT_MIME_TYPES, mimeType ?? "")) {
+      issues.push({
+        path: `${path}.mime_type`,
+        severity: "error",
+        message: `'${mimeType ?? "unknown"}' is not an allowed MIME type (invapi://code-lists/attachment-mime-types)`,
+      });
+    }
+  });
+}
+
+/** Categories other than S must be charged at 0% */
+function checkCategoryRate(category: string, rate: number, path: string, label: string, issues: CheckIssue[]): void {
+  if (category === "S" && rate <= 0) {
+    issues.push({ path, severity: "error", message: `Standard rated (S) ${label} must have a VAT rate greater than 0` });
+  }
+  if (["Z", "E", "AE", "K", "G", "O"].includes(category) && rate !== 0) {
+    issues.push({ path, severity: "error", message: `VAT category ${category} requires a VAT rate of 0` });
+  }
+}
+
+function checkAllowanceChargeList(
+  entries: Array<LineAllowanceCharge | AllowanceCharge> | undefined,
+  base: string,
+  issues: CheckIssue[]
+): void {
+  entries?.forEach((entry, i) => {
+    const path = `${base}[${i}]`;
+    if (!entry.reason && !entry.reason_code) {
+      issues.push({ path: `${path}.reason`, severity: "error", message: "Provide a reason or a reason_code" });
+    }
+    if (entry.base_amount !== undefined && entry.percentage !== undefined) {
+      const expected = (entry.base_amount * entry.percentage) / 100;
+      if (differs(entry.amount, expected)) {
+        issues.push({
+          path: `${path}.amount`,
+          severity: "error",
+          message:
+            `Expected ${fmt(expected)} (${entry.percentage}% of ${fmt(entry.base_amount)}), ` +
+            `got ${fmt(entry.amount)}`,
+        });
+      }
+    }
+    if ("vat_category_code" in entry) {
+      checkCategoryRate(entry.vat_category_code, entry.vat_percentage, `${path}.vat_percentage`, "entries", issues);
+    }
+  });
+}
+
+function checkAllowanceCharges(invoice: Invoice, issues: CheckIssue[]): void {
+  checkAllowanceChargeList(invoice.allowances, "allowances", issues);
+  checkAllowanceChargeList(invoice.charges, "charges", issues);
+  invoice.items.forEach((item, i) => {
+    checkAllowanceChargeList(item.allowances, `items[${i}].allowances`, issues);
+    checkAllowanceChargeList(item.charges, `items[${i}].charges`, issues);
+  });
+
+  const sums: Array<[string, number | undefined, Array<{ amount: number }> | undefined, string]> = [
+    ["totals.sum_of_allowances", invoice.totals.sum_of_allowances, invoice.allowances, "allowances"],
+    ["totals.sum_of_charges", invoice.totals.sum_of_charges, invoice.charges, "charges"],
+  ];
+  for (const [path, value, entries, name] of sums) {
+    const expected = sumAmounts(entries);
+    if (value !== undefined && differs(value, expected)) {
+      issues.push({
+        path,
+        severity: "error",
+        message: `Expected ${fmt(expected)} (sum of document-level ${name}), got ${fmt(value)}`,
+      });
+    }
+  }
+}
+
+/** Line net amount: quantity × net unit price − line allowances + line charges */
+function expectedLineNet(item: Invoice["items"][number]): number {
+  const price = item.price_details;
+  const netUnitPrice = price.item_price_without_vat - (price.item_price_discount ?? 0);
+  return item.item_quantity * netUnitPrice - sumAmounts(item.allowances) + sumAmounts(item.charges);
+}
+
+function checkItems(invoice: Invoice, issues: CheckIssue[]): void {
+  invoice.items.forEach((item, i) => {
+    const base = `items[${i}]`;
+    const price = item.price_details;
+    const rate = price.item_vat_percentage / 100;
+    const netUnitPrice = price.item_price_without_vat - (price.item_price_discount ?? 0);
+    const adjusted = Boolean(item.allowances?.length || item.charges?.length);
+
+    const expectedGrossPrice = price.item_price_without_vat * (1 + rate);
+    if (differs(price.item_price_with_vat, expectedGrossPrice)) {
+      issues.push({
+        path: `${base}.price_details.item_price_with_vat`,
+        severity: "error",
+        message:
+          `Expected ${fmt(expectedGrossPrice)} (${fmt(price.item_price_without_vat)} + ` +
+          `${price.item_vat_percentage}% VAT), got ${fmt(price.item_price_with_vat)}`,
+      });
+    }
+
+    const expectedNet = expectedLineNet(item);
+    if (
+      item.item_total_amount_without_vat !== undefined &&
+      differs(item.item_total_amount_without_vat, expectedNet)
+    ) {
+      issues.push({
+        path: `${base}.item_total_amount_without_vat`,
+        severity: "error",
+        message:
+          `Expected ${fmt(expectedNet)} (${item.item_quantity} × ${fmt(netUnitPrice)}` +
+          (adjusted ? " − line allowances + line charges" : "") +
+          `), got ${fmt(item.item_total_amount_without_vat)}`,
+      });
+    }
+
+    const net = item.item_total_amount_without_vat ?? expectedNet;
+    const expectedGross = net * (1 + rate);
+    if (differs(item.item_total_amount_with_vat, expectedGross)) {
+      issues.push({
+        path: `${base}.item_total_amount_with_vat`,
+        severity: "error",
+        message:
+          `Expected ${fmt(expectedGross)} (${fmt(net)} + ${price.item_vat_percentage}% VAT), ` +
+          `got ${fmt(item.item_total_amount_with_vat)}`,
+      });
+    }
+
+    checkCategoryRate(
+      price.vat_category_code,
+      price.item_vat_percentage,
+      `${base}.price_details.item_vat_percentage`,
+      "items",
+      issues
+    );
+  });
+}
+
+function checkTotals(invoice: Invoice, issues: CheckIssue[]): void {
+  const { totals, items } = invoice;
+
+  const lineNets = items.map((item) => item.item_total_amount_without_vat ?? expectedLineNet(item));
+  const sumNet = lineNets.reduce((sum, value) => sum + value, 0);
+
+  if (differs(totals.total_amount_without_vat, sumNet)) {
+    issues.push({
+      path: "totals.total_amount_without_vat",
+      severity: "error",
+      message: `Expected ${fmt(sumNet)} (sum of line net amounts), got ${fmt(totals.total_amount_without_vat)}`,
+    });
+  }
+
+  // Document-level allowances and charges adjust the totals after the lines
+  const documentEntries = [
+    ...(invoice.charges ?? []).map((entry) => ({ net: entry.amount, rate: entry.vat_percentage })),
+    ...(invoice.allowances ?? []).map((entry) => ({ net: -entry.amount, rate: entry.vat_percentage })),
+  ];
+  const adjusted = documentEntries.length > 0;
+  const adjustmentNet = documentEntries.reduce((sum, entry) => sum + entry.net, 0);
+
+  const expectedTaxExclusive = totals.total_amount_without_vat + adjustmentNet;
+  if (totals.invoice_total_without_vat !== undefined && differs(totals.invoice_total_without_vat, expectedTaxExclusive)) {
+    issues.push({
+      path: "totals.invoice_total_without_vat",
+      severity: "error",
+      message:
+        `Expected ${fmt(expectedTaxExclusive)} (total_amount_without_vat − allowances + charges), ` +
+        `got ${fmt(totals.invoice_total_without_vat)}`,
+    });
+  }
+  const taxExclusive = totals.invoice_total_without_vat ?? expectedTaxExclusive;
+
+  // VAT is rounded once per rate group (EN 16931 BR-CO-17), not per line, so
+  // the gross total may differ from the sum of line gross amounts
+  const netByRate = new Map<number, number>();
+  items.forEach((item, i) => {
+    const rate = item.price_details.item_vat_percentage;
+    netByRate.set(rate, (netByRate.get(rate) ?? 0) + lineNets[i]);
+  });
+  for (const entry of documentEntries) {
+    netByRate.set(entry.rate, (netByRate.get(entry.rate) ?? 0) + entry.net);
+  }
+  const vatFromRates = [...netByRate].reduce((sum, [rate, net]) => sum + round2((net * rate) / 100), 0);
+
+  const expectedGross = taxExclusive + vatFromRates;
+  if (differs(totals.total_amount_with_vat, expectedGross, TOLERANCE * Math.max(netByRate.size, 1))) {
+    issues.push({
+      path: "totals.total_amount_with_vat",
+      severity: "error",
+      message:
+        `Expected ${fmt(expectedGross)} (` +
+        (adjusted ? "invoice_total_without_vat" : "total_amount_without_vat") +
+        ` + VAT per rate), got ${fmt(totals.total_amount_with_vat)}`,
+    });
+  }
+
+  const expectedVat = totals.total_amount_with_vat - taxExclusive;
+  if (differs(totals.total_vat_amount, expectedVat)) {
+    issues.push({
+      path: "totals.total_vat_amount",
+      severity: "error",
+      message:
+        `Expected ${fmt(expectedVat)} (total_amount_with_vat − ` +
+        (adjusted ? "invoice_total_without_vat" : "total_amount_without_vat") +
+        `), got ${fmt(totals.total_vat_amount)}`,
+    });
+  }
+
+  if (differs(totals.total_vat_amount, vatFromRates, TOLERANCE * netByRate.size)) {
+    issues.push({
+      path: "totals.total_vat_amount",
+      severity: "warning",
+      message:
+        `Sum of VAT per rate is ${fmt(vatFromRates)}, but total_vat_amount is ${fmt(totals.total_vat_amount)}`,
+    });
+  }
+
+  const rounding = totals.rounding_amount ?? 0;
+  const expectedDue = totals.total_amount_with_vat - totals.paid_amount + rounding;
+  if (differs(totals.amount_due_for_payment, expectedDue)) {
+    issues.push({
+      path: "totals.amount_due_for_payment",
+      severity: "error",
+      message:
+        `Expected ${fmt(expectedDue)} (total_amount_with_vat − paid_amount + rounding_amount), ` +
+        `got ${fmt(totals.amount_due_for_payment)}`,
+    });
+  }
+}
+
+/** Categories whose breakdown group needs an exemption reason (BT-120) or code (BT-121) */
+const EXEMPT_CATEGORIES = ["E", "AE", "K", "G", "O"];
+
+function sameGroup(a: VatBreakdown, b: VatBreakdown): boolean {
+  return a.vat_category_code === b.vat_category_code && a.vat_percentage === b.vat_percentage;
+}
+
+function checkVatBreakdown(invoice: Invoice, issues: CheckIssue[]): void {
+  const derived = deriveVatBreakdown(invoice);
+  const given = invoice.vat_breakdown;
+
+  if (!given) {
+    // Derived groups only lack a reason for categories without a standard one (E)
+    for (const group of derived) {
+      if (EXEMPT_CATEGORIES.includes(group.vat_category_code) && !group.exemption_reason && !group.exemption_reason_code) {
+        issues.push({
+          path: "vat_breakdown",
+          severity: "error",
+          message:
+            `Category ${group.vat_category_code} requires an exemption reason; add a vat_breakdown group ` +
+            "with exemption_reason or exemption_reason_code",
+        });
+      }
+    }
+    return;
+  }
+
+  given.forEach((group, i) => {
+    const base = `vat_breakdown[${i}]`;
+    const label = `category ${group.vat_category_code} at ${group.vat_percentage}%`;
+    const expected = derived.find((d) => sameGroup(d, group));
+    if (!expected) {
+      issues.push({
+        path: base,
+        severity: "error",
+        message: `No items, allowances or charges with ${label}`,
+      });
+    } else if (differs(group.taxable_amount, expected.taxable_amount)) {
+      issues.push({
+        path: `${base}.taxable_amount`,
+        severity: "error",
+        message:
+          `Expected ${fmt(expected.taxable_amount)} (line net amounts − allowances + charges with ${label}), ` +
+          `got ${fmt(group.taxable_amount)}`,
+      });
+    }
+
+    const expectedVat = (group.taxable_amount * group.vat_percentage) / 100;
+    if (differs(group.vat_amount, expectedVat)) {
+      issues.push({
+        path: `${base}.vat_amount`,
+        severity: "error",
+        message:
+          `Expected ${fmt(expectedVat)} (${fmt(group.taxable_amount)} × ${group.vat_percentage}%), ` +
+          `got ${fmt(group.vat_amount)}`,
+      });
+    }
+
+    checkCategoryRate(group.vat_category_code, group.vat_percentage, `${base}.vat_percentage`, "groups", issues);
+
+    const hasReason = Boolean(group.exemption_reason || group.exemption_reason_code);
+    if (EXEMPT_CATEGORIES.includes(group.vat_category_code) && !hasReason) {
+      issues.push({
+        path: `${base}.exemption_reason`,
+        severity: "error",
+        message: `Category ${group.vat_category_code} requires exemption_reason or exemption_reason_code`,
+      });
+    }
+    if ((group.vat_category_code === "S" || group.vat_category_code === "Z") && hasReason) {
+      issues.push({
+        path: `${base}.exemption_reason`,
+        severity: "error",
+        message: `Category ${group.vat_category_code} must not have an exemption reason`,
+      });
+    }
+    if (group.exemption_reason_code && !group.exemption_reason_code.startsWith("VATEX-")) {
+      issues.push({
+        path: `${base}.exemption_reason_code`,
+        severity: "warning",
+        message: `'${group.exemption_reason_code}' is not a VATEX code, e.g. VATEX-EU-AE`,
+      });
+    }
+  });
+
+  for (const group of derived) {
+    if (!given.some((g) => sameGroup(g, group))) {
+      issues.push({
+        path: "vat_breakdown",
+        severity: "error",
+        message:
+          `Missing group for category ${group.vat_category_code} at ${group.vat_percentage}% ` +
+          `(taxable amount ${fmt(group.taxable_amount)})`,
+      });
+    }
+  }
+
+  const vatSum = given.reduce((sum, group) => sum + group.vat_amount, 0);
+  if (differs(invoice.totals.total_vat_amount, vatSum)) {
+    issues.push({
+      path: "totals.total_vat_amount",
+      severity: "error",
+      message: `Expected ${fmt(vatSum)} (sum of vat_breakdown VAT amounts), got ${fmt(invoice.totals.total_vat_amount)}`,
+    });
+  }
+}
+
+/** Runs all local checks on an invoice. Returns an empty array when everything is consistent. */
+export function checkInvoice(invoice: Invoice): CheckIssue[] {
+  const issues: CheckIssue[] = [];
+  checkCurrency(invoice, issues);
+  checkDates(invoice, issues);
+  checkDocumentType(invoice, issues);
+  checkParties(invoice, issues);
+  checkItems(invoice, issues);
+  checkAllowanceCharges(invoice, issues);
+  checkTotals(invoice, issues);
+  checkVatBreakdown(invoice, issues);
+  checkAttachments(invoice, issues);
+  return issues;
+}
+
+export function hasErrors(issues: CheckIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+export function formatCheckIssues(issues: CheckIssue[]): string {
+  if (!issues.length) {
+    return "Pre-flight check passed: totals, VAT, dates and currency are consistent.";
+  }
+  const errors = issues.filter((issue) => issue.severity === "error").length;
+  const lines = [
+    errors
+      ? `Pre-flight check failed (${errors} error(s), ${issues.length - errors} warning(s)):`
+      : `Pre-flight check passed with ${issues.length} warning(s):`,
+  ];
+  for (const issue of issues) {
+    lines.push(`  - [${issue.severity}] ${issue.path}: ${issue.message}`);
+  }
+  return lines.join("\n");
+}
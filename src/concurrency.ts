@@ -0,0 +1,19 @@
+/**
+ * Runs `fn` over `items` with at most `concurrency` calls in flight, in
+ * order of the items. Once `shouldStop` returns true no further items are
+ * started; calls already running are awaited.
+ */
+export async function forEachConcurrent<T>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length && !shouldStop()) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
@@ -0,0 +1,144 @@
+import type { UserInfo } from "./schemas.js";
+import { getApiKey, getJson } from "./api-client.js";
+
+// ── Credit budget and balance guard ──
+//
+// Estimates assume one credit per document from the matching pool: one per
+// extracted file, converted invoice, remotely validated document or QR scan.
+// Local checks and validation are free.
+
+export type CreditPool = keyof UserInfo["credits"];
+
+export const CREDIT_POOLS: CreditPool[] = ["extraction", "conversion", "validation", "qr"];
+
+export type CreditEstimate = Partial<Record<CreditPool, number>>;
+
+export type GuardMode = "refuse" | "warn" | "off";
+
+const DEFAULT_BALANCE_TTL_MS = 60_000;
+
+/** What happens when a call would exceed the budget or balance. Set with INVAPI_CREDIT_GUARD. */
+export function getGuardMode(): GuardMode {
+  const raw = process.env.INVAPI_CREDIT_GUARD;
+  return raw === "warn" || raw === "off" ? raw : "refuse";
+}
+
+/** Maximum credits this process or session may spend, from INVAPI_CREDIT_BUDGET. Undefined when unset. */
+export function getCreditBudget(): number | undefined {
+  const raw = Number(process.env.INVAPI_CREDIT_BUDGET);
+  return process.env.INVAPI_CREDIT_BUDGET && Number.isFinite(raw) && raw >= 0 ? raw : undefined;
+}
+
+/** Whether the budget applies per MCP session (INVAPI_CREDIT_BUDGET_SCOPE=session) or per process */
+function getBudgetScope(sessionId: string | undefined): string {
+  return process.env.INVAPI_CREDIT_BUDGET_SCOPE === "session" && sessionId ? `session:${sessionId}` : "process";
+}
+
+function getBalanceTtlMs(): number {
+  const raw = Number(process.env.INVAPI_BALANCE_TTL_MS);
+  return Number.isFinite(raw) && raw >= 0 ? raw : DEFAULT_BALANCE_TTL_MS;
+}
+
+export function totalCredits(estimate: CreditEstimate): number {
+  return CREDIT_POOLS.reduce((sum, pool) => sum + (estimate[pool] ?? 0), 0);
+}
+
+// ── Spending ledger ──
+
+const spentByScope = new Map<string, number>();
+
+export function getSpent(sessionId: string | undefined): number {
+  return spentByScope.get(getBudgetScope(sessionId)) ?? 0;
+}
+
+// ── Balance cache ──
+//
+// Keyed by API key, since HTTP clients may each bring their own account.
+
+interface CachedBalance {
+  credits: UserInfo["credits"];
+  fetchedAt: number;
+}
+
+const balances = new Map<string, CachedBalance>();
+
+/** Remaining credits, from cache when fresh, otherwise from `/api/v1/user` */
+export async function getBalance(): Promise<UserInfo["credits"]> {
+  const key = getApiKey();
+  const cached = balances.get(key);
+  if (cached && Date.now() - cached.fetchedAt < getBalanceTtlMs()) {
+    return cached.credits;
+  }
+  const user = await getJson<UserInfo>("/api/v1/user");
+  balances.set(key, { credits: { ...user.credits }, fetchedAt: Date.now() });
+  return user.credits;
+}
+
+/** Updates the cached balance from a fresh `/api/v1/user` response */
+export function cacheBalance(credits: UserInfo["credits"]): void {
+  balances.set(getApiKey(), { credits: { ...credits }, fetchedAt: Date.now() });
+}
+
+/** Records credits spent by a call against the budget and the cached balance */
+export function recordSpend(estimate: CreditEstimate, sessionId: string | undefined): void {
+  const scope = getBudgetScope(sessionId);
+  spentByScope.set(scope, (spentByScope.get(scope) ?? 0) + totalCredits(estimate));
+
+  const cached = balances.get(getApiKey());
+  if (!cached) return;
+  for (const pool of CREDIT_POOLS) {
+    const remaining = cached.credits[pool];
+    if (typeof remaining === "number" && estimate[pool]) {
+      cached.credits[pool] = Math.max(0, remaining - estimate[pool]);
+    }
+  }
+}
+
+// ── Checks ──
+
+export interface CreditCheck {
+  /** Problems found: the budget or a pool's balance would run out */
+  problems: string[];
+  /** Notes that do not block the call, e.g. the balance could not be fetched */
+  notes: string[];
+  balance?: UserInfo["credits"];
+  budget?: { limit: number; spent: number; remaining: number };
+}
+
+/** Compares an estimate with the configured budget and the remaining balance */
+export async function checkCredits(estimate: CreditEstimate, sessionId: string | undefined): Promise<CreditCheck> {
+  const check: CreditCheck = { problems: [], notes: [] };
+  const needed = totalCredits(estimate);
+
+  const limit = getCreditBudget();
+  if (limit !== undefined) {
+    const spent = getSpent(sessionId);
+    check.budget = { limit, spent, remaining: Math.max(0, limit - spent) };
+    if (needed > check.budget.remaining) {
+      check.problems.push(
+        `Needs ~${needed} credit(s), but only ${check.budget.remaining} of the INVAPI_CREDIT_BUDGET of ` +
+          `${limit} remain.`
+      );
+    }
+  }
+
+  try {
+    check.balance = await getBalance();
+    for (const pool of CREDIT_POOLS) {
+      const want = estimate[pool] ?? 0;
+      const have = check.balance[pool];
+      if (want > 0 && typeof have === "number" && want > have) {
+        check.problems.push(`Needs ~${want} ${pool} credit(s), but only ${have} remain on the account.`);
+      }
+    }
+  } catch {
+    check.notes.push("Could not fetch the credit balance; proceeding without a balance check.");
+  }
+
+  return check;
+}
+
+export function formatEstimate(estimate: CreditEstimate): string {
+  const parts = CREDIT_POOLS.filter((pool) => estimate[pool]).map((pool) => `${estimate[pool]} ${pool}`);
+  return parts.length ? parts.join(", ") : "no credits";
+}
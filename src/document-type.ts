@@ -0,0 +1,284 @@
+import type { DocumentTypeCode, Invoice, PrecedingInvoice } from "./schemas.js";
+import { DOCUMENT_TYPE_CODES } from "./code-lists.js";
+import type { XmlFormat } from "./xml.js";
+import type { SemanticInvoice } from "./en16931/model.js";
+import {
+  CII_NS,
+  UBL_NS,
+  attributesOf,
+  contentOf,
+  element,
+  find,
+  findAll,
+  insert,
+  insertAt,
+  localName,
+  nameOf,
+  prefixFor,
+  remove,
+  rename,
+  setText,
+  textOf,
+  type OrderedNode,
+} from "./xml-edit.js";
+
+// ── Document type (BT-3) and preceding invoices (BG-3) ──
+//
+// The API renders every Invoice JSON as a commercial invoice and reads only
+// the single preceeding_invoice_number. Generated XML gets the requested type
+// code and references; a UBL credit note becomes a CreditNote document.
+
+export const DEFAULT_DOCUMENT_TYPE: DocumentTypeCode = "380";
+
+export function isDocumentTypeCode(code: string | undefined): code is DocumentTypeCode {
+  return code !== undefined && Object.hasOwn(DOCUMENT_TYPE_CODES, code);
+}
+
+/** preceding_invoices, falling back to the deprecated preceeding_invoice_number */
+export function precedingInvoicesOf(invoice: Invoice): PrecedingInvoice[] {
+  const data = invoice.additional_data;
+  if (data?.preceding_invoices?.length) return data.preceding_invoices;
+  return data?.preceeding_invoice_number ? [{ number: data.preceeding_invoice_number }] : [];
+}
+
+/** Fills the legacy preceeding_invoice_number the API reads from the first preceding invoice */
+export function prepareDocumentType(invoice: Invoice): Invoice {
+  const data = invoice.additional_data;
+  const first = data?.preceding_invoices?.[0];
+  if (!first || data?.preceeding_invoice_number) return invoice;
+  return { ...invoice, additional_data: { ...data, preceeding_invoice_number: first.number } };
+}
+
+// ── UBL ──
+
+/** Elements after cac:BillingReference in both the Invoice and CreditNote sequences */
+const UBL_AFTER_BILLING_REFERENCE = [
+  "DespatchDocumentReference",
+  "ReceiptDocumentReference",
+  "StatementDocumentReference",
+  "OriginatorDocumentReference",
+  "ContractDocumentReference",
+  "AdditionalDocumentReference",
+  "ProjectReference",
+  "Signature",
+  "AccountingSupplierParty",
+];
+
+/** Elements after the type code; in a CreditNote, TaxPointDate comes before it */
+const UBL_AFTER_TYPE_CODE = [
+  "Note",
+  "DocumentCurrencyCode",
+  "TaxCurrencyCode",
+  "PricingCurrencyCode",
+  "PaymentCurrencyCode",
+  "PaymentAlternativeCurrencyCode",
+  "AccountingCostCode",
+  "AccountingCost",
+  "LineCountNumeric",
+  "BuyerReference",
+  "InvoicePeriod",
+  "DiscrepancyResponse",
+  "OrderReference",
+  "BillingReference",
+  ...UBL_AFTER_BILLING_REFERENCE,
+];
+
+const UBL_AFTER_PAYMENT_MEANS = [
+  "PaymentTerms",
+  "PrepaidPayment",
+  "AllowanceCharge",
+  "TaxExchangeRate",
+  "PricingExchangeRate",
+  "PaymentExchangeRate",
+  "PaymentAlternativeExchangeRate",
+  "TaxTotal",
+  "WithholdingTaxTotal",
+  "LegalMonetaryTotal",
+];
+
+/**
+ * Turns a UBL Invoice into a CreditNote: root and namespace, type code and
+ * line element names. The CreditNote has no root-level DueDate, so it moves
+ * to PaymentMeans/PaymentDueDate.
+ */
+function ublToCreditNote(root: OrderedNode, cbc: string, cac: string): void {
+  const rootName = nameOf(root);
+  rename(root, rootName.replace(/Invoice$/, "CreditNote"));
+  const attributes = attributesOf(root);
+  for (const key of Object.keys(attributes)) {
+    if (attributes[key] === UBL_NS.invoice) attributes[key] = UBL_NS.creditNote;
+  }
+
+  const nodes = contentOf(root);
+  const typeCode = find(nodes, "InvoiceTypeCode");
+  if (typeCode) rename(typeCode, `${cbc}CreditNoteTypeCode`);
+
+  const taxPointDate = find(nodes, "TaxPointDate");
+  if (taxPointDate && typeCode && nodes.indexOf(taxPointDate) > nodes.indexOf(typeCode)) {
+    remove(nodes, taxPointDate);
+    insertAt(nodes, nodes.indexOf(typeCode), taxPointDate);
+  }
+
+  const dueDate = find(nodes, "DueDate");
+  if (dueDate) {
+    remove(nodes, dueDate);
+    const paymentDueDate = element(`${cbc}PaymentDueDate`, textOf(dueDate) ?? "");
+    const paymentMeans = find(nodes, "PaymentMeans");
+    if (paymentMeans) {
+      if (!find(contentOf(paymentMeans), "PaymentDueDate")) {
+        insert(contentOf(paymentMeans), paymentDueDate, [
+          "PaymentChannelCode",
+          "InstructionID",
+          "InstructionNote",
+          "PaymentID",
+          "CardAccount",
+          "PayerFinancialAccount",
+          "PayeeFinancialAccount",
+          "CreditAccount",
+          "PaymentMandate",
+          "TradeFinancing",
+        ]);
+      }
+    } else {
+      // 1 = instrument not defined
+      const means = element(`${cac}PaymentMeans`, [element(`${cbc}PaymentMeansCode`, "1"), paymentDueDate]);
+      insert(nodes, means, UBL_AFTER_PAYMENT_MEANS);
+    }
+  }
+
+  for (const line of findAll(nodes, "InvoiceLine")) {
+    rename(line, `${cac}CreditNoteLine`);
+    const quantity = find(contentOf(line), "InvoicedQuantity");
+    if (quantity) rename(quantity, `${cbc}CreditedQuantity`);
+  }
+}
+
+function applyUbl(root: OrderedNode, type: DocumentTypeCode, references: PrecedingInvoice[]): void {
+  const cbc = prefixFor(root, UBL_NS.cbc, "cbc");
+  const cac = prefixFor(root, UBL_NS.cac, "cac");
+  if (type === "381" && localName(nameOf(root)) === "Invoice") ublToCreditNote(root, cbc, cac);
+
+  const nodes = contentOf(root);
+  const isCreditNote = localName(nameOf(root)) === "CreditNote";
+  const typeCodeName = isCreditNote ? "CreditNoteTypeCode" : "InvoiceTypeCode";
+  const typeCode = find(nodes, typeCodeName);
+  if (typeCode) {
+    setText(typeCode, type);
+  } else {
+    const following = isCreditNote ? UBL_AFTER_TYPE_CODE : ["TaxPointDate", ...UBL_AFTER_TYPE_CODE];
+    insert(nodes, element(`${cbc}${typeCodeName}`, type), following);
+  }
+
+  for (const ref of references) {
+    const existing = findAll(nodes, "BillingReference")
+      .map((billing) => find(contentOf(billing), "InvoiceDocumentReference"))
+      .find((doc) => doc && textOf(find(contentOf(doc), "ID")) === ref.number);
+    if (existing) {
+      if (ref.date && !find(contentOf(existing), "IssueDate")) {
+        insert(contentOf(existing), element(`${cbc}IssueDate`, ref.date), [
+          "IssueTime",
+          "DocumentTypeCode",
+          "DocumentType",
+          "DocumentDescription",
+          "Attachment",
+          "ValidityPeriod",
+          "IssuerParty",
+        ]);
+      }
+      continue;
+    }
+    const document = [element(`${cbc}ID`, ref.number)];
+    if (ref.date) document.push(element(`${cbc}IssueDate`, ref.date));
+    const billing = element(`${cac}BillingReference`, [element(`${cac}InvoiceDocumentReference`, document)]);
+    insert(nodes, billing, UBL_AFTER_BILLING_REFERENCE);
+  }
+}
+
+// ── CII ──
+
+function applyCii(root: OrderedNode, type: DocumentTypeCode, references: PrecedingInvoice[]): void {
+  const ram = prefixFor(root, CII_NS.ram, "ram");
+  const nodes = contentOf(root);
+
+  const document = find(nodes, "ExchangedDocument");
+  if (document) {
+    const typeCode = find(contentOf(document), "TypeCode");
+    if (typeCode) {
+      setText(typeCode, type);
+    } else {
+      insert(contentOf(document), element(`${ram}TypeCode`, type), [
+        "IssueDateTime",
+        "CopyIndicator",
+        "LanguageID",
+        "IncludedNote",
+        "EffectiveSpecifiedPeriod",
+      ]);
+    }
+  }
+
+  const transaction = find(nodes, "SupplyChainTradeTransaction");
+  const settlement = transaction && find(contentOf(transaction), "ApplicableHeaderTradeSettlement");
+  if (!settlement || !references.length) return;
+
+  const settlementNodes = contentOf(settlement);
+  const known = new Set(
+    findAll(settlementNodes, "InvoiceReferencedDocument").map((doc) => textOf(find(contentOf(doc), "IssuerAssignedID")))
+  );
+  for (const ref of references) {
+    if (known.has(ref.number)) continue;
+    const content = [element(`${ram}IssuerAssignedID`, ref.number)];
+    if (ref.date) {
+      const qdt = prefixFor(root, CII_NS.qdt, "qdt");
+      content.push(
+        element(`${ram}FormattedIssueDateTime`, [
+          element(`${qdt}DateTimeString`, ref.date.replace(/-/g, ""), { "@_format": "102" }),
+        ])
+      );
+    }
+    insert(settlementNodes, element(`${ram}InvoiceReferencedDocument`, content), [
+      "ReceivableSpecifiedTradeAccountingAccount",
+      "SpecifiedAdvancePayment",
+    ]);
+  }
+}
+
+// ── Public helpers ──
+
+/**
+ * Sets the type code and preceding invoice references of generated UBL or
+ * CII XML from the Invoice JSON it was generated from. A UBL document with
+ * type 381 becomes a CreditNote.
+ */
+export function applyDocumentType(root: OrderedNode, format: XmlFormat, invoice: Invoice): void {
+  const type = invoice.document_type_code ?? DEFAULT_DOCUMENT_TYPE;
+  const references = precedingInvoicesOf(invoice);
+  if (format === "cii") {
+    applyCii(root, type, references);
+  } else {
+    applyUbl(root, type, references);
+  }
+}
+
+/**
+ * Fills document_type_code and additional_data.preceding_invoices of an
+ * Invoice JSON converted from XML when the API left them out.
+ */
+export function readDocumentType(result: Record<string, unknown>, model: SemanticInvoice): Record<string, unknown> {
+  const completed = { ...result };
+  const type = model.typeCode?.value;
+  if (completed.document_type_code === undefined && isDocumentTypeCode(type)) {
+    completed.document_type_code = type;
+  }
+
+  const references = model.precedingInvoices
+    .filter((ref) => ref.number.value)
+    .map((ref) => ({
+      number: ref.number.value as string,
+      ...(ref.issueDate.value ? { date: ref.issueDate.value } : {}),
+    }));
+  const data = (completed.additional_data ?? {}) as Record<string, unknown>;
+  if (references.length && data.preceding_invoices === undefined) {
+    completed.additional_data = { ...data, preceding_invoices: references };
+  }
+  return completed;
+}
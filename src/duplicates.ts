@@ -0,0 +1,148 @@
+import type { DuplicateMatch, Invoice, LedgerDocument, LedgerEntry, LedgerFormat } from "./schemas.js";
+
+// ── Duplicate detection ──
+//
+// Suppliers send the same invoice more than once: as PDF and again as
+// XRechnung, or resent by email. An invoice read from a new document is
+// compared with the ledger. The same seller VAT ID, invoice number, invoice
+// date and amount due is an exact duplicate. The same seller with a matching
+// invoice number is a likely one when the date is the same, or when the
+// amount is the same and the dates are at most DATE_WINDOW_DAYS apart.
+// Numbers match when they differ only in formatting or in characters OCR
+// tends to confuse. Consecutive numbers (…-041, …-042) never match.
+
+const AMOUNT_TOLERANCE = 0.01;
+/** Largest gap between invoice dates still reported, e.g. a resend with a new date; larger gaps never match */
+const DATE_WINDOW_DAYS = 3;
+const MAX_MATCHES = 5;
+const SAME_VAT_ID = "same seller VAT ID";
+
+/** Legal form words dropped from seller names before comparing them */
+const LEGAL_FORMS = new Set([
+  "AG", "BV", "CO", "CORP", "EK", "GMBH", "INC", "KG", "KGAA", "LLC", "LTD", "LIMITED",
+  "NV", "OHG", "PLC", "SA", "SAS", "SARL", "SE", "SPA", "SRL", "UG",
+]);
+
+/** Characters OCR confuses, mapped to the digit they are mistaken for */
+const OCR_DIGITS: Record<string, string> = { O: "0", D: "0", I: "1", L: "1", Z: "2", S: "5", B: "8" };
+
+/** Documents are files or XML/PDF content; Invoice JSON passed inline is not */
+export function isDocument(source: { format: LedgerFormat; file_path?: string }): boolean {
+  return source.format !== "json" || source.file_path !== undefined;
+}
+
+/** Documents of an entry, oldest first; entries recorded before documents were kept fall back to their source */
+export function entryDocuments(entry: LedgerEntry): LedgerDocument[] {
+  if (entry.documents) return entry.documents;
+  return isDocument(entry.source) ? [{ ...entry.source, recorded_at: entry.recorded_at }] : [];
+}
+
+function vatKey(vatId: string | undefined): string | undefined {
+  return vatId?.replace(/[^A-Za-z0-9]/g, "").toUpperCase() || undefined;
+}
+
+function nameKey(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/[.'’]/g, "")
+    .split(/[^A-Z0-9]+/)
+    .filter((word) => word && !LEGAL_FORMS.has(word))
+    .join(" ");
+}
+
+/** Invoice number without separators, case and leading zeros: "RE 2025/007" = "re-2025-7" */
+function numberKey(number: string): string {
+  return number
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .map((part) => part.replace(/^0+(?=\d)/, ""))
+    .join("");
+}
+
+function ocrKey(number: string): string {
+  return numberKey(number.toUpperCase().replace(/[ODILZSB]/g, (char) => OCR_DIGITS[char]));
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+function sellerReason(a: Invoice, b: Invoice): string | undefined {
+  const vatA = vatKey(a.seller.vat_identifier);
+  const vatB = vatKey(b.seller.vat_identifier);
+  if (vatA && vatB) return vatA === vatB ? SAME_VAT_ID : undefined;
+  const name = nameKey(a.seller.name);
+  return name && name === nameKey(b.seller.name) ? "same seller name" : undefined;
+}
+
+function numberReason(a: string, b: string): string | undefined {
+  if (a.trim() === b.trim()) return "same invoice number";
+  if (numberKey(a) === numberKey(b)) return `invoice number differs only in formatting (${a} / ${b})`;
+  if (ocrKey(a) === ocrKey(b)) return `invoice number differs only in characters OCR confuses (${a} / ${b})`;
+  return undefined;
+}
+
+/** Compares two invoices; undefined when they are not duplicates */
+function compare(invoice: Invoice, earlier: Invoice): Pick<DuplicateMatch, "match" | "reasons"> | undefined {
+  const seller = sellerReason(invoice, earlier);
+  const number = numberReason(invoice.invoice_number, earlier.invoice_number);
+  if (!seller || !number) return undefined;
+
+  const sameAmount =
+    invoice.invoice_currency_code === earlier.invoice_currency_code &&
+    Math.abs(invoice.totals.amount_due_for_payment - earlier.totals.amount_due_for_payment) <= AMOUNT_TOLERANCE;
+  const days = daysBetween(invoice.invoice_date, earlier.invoice_date);
+  // An unreadable date proves nothing about how far apart the invoices are
+  if (!Number.isFinite(days)) return undefined;
+  // Numbers restart yearly at some suppliers, so a recurring amount far apart is another invoice
+  if (days > DATE_WINDOW_DAYS || (days !== 0 && !sameAmount)) return undefined;
+  const reasons = [seller, number, days === 0 ? "same invoice date" : `invoice dates ${days} day(s) apart`];
+  if (sameAmount) reasons.push("same amount due");
+
+  const exact =
+    seller === SAME_VAT_ID &&
+    numberKey(invoice.invoice_number) === numberKey(earlier.invoice_number) &&
+    days === 0 &&
+    sameAmount;
+  return { match: exact ? "exact" : "likely", reasons };
+}
+
+/**
+ * Ledger entries that `invoice`, read from the document hashed `sha256`,
+ * likely duplicates, each with the earliest document it was read from.
+ * Exact matches come first.
+ */
+export function findDuplicates(invoice: Invoice, sha256: string, entries: Iterable<LedgerEntry>): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  for (const entry of entries) {
+    const documents = entryDocuments(entry);
+    // Reading a known document again is not a duplicate, nor is an invoice never read from one
+    if (!documents.length || documents.some((doc) => doc.sha256 === sha256)) continue;
+    const result = compare(invoice, entry.invoice);
+    if (!result) continue;
+    matches.push({
+      ...result,
+      ledger_id: entry.id,
+      invoice_number: entry.invoice.invoice_number,
+      invoice_date: entry.invoice.invoice_date,
+      seller: entry.invoice.seller.name,
+      amount_due_for_payment: entry.invoice.totals.amount_due_for_payment,
+      document: documents[0],
+    });
+  }
+  return matches
+    .sort((a, b) => Number(b.match === "exact") - Number(a.match === "exact") || b.reasons.length - a.reasons.length)
+    .slice(0, MAX_MATCHES);
+}
+
+export function formatDuplicate(match: DuplicateMatch): string {
+  const { document } = match;
+  const source = document.file_path ?? `inline ${document.format.toUpperCase()}`;
+  return (
+    `${match.match === "exact" ? "Duplicate" : "Likely duplicate"} of ${match.invoice_number} ` +
+    `(${match.invoice_date}, ${match.seller}, ${match.amount_due_for_payment.toFixed(2)} due), first read from ` +
+    `${source} by ${document.tool} on ${document.recorded_at.slice(0, 10)}: ${match.reasons.join(", ")}`
+  );
+}
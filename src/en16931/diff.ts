@@ -0,0 +1,70 @@
+import type { Located, SemanticInvoice } from "./model.js";
+
+// ── Semantic comparison ──
+//
+// Walks two semantic models of the same invoice side by side and reports
+// every business term the first one carries that the second one lacks or
+// holds with a different value. Terms a source format does not carry at
+// all (undefined rather than Located) are not compared.
+
+export interface SemanticDifference {
+  /** Property path in the semantic model, e.g. "seller.electronicAddress" or "lines[0].vatRate" */
+  term: string;
+  /** Where the value was read in the first model */
+  location: string;
+  value: string | number | boolean;
+  /** The second model's value, undefined when the term is missing there */
+  other?: string | number | boolean;
+}
+
+type Value = string | number | boolean;
+
+function isLocated(node: unknown): node is Located<Value> {
+  return typeof node === "object" && node !== null && "location" in node && "value" in node;
+}
+
+function sameValue(a: Value, b: Value): boolean {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) < 0.005;
+  if (typeof a === "string" && typeof b === "string") return a.trim() === b.trim();
+  return a === b;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Compares `a` with `b`. An undefined `b` is a term the second format does
+ * not carry; null stands for an entry missing from the second model, whose
+ * terms are all reported.
+ */
+function walk(a: unknown, b: unknown, path: string, differences: SemanticDifference[]): void {
+  if (b === undefined) return;
+  if (isLocated(a)) {
+    if (a.value === undefined) return;
+    const other = isLocated(b) ? b.value : undefined;
+    if (other === undefined || !sameValue(a.value, other)) {
+      differences.push({ term: path, location: a.location, value: a.value, other });
+    }
+    return;
+  }
+  if (Array.isArray(a)) {
+    const others: unknown[] = Array.isArray(b) ? b : [];
+    a.forEach((entry, i) => walk(entry, others[i] ?? null, join(path, i), differences));
+    return;
+  }
+  if (typeof a === "object" && a !== null) {
+    const other = typeof b === "object" && b !== null ? (b as Record<string, unknown>) : null;
+    for (const [key, value] of Object.entries(a)) {
+      walk(value, other ? other[key] : null, join(path, key), differences);
+    }
+  }
+}
+
+/** Business terms `a` carries that `b` lacks or holds with a different value */
+export function diffSemantic(a: SemanticInvoice, b: SemanticInvoice): SemanticDifference[] {
+  const differences: SemanticDifference[] = [];
+  walk(a, b, "", differences);
+  return differences;
+}
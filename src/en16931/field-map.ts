@@ -0,0 +1,274 @@
+// ── XPath → InvoiceSchema field mapping ──
+//
+// Maps the location of a validation finding back to the Invoice JSON field
+// it was generated from, so an agent can fix the JSON and regenerate the
+// XML. Accepts the canonical XPaths produced by the local engine
+// ("/Invoice/cac:InvoiceLine[2]/cbc:ID") as well as the namespace-qualified
+// form reported by Schematron ("/*:Invoice[namespace-uri()='…'][1]/*:InvoiceLine[…][2]").
+
+interface Segment {
+  name: string;
+  /** 1-based position, 1 when not given */
+  index: number;
+}
+
+/**
+ * Patterns are local-name paths below the root element. "[]" marks the
+ * repeated element whose index is substituted for "$" in the field path,
+ * "A|B" matches either name.
+ */
+type FieldPattern = [pattern: string, field: string];
+
+function partyPatterns(ubl: boolean, base: string, party: string): FieldPattern[] {
+  if (ubl) {
+    const p = `${base}/Party`;
+    return [
+      [`${p}/PartyLegalEntity/RegistrationName`, `${party}.name`],
+      [`${p}/PartyName/Name`, `${party}.trading_name`],
+      [`${p}/EndpointID/@schemeID`, `${party}.electronic_address.scheme_id`],
+      [`${p}/EndpointID`, `${party}.electronic_address.value`],
+      [`${p}/PartyLegalEntity/CompanyID/@schemeID`, `${party}.legal_registration_id.scheme_id`],
+      [`${p}/PartyLegalEntity/CompanyID`, `${party}.legal_registration_id.id`],
+      [`${p}/PostalAddress/StreetName`, `${party}.postal_address.address_line_1`],
+      [`${p}/PostalAddress/AdditionalStreetName`, `${party}.postal_address.address_line_2`],
+      [`${p}/PostalAddress/AddressLine/Line`, `${party}.postal_address.address_line_3`],
+      [`${p}/PostalAddress/CityName`, `${party}.postal_address.city`],
+      [`${p}/PostalAddress/PostalZone`, `${party}.postal_address.post_code`],
+      [`${p}/PostalAddress/CountrySubentity`, `${party}.postal_address.country_subdivision`],
+      [`${p}/PostalAddress/Country/IdentificationCode`, `${party}.postal_address.country_code`],
+      [`${p}/PostalAddress`, `${party}.postal_address`],
+      [`${p}/PartyTaxScheme/CompanyID`, `${party}.vat_identifier`],
+      [`${p}/Contact/Name`, `${party}.contact.name`],
+      [`${p}/Contact/Telephone`, `${party}.contact.telephone_number`],
+      [`${p}/Contact/ElectronicMail`, `${party}.contact.email_address`],
+      [`${p}/Contact`, `${party}.contact`],
+      [p, party],
+    ];
+  }
+  return [
+    [`${base}/Name`, `${party}.name`],
+    [`${base}/PostalTradeAddress/LineOne`, `${party}.postal_address.address_line_1`],
+    [`${base}/PostalTradeAddress/LineTwo`, `${party}.postal_address.address_line_2`],
+    [`${base}/PostalTradeAddress/LineThree`, `${party}.postal_address.address_line_3`],
+    [`${base}/PostalTradeAddress/CityName`, `${party}.postal_address.city`],
+    [`${base}/PostalTradeAddress/PostcodeCode`, `${party}.postal_address.post_code`],
+    [`${base}/PostalTradeAddress/CountrySubDivisionName`, `${party}.postal_address.country_subdivision`],
+    [`${base}/PostalTradeAddress/CountryID`, `${party}.postal_address.country_code`],
+    [`${base}/PostalTradeAddress`, `${party}.postal_address`],
+    [`${base}/SpecifiedTaxRegistration/ID`, `${party}.vat_identifier`],
+    [`${base}/SpecifiedLegalOrganization/ID/@schemeID`, `${party}.legal_registration_id.scheme_id`],
+    [`${base}/SpecifiedLegalOrganization/ID`, `${party}.legal_registration_id.id`],
+    [`${base}/SpecifiedLegalOrganization/TradingBusinessName`, `${party}.trading_name`],
+    [`${base}/URIUniversalCommunication/URIID/@schemeID`, `${party}.electronic_address.scheme_id`],
+    [`${base}/URIUniversalCommunication/URIID`, `${party}.electronic_address.value`],
+    [`${base}/DefinedTradeContact/PersonName`, `${party}.contact.name`],
+    [`${base}/DefinedTradeContact/TelephoneUniversalCommunication/CompleteNumber`, `${party}.contact.telephone_number`],
+    [`${base}/DefinedTradeContact/EmailURIUniversalCommunication/URIID`, `${party}.contact.email_address`],
+    [`${base}/DefinedTradeContact`, `${party}.contact`],
+    [base, party],
+  ];
+}
+
+const UBL_LINE = "InvoiceLine|CreditNoteLine[]";
+
+const UBL_PATTERNS: FieldPattern[] = [
+  ["CustomizationID", "profile"],
+  ["ProfileID", "profile"],
+  ["ID", "invoice_number"],
+  ["IssueDate", "invoice_date"],
+  ["InvoiceTypeCode|CreditNoteTypeCode", "document_type_code"],
+  ["DocumentCurrencyCode", "invoice_currency_code"],
+  ["Note", "invoice_note"],
+  ["DueDate", "payment_information.payment_due_date"],
+  ["PaymentMeans/PaymentDueDate", "payment_information.payment_due_date"],
+  ["PaymentMeans/PaymentID", "payment_information.payment_reference"],
+  ["PaymentMeans/PayeeFinancialAccount/ID", "payment_information.payment_account_number"],
+  ["PaymentMeans", "payment_information"],
+  ["PaymentTerms/Note", "payment_information.payment_terms"],
+  ["InvoicePeriod/StartDate", "additional_data.invoicing_period.start"],
+  ["InvoicePeriod/EndDate", "additional_data.invoicing_period.end"],
+  ["OrderReference/ID", "additional_data.order_id"],
+  ["DespatchDocumentReference/ID", "additional_data.delivery_id"],
+  ["ProjectReference/ID", "additional_data.project"],
+  ["BillingReference[]/InvoiceDocumentReference/ID", "additional_data.preceding_invoices[$].number"],
+  ["BillingReference[]/InvoiceDocumentReference/IssueDate", "additional_data.preceding_invoices[$].date"],
+  ["BillingReference[]", "additional_data.preceding_invoices[$]"],
+  ["AdditionalDocumentReference[]/ID", "attachments[$].id"],
+  ["AdditionalDocumentReference[]/DocumentDescription", "attachments[$].description"],
+  ["AdditionalDocumentReference[]/Attachment/ExternalReference/URI", "attachments[$].uri"],
+  ["AdditionalDocumentReference[]/Attachment/EmbeddedDocumentBinaryObject/@mimeCode", "attachments[$].mime_type"],
+  ["AdditionalDocumentReference[]/Attachment/EmbeddedDocumentBinaryObject/@filename", "attachments[$].filename"],
+  ["AdditionalDocumentReference[]/Attachment/EmbeddedDocumentBinaryObject", "attachments[$].content"],
+  ["AdditionalDocumentReference[]", "attachments[$]"],
+  ["BuyerReference", "additional_data.leitweg_id"],
+  ["Delivery/ActualDeliveryDate", "delivery_information.delivery_date"],
+  ["Delivery/DeliveryParty/PartyName/Name", "delivery_information.deliver_to"],
+  ["Delivery/DeliveryLocation/Address", "delivery_information.deliver_to_address"],
+  ...partyPatterns(true, "AccountingSupplierParty", "seller"),
+  ...partyPatterns(true, "AccountingCustomerParty", "buyer"),
+  [`${UBL_LINE}/ID`, "items[$].item_identifier"],
+  [`${UBL_LINE}/InvoicedQuantity|CreditedQuantity/@unitCode`, "items[$].item_quantity_unit_of_measure_code"],
+  [`${UBL_LINE}/InvoicedQuantity|CreditedQuantity`, "items[$].item_quantity"],
+  [`${UBL_LINE}/LineExtensionAmount`, "items[$].item_total_amount_without_vat"],
+  [`${UBL_LINE}/Item/Name`, "items[$].item_information"],
+  [`${UBL_LINE}/Item/Description`, "items[$].item_information"],
+  [`${UBL_LINE}/Item/ClassifiedTaxCategory/ID`, "items[$].price_details.vat_category_code"],
+  [`${UBL_LINE}/Item/ClassifiedTaxCategory/Percent`, "items[$].price_details.item_vat_percentage"],
+  [`${UBL_LINE}/Price/PriceAmount`, "items[$].price_details.item_price_without_vat"],
+  [`${UBL_LINE}/Price/AllowanceCharge/Amount`, "items[$].price_details.item_price_discount"],
+  [`${UBL_LINE}/Price`, "items[$].price_details"],
+  [UBL_LINE, "items[$]"],
+  ["TaxTotal/TaxAmount", "totals.total_vat_amount"],
+  ["TaxTotal/TaxSubtotal[]/TaxableAmount", "vat_breakdown[$].taxable_amount"],
+  ["TaxTotal/TaxSubtotal[]/TaxAmount", "vat_breakdown[$].vat_amount"],
+  ["TaxTotal/TaxSubtotal[]/TaxCategory/ID", "vat_breakdown[$].vat_category_code"],
+  ["TaxTotal/TaxSubtotal[]/TaxCategory/Percent", "vat_breakdown[$].vat_percentage"],
+  ["TaxTotal/TaxSubtotal[]/TaxCategory/TaxExemptionReason", "vat_breakdown[$].exemption_reason"],
+  ["TaxTotal/TaxSubtotal[]/TaxCategory/TaxExemptionReasonCode", "vat_breakdown[$].exemption_reason_code"],
+  ["TaxTotal/TaxSubtotal[]", "vat_breakdown[$]"],
+  ["LegalMonetaryTotal/LineExtensionAmount", "totals.total_amount_without_vat"],
+  ["LegalMonetaryTotal/AllowanceTotalAmount", "totals.sum_of_allowances"],
+  ["LegalMonetaryTotal/ChargeTotalAmount", "totals.sum_of_charges"],
+  ["LegalMonetaryTotal/TaxExclusiveAmount", "totals.invoice_total_without_vat"],
+  ["LegalMonetaryTotal/TaxInclusiveAmount", "totals.total_amount_with_vat"],
+  ["LegalMonetaryTotal/PrepaidAmount", "totals.paid_amount"],
+  ["LegalMonetaryTotal/PayableRoundingAmount", "totals.rounding_amount"],
+  ["LegalMonetaryTotal/PayableAmount", "totals.amount_due_for_payment"],
+  ["LegalMonetaryTotal", "totals"],
+];
+
+const CII_TX = "SupplyChainTradeTransaction";
+const CII_LINE = `${CII_TX}/IncludedSupplyChainTradeLineItem[]`;
+const CII_AGREEMENT = `${CII_TX}/ApplicableHeaderTradeAgreement`;
+const CII_SETTLEMENT = `${CII_TX}/ApplicableHeaderTradeSettlement`;
+const CII_SUMS = `${CII_SETTLEMENT}/SpecifiedTradeSettlementHeaderMonetarySummation`;
+
+const CII_PATTERNS: FieldPattern[] = [
+  ["ExchangedDocumentContext/GuidelineSpecifiedDocumentContextParameter/ID", "profile"],
+  ["ExchangedDocumentContext/BusinessProcessSpecifiedDocumentContextParameter/ID", "profile"],
+  ["ExchangedDocument/ID", "invoice_number"],
+  ["ExchangedDocument/IssueDateTime/DateTimeString", "invoice_date"],
+  ["ExchangedDocument/IssueDateTime", "invoice_date"],
+  ["ExchangedDocument/TypeCode", "document_type_code"],
+  ["ExchangedDocument/IncludedNote/Content", "invoice_note"],
+  [`${CII_AGREEMENT}/BuyerReference`, "additional_data.leitweg_id"],
+  [`${CII_AGREEMENT}/BuyerOrderReferencedDocument/IssuerAssignedID`, "additional_data.order_id"],
+  [`${CII_AGREEMENT}/SpecifiedProcuringProject/ID`, "additional_data.project"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]/IssuerAssignedID`, "attachments[$].id"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]/Name`, "attachments[$].description"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]/URIID`, "attachments[$].uri"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]/AttachmentBinaryObject/@mimeCode`, "attachments[$].mime_type"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]/AttachmentBinaryObject/@filename`, "attachments[$].filename"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]/AttachmentBinaryObject`, "attachments[$].content"],
+  [`${CII_AGREEMENT}/AdditionalReferencedDocument[]`, "attachments[$]"],
+  ...partyPatterns(false, `${CII_AGREEMENT}/SellerTradeParty`, "seller"),
+  ...partyPatterns(false, `${CII_AGREEMENT}/BuyerTradeParty`, "buyer"),
+  [`${CII_TX}/ApplicableHeaderTradeDelivery/ActualDeliverySupplyChainEvent/OccurrenceDateTime/DateTimeString`, "delivery_information.delivery_date"],
+  [`${CII_TX}/ApplicableHeaderTradeDelivery/ShipToTradeParty/Name`, "delivery_information.deliver_to"],
+  [`${CII_TX}/ApplicableHeaderTradeDelivery/ShipToTradeParty/PostalTradeAddress`, "delivery_information.deliver_to_address"],
+  [`${CII_TX}/ApplicableHeaderTradeDelivery/DespatchAdviceReferencedDocument/IssuerAssignedID`, "additional_data.delivery_id"],
+  [`${CII_SETTLEMENT}/InvoiceCurrencyCode`, "invoice_currency_code"],
+  [`${CII_SETTLEMENT}/PaymentReference`, "payment_information.payment_reference"],
+  [`${CII_SETTLEMENT}/SpecifiedTradeSettlementPaymentMeans/PayeePartyCreditorFinancialAccount/IBANID`, "payment_information.payment_account_number"],
+  [`${CII_SETTLEMENT}/SpecifiedTradeSettlementPaymentMeans`, "payment_information"],
+  [`${CII_SETTLEMENT}/SpecifiedTradePaymentTerms/DueDateDateTime/DateTimeString`, "payment_information.payment_due_date"],
+  [`${CII_SETTLEMENT}/SpecifiedTradePaymentTerms/DueDateDateTime`, "payment_information.payment_due_date"],
+  [`${CII_SETTLEMENT}/SpecifiedTradePaymentTerms/Description`, "payment_information.payment_terms"],
+  [`${CII_SETTLEMENT}/BillingSpecifiedPeriod/StartDateTime/DateTimeString`, "additional_data.invoicing_period.start"],
+  [`${CII_SETTLEMENT}/BillingSpecifiedPeriod/EndDateTime/DateTimeString`, "additional_data.invoicing_period.end"],
+  [`${CII_SETTLEMENT}/InvoiceReferencedDocument[]/IssuerAssignedID`, "additional_data.preceding_invoices[$].number"],
+  [`${CII_SETTLEMENT}/InvoiceReferencedDocument[]/FormattedIssueDateTime/DateTimeString`, "additional_data.preceding_invoices[$].date"],
+  [`${CII_SETTLEMENT}/InvoiceReferencedDocument[]/FormattedIssueDateTime`, "additional_data.preceding_invoices[$].date"],
+  [`${CII_SETTLEMENT}/InvoiceReferencedDocument[]`, "additional_data.preceding_invoices[$]"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]/BasisAmount`, "vat_breakdown[$].taxable_amount"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]/CalculatedAmount`, "vat_breakdown[$].vat_amount"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]/CategoryCode`, "vat_breakdown[$].vat_category_code"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]/RateApplicablePercent`, "vat_breakdown[$].vat_percentage"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]/ExemptionReason`, "vat_breakdown[$].exemption_reason"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]/ExemptionReasonCode`, "vat_breakdown[$].exemption_reason_code"],
+  [`${CII_SETTLEMENT}/ApplicableTradeTax[]`, "vat_breakdown[$]"],
+  [`${CII_SUMS}/LineTotalAmount`, "totals.total_amount_without_vat"],
+  [`${CII_SUMS}/AllowanceTotalAmount`, "totals.sum_of_allowances"],
+  [`${CII_SUMS}/ChargeTotalAmount`, "totals.sum_of_charges"],
+  [`${CII_SUMS}/TaxBasisTotalAmount`, "totals.invoice_total_without_vat"],
+  [`${CII_SUMS}/TaxTotalAmount`, "totals.total_vat_amount"],
+  [`${CII_SUMS}/GrandTotalAmount`, "totals.total_amount_with_vat"],
+  [`${CII_SUMS}/TotalPrepaidAmount`, "totals.paid_amount"],
+  [`${CII_SUMS}/RoundingAmount`, "totals.rounding_amount"],
+  [`${CII_SUMS}/DuePayableAmount`, "totals.amount_due_for_payment"],
+  [CII_SUMS, "totals"],
+  [`${CII_LINE}/AssociatedDocumentLineDocument/LineID`, "items[$].item_identifier"],
+  [`${CII_LINE}/SpecifiedTradeProduct/Name`, "items[$].item_information"],
+  [`${CII_LINE}/SpecifiedTradeProduct/Description`, "items[$].item_information"],
+  [`${CII_LINE}/SpecifiedLineTradeAgreement/NetPriceProductTradePrice/ChargeAmount`, "items[$].price_details.item_price_without_vat"],
+  [`${CII_LINE}/SpecifiedLineTradeAgreement`, "items[$].price_details"],
+  [`${CII_LINE}/SpecifiedLineTradeDelivery/BilledQuantity/@unitCode`, "items[$].item_quantity_unit_of_measure_code"],
+  [`${CII_LINE}/SpecifiedLineTradeDelivery/BilledQuantity`, "items[$].item_quantity"],
+  [`${CII_LINE}/SpecifiedLineTradeSettlement/ApplicableTradeTax/CategoryCode`, "items[$].price_details.vat_category_code"],
+  [`${CII_LINE}/SpecifiedLineTradeSettlement/ApplicableTradeTax/RateApplicablePercent`, "items[$].price_details.item_vat_percentage"],
+  [`${CII_LINE}/SpecifiedLineTradeSettlement/SpecifiedTradeSettlementLineMonetarySummation/LineTotalAmount`, "items[$].item_total_amount_without_vat"],
+  [CII_LINE, "items[$]"],
+];
+
+const ROOT_PATTERNS: Record<string, FieldPattern[]> = {
+  Invoice: UBL_PATTERNS,
+  CreditNote: UBL_PATTERNS,
+  CrossIndustryInvoice: CII_PATTERNS,
+};
+
+/** Splits an XPath into local names with their positions */
+function parseXPath(xpath: string): Segment[] {
+  const segments: Segment[] = [];
+  // Drop namespace-uri() predicates and Clark-notation namespaces before splitting on "/"
+  const cleaned = xpath
+    .replace(/\[namespace-uri\(\)\s*=\s*'[^']*'\]/g, "")
+    .replace(/Q\{[^}]*\}/g, "");
+  for (const raw of cleaned.split("/")) {
+    if (!raw) continue;
+    const match = /^(@?)(?:[\w*.-]+:)?([\w.-]+)((?:\[\d+\])*)$/.exec(raw.trim());
+    if (!match) return [];
+    const indexes = match[3].match(/\d+/g);
+    segments.push({
+      name: match[1] + match[2],
+      index: indexes ? Number(indexes[indexes.length - 1]) : 1,
+    });
+  }
+  return segments;
+}
+
+function matchPattern(pattern: string, field: string, segments: Segment[]): string | undefined {
+  const parts = pattern.split("/");
+  if (parts.length > segments.length) return undefined;
+
+  let index: number | undefined;
+  for (let i = 0; i < parts.length; i++) {
+    const repeated = parts[i].endsWith("[]");
+    const names = (repeated ? parts[i].slice(0, -2) : parts[i]).split("|");
+    if (!names.includes(segments[i].name)) return undefined;
+    if (repeated) index = segments[i].index - 1;
+  }
+  return index === undefined ? field : field.replace("$", String(index));
+}
+
+/**
+ * Maps an XPath from a validation finding to the matching InvoiceSchema
+ * field path, e.g. "/Invoice/cac:InvoiceLine[2]/cac:Price/cbc:PriceAmount"
+ * → "items[1].price_details.item_price_without_vat". Returns the closest
+ * enclosing field when no exact match exists, or undefined.
+ */
+export function xpathToInvoiceField(xpath: string): string | undefined {
+  const [root, ...rest] = parseXPath(xpath);
+  const patterns = root ? ROOT_PATTERNS[root.name] : undefined;
+  if (!patterns) return undefined;
+
+  // Try the full path first, then walk up to the nearest mapped ancestor
+  for (let length = rest.length; length > 0; length--) {
+    const segments = rest.slice(0, length);
+    for (const [pattern, field] of patterns) {
+      if (pattern.split("/").length !== segments.length) continue;
+      const mapped = matchPattern(pattern, field, segments);
+      if (mapped) return mapped;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,829 @@
+import type { AllowanceCharge, Invoice, LineAllowanceCharge } from "../schemas.js";
+import { DEFAULT_VAT_EXEMPTIONS } from "../code-lists.js";
+import {
+  type XmlDocument,
+  type XmlNode,
+  attr,
+  child,
+  children,
+  numberAt,
+  text,
+  textAt,
+} from "../xml.js";
+
+// ── Semantic invoice model (EN 16931 business terms) ──
+//
+// UBL, CII and Invoice JSON are mapped onto this common shape so the rules
+// in rules.ts are written once. Every value carries the location it was
+// read from: an XPath for XML sources, a field path for JSON.
+
+export interface Located<T> {
+  value: T | undefined;
+  location: string;
+}
+
+export interface SemanticParty {
+  /** BT-27 / BT-44 */
+  name: Located<string>;
+  /** BG-5 / BG-8 */
+  address: Located<true>;
+  /** BT-37 / BT-52 */
+  city: Located<string>;
+  /** BT-38 / BT-53 */
+  postCode: Located<string>;
+  /** BT-40 / BT-55 */
+  country: Located<string>;
+  /** BT-31 / BT-48 */
+  vatId: Located<string>;
+  /** BT-28 / BT-45 */
+  tradingName: Located<string>;
+  /** BT-34 / BT-49 */
+  electronicAddress: Located<string>;
+  /** BT-34-1 / BT-49-1 */
+  electronicAddressScheme: Located<string>;
+  /** BT-30 / BT-47 */
+  legalId: Located<string>;
+  /** BT-30-1 / BT-47-1 */
+  legalIdScheme: Located<string>;
+  /** BT-32 */
+  taxRegistrationId: Located<string>;
+  /** BT-41 / BT-56 */
+  contactName: Located<string>;
+  /** BT-42 / BT-57 */
+  contactPhone: Located<string>;
+  /** BT-43 / BT-58 */
+  contactEmail: Located<string>;
+}
+
+export interface SemanticLine {
+  location: string;
+  /** BT-126 */
+  id: Located<string>;
+  /** BT-129 */
+  quantity: Located<number>;
+  /** BT-130 */
+  unitCode: Located<string>;
+  /** BT-131 */
+  netAmount: Located<number>;
+  /** BT-146 */
+  netPrice: Located<number>;
+  /** BT-153 */
+  itemName: Located<string>;
+  /** BT-151 */
+  vatCategory: Located<string>;
+  /** BT-152 */
+  vatRate: Located<number>;
+  /** BG-27 */
+  allowances: SemanticAllowanceCharge[];
+  /** BG-28 */
+  charges: SemanticAllowanceCharge[];
+}
+
+/** Document-level (BG-20 / BG-21) or line-level (BG-27 / BG-28) allowance or charge */
+export interface SemanticAllowanceCharge {
+  location: string;
+  /** BT-92 / BT-99, BT-136 / BT-141 */
+  amount: Located<number>;
+  /** BT-93 / BT-100, BT-137 / BT-142 */
+  baseAmount: Located<number>;
+  /** BT-94 / BT-101, BT-138 / BT-143 */
+  percentage: Located<number>;
+  /** BT-97 / BT-104, BT-139 / BT-144 */
+  reason: Located<string>;
+  /** BT-98 / BT-105, BT-140 / BT-145 */
+  reasonCode: Located<string>;
+  /** BT-95 / BT-102. Line-level entries have none. */
+  vatCategory: Located<string>;
+  /** BT-96 / BT-103 */
+  vatRate: Located<number>;
+}
+
+export interface SemanticVatBreakdown {
+  location: string;
+  /** BT-116 */
+  taxableAmount: Located<number>;
+  /** BT-117 */
+  taxAmount: Located<number>;
+  /** BT-118 */
+  category: Located<string>;
+  /** BT-119 */
+  rate: Located<number>;
+  /** BT-120 */
+  exemptionReason: Located<string>;
+  /** BT-121 */
+  exemptionReasonCode: Located<string>;
+}
+
+/** Preceding invoice reference (BG-3) */
+export interface SemanticPrecedingInvoice {
+  location: string;
+  /** BT-25 */
+  number: Located<string>;
+  /** BT-26 */
+  issueDate: Located<string>;
+}
+
+/** Additional supporting document (BG-24) */
+export interface SemanticAttachment {
+  location: string;
+  /** BT-122 */
+  id: Located<string>;
+  /** BT-123 */
+  description: Located<string>;
+  /** BT-124 */
+  uri: Located<string>;
+  /** BT-125, base64 */
+  content: Located<string>;
+  /** BT-125-1 */
+  mimeCode: Located<string>;
+  /** BT-125-2 */
+  filename: Located<string>;
+}
+
+export interface SemanticInvoice {
+  source: "ubl" | "cii" | "json";
+  /** BT-24. Undefined when the source format does not carry it. */
+  specificationId?: Located<string>;
+  /** BT-23. Undefined when the source format does not carry it. */
+  businessProcess?: Located<string>;
+  /** BT-1 */
+  number: Located<string>;
+  /** BT-2 */
+  issueDate: Located<string>;
+  /** BT-3. Undefined when the source format does not carry it. */
+  typeCode?: Located<string>;
+  /** BT-5 */
+  currency: Located<string>;
+  /** BT-9 */
+  paymentDueDate: Located<string>;
+  /** BT-10 */
+  buyerReference: Located<string>;
+  /** BT-20 */
+  paymentTerms: Located<string>;
+  precedingInvoices: SemanticPrecedingInvoice[];
+  attachments: SemanticAttachment[];
+  seller: SemanticParty;
+  buyer: SemanticParty;
+  linesLocation: string;
+  lines: SemanticLine[];
+  allowances: SemanticAllowanceCharge[];
+  charges: SemanticAllowanceCharge[];
+  vatBreakdownLocation: string;
+  vatBreakdown: SemanticVatBreakdown[];
+  totals: {
+    /** BT-106 */
+    lineNetSum: Located<number>;
+    /** BT-107 */
+    allowanceSum: Located<number>;
+    /** BT-108 */
+    chargeSum: Located<number>;
+    /** BT-109 */
+    taxExclusive: Located<number>;
+    /** BT-110 */
+    vatTotal: Located<number>;
+    /** BT-112 */
+    taxInclusive: Located<number>;
+    /** BT-113 */
+    prepaid: Located<number>;
+    /** BT-114 */
+    rounding: Located<number>;
+    /** BT-115 */
+    payable: Located<number>;
+  };
+}
+
+function at<T>(value: T | undefined, location: string): Located<T> {
+  return { value, location };
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+// ── UBL ──
+
+function ublParty(party: XmlNode | undefined, base: string): SemanticParty {
+  const vatScheme = children(party, "PartyTaxScheme").findIndex(
+    (scheme) => textAt(scheme, "TaxScheme", "ID") === "VAT"
+  );
+  const vatNode = vatScheme >= 0 ? children(party, "PartyTaxScheme")[vatScheme] : undefined;
+  const taxScheme = children(party, "PartyTaxScheme").findIndex(
+    (scheme) => textAt(scheme, "TaxScheme", "ID") !== "VAT"
+  );
+  const taxNode = taxScheme >= 0 ? children(party, "PartyTaxScheme")[taxScheme] : undefined;
+  const endpoint = child(party, "EndpointID");
+  const legalId = child(party, "PartyLegalEntity", "CompanyID");
+  return {
+    name: at(
+      textAt(party, "PartyLegalEntity", "RegistrationName"),
+      `${base}/cac:PartyLegalEntity/cbc:RegistrationName`
+    ),
+    address: at(child(party, "PostalAddress") ? true : undefined, `${base}/cac:PostalAddress`),
+    city: at(textAt(party, "PostalAddress", "CityName"), `${base}/cac:PostalAddress/cbc:CityName`),
+    postCode: at(textAt(party, "PostalAddress", "PostalZone"), `${base}/cac:PostalAddress/cbc:PostalZone`),
+    country: at(
+      textAt(party, "PostalAddress", "Country", "IdentificationCode"),
+      `${base}/cac:PostalAddress/cac:Country/cbc:IdentificationCode`
+    ),
+    vatId: at(
+      textAt(vatNode, "CompanyID"),
+      `${base}/cac:PartyTaxScheme[${vatScheme >= 0 ? vatScheme + 1 : 1}]/cbc:CompanyID`
+    ),
+    tradingName: at(textAt(party, "PartyName", "Name"), `${base}/cac:PartyName/cbc:Name`),
+    electronicAddress: at(text(endpoint), `${base}/cbc:EndpointID`),
+    electronicAddressScheme: at(attr(endpoint, "schemeID"), `${base}/cbc:EndpointID/@schemeID`),
+    legalId: at(text(legalId), `${base}/cac:PartyLegalEntity/cbc:CompanyID`),
+    legalIdScheme: at(attr(legalId, "schemeID"), `${base}/cac:PartyLegalEntity/cbc:CompanyID/@schemeID`),
+    taxRegistrationId: at(
+      textAt(taxNode, "CompanyID"),
+      `${base}/cac:PartyTaxScheme[${taxScheme >= 0 ? taxScheme + 1 : 1}]/cbc:CompanyID`
+    ),
+    contactName: at(textAt(party, "Contact", "Name"), `${base}/cac:Contact/cbc:Name`),
+    contactPhone: at(textAt(party, "Contact", "Telephone"), `${base}/cac:Contact/cbc:Telephone`),
+    contactEmail: at(textAt(party, "Contact", "ElectronicMail"), `${base}/cac:Contact/cbc:ElectronicMail`),
+  };
+}
+
+function ublAllowanceCharges(
+  root: XmlNode | undefined,
+  rootPath: string,
+  isCharge: boolean
+): SemanticAllowanceCharge[] {
+  const result: SemanticAllowanceCharge[] = [];
+  children(root, "AllowanceCharge").forEach((node, i) => {
+    if ((textAt(node, "ChargeIndicator") === "true") !== isCharge) return;
+    const location = `${rootPath}/cac:AllowanceCharge[${i + 1}]`;
+    result.push({
+      location,
+      amount: at(numberAt(node, "Amount"), `${location}/cbc:Amount`),
+      baseAmount: at(numberAt(node, "BaseAmount"), `${location}/cbc:BaseAmount`),
+      percentage: at(numberAt(node, "MultiplierFactorNumeric"), `${location}/cbc:MultiplierFactorNumeric`),
+      reason: at(textAt(node, "AllowanceChargeReason"), `${location}/cbc:AllowanceChargeReason`),
+      reasonCode: at(textAt(node, "AllowanceChargeReasonCode"), `${location}/cbc:AllowanceChargeReasonCode`),
+      vatCategory: at(textAt(node, "TaxCategory", "ID"), `${location}/cac:TaxCategory/cbc:ID`),
+      vatRate: at(numberAt(node, "TaxCategory", "Percent"), `${location}/cac:TaxCategory/cbc:Percent`),
+    });
+  });
+  return result;
+}
+
+export function fromUbl(doc: XmlDocument): SemanticInvoice {
+  const { root, rootName } = doc;
+  const isCreditNote = rootName === "CreditNote";
+  const r = `/${rootName}`;
+  const lineName = isCreditNote ? "CreditNoteLine" : "InvoiceLine";
+  const quantityName = isCreditNote ? "CreditedQuantity" : "InvoicedQuantity";
+  const currency = textAt(root, "DocumentCurrencyCode");
+
+  // There may be a second TaxTotal in the tax currency; BT-110 is the one in document currency
+  const taxTotals = children(root, "TaxTotal");
+  let taxTotalIndex = taxTotals.findIndex((t) => attr(child(t, "TaxAmount"), "currencyID") === currency);
+  if (taxTotalIndex < 0) taxTotalIndex = 0;
+  const taxTotal = taxTotals[taxTotalIndex];
+  const taxTotalPath = `${r}/cac:TaxTotal[${taxTotalIndex + 1}]`;
+
+  const lmt = child(root, "LegalMonetaryTotal");
+  const lmtPath = `${r}/cac:LegalMonetaryTotal`;
+
+  const dueDate = isCreditNote
+    ? at(textAt(root, "PaymentMeans", "PaymentDueDate"), `${r}/cac:PaymentMeans/cbc:PaymentDueDate`)
+    : at(textAt(root, "DueDate"), `${r}/cbc:DueDate`);
+
+  return {
+    source: "ubl",
+    specificationId: at(textAt(root, "CustomizationID"), `${r}/cbc:CustomizationID`),
+    businessProcess: at(textAt(root, "ProfileID"), `${r}/cbc:ProfileID`),
+    number: at(textAt(root, "ID"), `${r}/cbc:ID`),
+    issueDate: at(textAt(root, "IssueDate"), `${r}/cbc:IssueDate`),
+    typeCode: isCreditNote
+      ? at(textAt(root, "CreditNoteTypeCode"), `${r}/cbc:CreditNoteTypeCode`)
+      : at(textAt(root, "InvoiceTypeCode"), `${r}/cbc:InvoiceTypeCode`),
+    currency: at(currency, `${r}/cbc:DocumentCurrencyCode`),
+    paymentDueDate: dueDate,
+    buyerReference: at(textAt(root, "BuyerReference"), `${r}/cbc:BuyerReference`),
+    paymentTerms: at(textAt(root, "PaymentTerms", "Note"), `${r}/cac:PaymentTerms/cbc:Note`),
+    precedingInvoices: children(root, "BillingReference").map((ref, i) => {
+      const b = `${r}/cac:BillingReference[${i + 1}]/cac:InvoiceDocumentReference`;
+      return {
+        location: b,
+        number: at(textAt(ref, "InvoiceDocumentReference", "ID"), `${b}/cbc:ID`),
+        issueDate: at(textAt(ref, "InvoiceDocumentReference", "IssueDate"), `${b}/cbc:IssueDate`),
+      };
+    }),
+    // DocumentTypeCode 130 marks the invoiced object identifier (BT-18), not a supporting document
+    attachments: children(root, "AdditionalDocumentReference")
+      .map((ref, i) => ({ ref, a: `${r}/cac:AdditionalDocumentReference[${i + 1}]` }))
+      .filter(({ ref }) => textAt(ref, "DocumentTypeCode") !== "130")
+      .map(({ ref, a }) => {
+        const binary = child(ref, "Attachment", "EmbeddedDocumentBinaryObject");
+        const b = `${a}/cac:Attachment/cbc:EmbeddedDocumentBinaryObject`;
+        return {
+          location: a,
+          id: at(textAt(ref, "ID"), `${a}/cbc:ID`),
+          description: at(textAt(ref, "DocumentDescription"), `${a}/cbc:DocumentDescription`),
+          uri: at(
+            textAt(ref, "Attachment", "ExternalReference", "URI"),
+            `${a}/cac:Attachment/cac:ExternalReference/cbc:URI`
+          ),
+          content: at(text(binary), b),
+          mimeCode: at(attr(binary, "mimeCode"), `${b}/@mimeCode`),
+          filename: at(attr(binary, "filename"), `${b}/@filename`),
+        };
+      }),
+    seller: ublParty(
+      child(root, "AccountingSupplierParty", "Party"),
+      `${r}/cac:AccountingSupplierParty/cac:Party`
+    ),
+    buyer: ublParty(
+      child(root, "AccountingCustomerParty", "Party"),
+      `${r}/cac:AccountingCustomerParty/cac:Party`
+    ),
+    linesLocation: `${r}/cac:${lineName}`,
+    lines: children(root, lineName).map((line, i) => {
+      const l = `${r}/cac:${lineName}[${i + 1}]`;
+      return {
+        location: l,
+        id: at(textAt(line, "ID"), `${l}/cbc:ID`),
+        quantity: at(numberAt(line, quantityName), `${l}/cbc:${quantityName}`),
+        unitCode: at(attr(child(line, quantityName), "unitCode"), `${l}/cbc:${quantityName}/@unitCode`),
+        netAmount: at(numberAt(line, "LineExtensionAmount"), `${l}/cbc:LineExtensionAmount`),
+        netPrice: at(numberAt(line, "Price", "PriceAmount"), `${l}/cac:Price/cbc:PriceAmount`),
+        itemName: at(textAt(line, "Item", "Name"), `${l}/cac:Item/cbc:Name`),
+        vatCategory: at(
+          textAt(line, "Item", "ClassifiedTaxCategory", "ID"),
+          `${l}/cac:Item/cac:ClassifiedTaxCategory/cbc:ID`
+        ),
+        vatRate: at(
+          numberAt(line, "Item", "ClassifiedTaxCategory", "Percent"),
+          `${l}/cac:Item/cac:ClassifiedTaxCategory/cbc:Percent`
+        ),
+        allowances: ublAllowanceCharges(line, l, false),
+        charges: ublAllowanceCharges(line, l, true),
+      };
+    }),
+    allowances: ublAllowanceCharges(root, r, false),
+    charges: ublAllowanceCharges(root, r, true),
+    vatBreakdownLocation: `${taxTotalPath}/cac:TaxSubtotal`,
+    vatBreakdown: children(taxTotal, "TaxSubtotal").map((sub, i) => {
+      const s = `${taxTotalPath}/cac:TaxSubtotal[${i + 1}]`;
+      return {
+        location: s,
+        taxableAmount: at(numberAt(sub, "TaxableAmount"), `${s}/cbc:TaxableAmount`),
+        taxAmount: at(numberAt(sub, "TaxAmount"), `${s}/cbc:TaxAmount`),
+        category: at(textAt(sub, "TaxCategory", "ID"), `${s}/cac:TaxCategory/cbc:ID`),
+        rate: at(numberAt(sub, "TaxCategory", "Percent"), `${s}/cac:TaxCategory/cbc:Percent`),
+        exemptionReason: at(
+          textAt(sub, "TaxCategory", "TaxExemptionReason"),
+          `${s}/cac:TaxCategory/cbc:TaxExemptionReason`
+        ),
+        exemptionReasonCode: at(
+          textAt(sub, "TaxCategory", "TaxExemptionReasonCode"),
+          `${s}/cac:TaxCategory/cbc:TaxExemptionReasonCode`
+        ),
+      };
+    }),
+    totals: {
+      lineNetSum: at(numberAt(lmt, "LineExtensionAmount"), `${lmtPath}/cbc:LineExtensionAmount`),
+      allowanceSum: at(numberAt(lmt, "AllowanceTotalAmount"), `${lmtPath}/cbc:AllowanceTotalAmount`),
+      chargeSum: at(numberAt(lmt, "ChargeTotalAmount"), `${lmtPath}/cbc:ChargeTotalAmount`),
+      taxExclusive: at(numberAt(lmt, "TaxExclusiveAmount"), `${lmtPath}/cbc:TaxExclusiveAmount`),
+      vatTotal: at(numberAt(taxTotal, "TaxAmount"), `${taxTotalPath}/cbc:TaxAmount`),
+      taxInclusive: at(numberAt(lmt, "TaxInclusiveAmount"), `${lmtPath}/cbc:TaxInclusiveAmount`),
+      prepaid: at(numberAt(lmt, "PrepaidAmount"), `${lmtPath}/cbc:PrepaidAmount`),
+      rounding: at(numberAt(lmt, "PayableRoundingAmount"), `${lmtPath}/cbc:PayableRoundingAmount`),
+      payable: at(numberAt(lmt, "PayableAmount"), `${lmtPath}/cbc:PayableAmount`),
+    },
+  };
+}
+
+// ── CII ──
+
+/** Converts a CII date (format 102, YYYYMMDD) to YYYY-MM-DD */
+function ciiDate(node: XmlNode | undefined): string | undefined {
+  const value = textAt(node, "DateTimeString");
+  if (value && /^\d{8}$/.test(value)) {
+    return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  }
+  return value;
+}
+
+function ciiParty(party: XmlNode | undefined, base: string): SemanticParty {
+  const registrations = children(party, "SpecifiedTaxRegistration");
+  const vatIndex = registrations.findIndex((reg) => attr(child(reg, "ID"), "schemeID") === "VA");
+  const taxIndex = registrations.findIndex((reg) => attr(child(reg, "ID"), "schemeID") === "FC");
+  const uri = child(party, "URIUniversalCommunication", "URIID");
+  const legalId = child(party, "SpecifiedLegalOrganization", "ID");
+  return {
+    name: at(textAt(party, "Name"), `${base}/ram:Name`),
+    address: at(child(party, "PostalTradeAddress") ? true : undefined, `${base}/ram:PostalTradeAddress`),
+    city: at(textAt(party, "PostalTradeAddress", "CityName"), `${base}/ram:PostalTradeAddress/ram:CityName`),
+    postCode: at(
+      textAt(party, "PostalTradeAddress", "PostcodeCode"),
+      `${base}/ram:PostalTradeAddress/ram:PostcodeCode`
+    ),
+    country: at(
+      textAt(party, "PostalTradeAddress", "CountryID"),
+      `${base}/ram:PostalTradeAddress/ram:CountryID`
+    ),
+    vatId: at(
+      vatIndex >= 0 ? textAt(registrations[vatIndex], "ID") : undefined,
+      `${base}/ram:SpecifiedTaxRegistration[${vatIndex >= 0 ? vatIndex + 1 : 1}]/ram:ID`
+    ),
+    tradingName: at(
+      textAt(party, "SpecifiedLegalOrganization", "TradingBusinessName"),
+      `${base}/ram:SpecifiedLegalOrganization/ram:TradingBusinessName`
+    ),
+    electronicAddress: at(text(uri), `${base}/ram:URIUniversalCommunication/ram:URIID`),
+    electronicAddressScheme: at(attr(uri, "schemeID"), `${base}/ram:URIUniversalCommunication/ram:URIID/@schemeID`),
+    legalId: at(text(legalId), `${base}/ram:SpecifiedLegalOrganization/ram:ID`),
+    legalIdScheme: at(attr(legalId, "schemeID"), `${base}/ram:SpecifiedLegalOrganization/ram:ID/@schemeID`),
+    taxRegistrationId: at(
+      taxIndex >= 0 ? textAt(registrations[taxIndex], "ID") : undefined,
+      `${base}/ram:SpecifiedTaxRegistration[${taxIndex >= 0 ? taxIndex + 1 : 1}]/ram:ID`
+    ),
+    contactName: at(
+      textAt(party, "DefinedTradeContact", "PersonName"),
+      `${base}/ram:DefinedTradeContact/ram:PersonName`
+    ),
+    contactPhone: at(
+      textAt(party, "DefinedTradeContact", "TelephoneUniversalCommunication", "CompleteNumber"),
+      `${base}/ram:DefinedTradeContact/ram:TelephoneUniversalCommunication/ram:CompleteNumber`
+    ),
+    contactEmail: at(
+      textAt(party, "DefinedTradeContact", "EmailURIUniversalCommunication", "URIID"),
+      `${base}/ram:DefinedTradeContact/ram:EmailURIUniversalCommunication/ram:URIID`
+    ),
+  };
+}
+
+function ciiAllowanceCharges(
+  settlement: XmlNode | undefined,
+  base: string,
+  isCharge: boolean
+): SemanticAllowanceCharge[] {
+  const result: SemanticAllowanceCharge[] = [];
+  children(settlement, "SpecifiedTradeAllowanceCharge").forEach((node, i) => {
+    if ((textAt(node, "ChargeIndicator", "Indicator") === "true") !== isCharge) return;
+    const location = `${base}/ram:SpecifiedTradeAllowanceCharge[${i + 1}]`;
+    result.push({
+      location,
+      amount: at(numberAt(node, "ActualAmount"), `${location}/ram:ActualAmount`),
+      baseAmount: at(numberAt(node, "BasisAmount"), `${location}/ram:BasisAmount`),
+      percentage: at(numberAt(node, "CalculationPercent"), `${location}/ram:CalculationPercent`),
+      reason: at(textAt(node, "Reason"), `${location}/ram:Reason`),
+      reasonCode: at(textAt(node, "ReasonCode"), `${location}/ram:ReasonCode`),
+      vatCategory: at(
+        textAt(node, "CategoryTradeTax", "CategoryCode"),
+        `${location}/ram:CategoryTradeTax/ram:CategoryCode`
+      ),
+      vatRate: at(
+        numberAt(node, "CategoryTradeTax", "RateApplicablePercent"),
+        `${location}/ram:CategoryTradeTax/ram:RateApplicablePercent`
+      ),
+    });
+  });
+  return result;
+}
+
+export function fromCii(doc: XmlDocument): SemanticInvoice {
+  const { root } = doc;
+  const r = "/rsm:CrossIndustryInvoice";
+  const ed = child(root, "ExchangedDocument");
+  const tx = child(root, "SupplyChainTradeTransaction");
+  const txPath = `${r}/rsm:SupplyChainTradeTransaction`;
+  const agreement = child(tx, "ApplicableHeaderTradeAgreement");
+  const agreementPath = `${txPath}/ram:ApplicableHeaderTradeAgreement`;
+  const settlement = child(tx, "ApplicableHeaderTradeSettlement");
+  const settlementPath = `${txPath}/ram:ApplicableHeaderTradeSettlement`;
+  const sums = child(settlement, "SpecifiedTradeSettlementHeaderMonetarySummation");
+  const sumsPath = `${settlementPath}/ram:SpecifiedTradeSettlementHeaderMonetarySummation`;
+  const currency = textAt(settlement, "InvoiceCurrencyCode");
+
+  const taxTotals = children(sums, "TaxTotalAmount");
+  let taxTotalIndex = taxTotals.findIndex((t) => attr(t, "currencyID") === currency);
+  if (taxTotalIndex < 0) taxTotalIndex = 0;
+
+  return {
+    source: "cii",
+    specificationId: at(
+      textAt(root, "ExchangedDocumentContext", "GuidelineSpecifiedDocumentContextParameter", "ID"),
+      `${r}/rsm:ExchangedDocumentContext/ram:GuidelineSpecifiedDocumentContextParameter/ram:ID`
+    ),
+    businessProcess: at(
+      textAt(root, "ExchangedDocumentContext", "BusinessProcessSpecifiedDocumentContextParameter", "ID"),
+      `${r}/rsm:ExchangedDocumentContext/ram:BusinessProcessSpecifiedDocumentContextParameter/ram:ID`
+    ),
+    number: at(textAt(ed, "ID"), `${r}/rsm:ExchangedDocument/ram:ID`),
+    issueDate: at(
+      ciiDate(child(ed, "IssueDateTime")),
+      `${r}/rsm:ExchangedDocument/ram:IssueDateTime/udt:DateTimeString`
+    ),
+    typeCode: at(textAt(ed, "TypeCode"), `${r}/rsm:ExchangedDocument/ram:TypeCode`),
+    currency: at(currency, `${settlementPath}/ram:InvoiceCurrencyCode`),
+    paymentDueDate: at(
+      ciiDate(child(settlement, "SpecifiedTradePaymentTerms", "DueDateDateTime")),
+      `${settlementPath}/ram:SpecifiedTradePaymentTerms/ram:DueDateDateTime/udt:DateTimeString`
+    ),
+    buyerReference: at(textAt(agreement, "BuyerReference"), `${agreementPath}/ram:BuyerReference`),
+    paymentTerms: at(
+      textAt(settlement, "SpecifiedTradePaymentTerms", "Description"),
+      `${settlementPath}/ram:SpecifiedTradePaymentTerms/ram:Description`
+    ),
+    precedingInvoices: children(settlement, "InvoiceReferencedDocument").map((ref, i) => {
+      const d = `${settlementPath}/ram:InvoiceReferencedDocument[${i + 1}]`;
+      return {
+        location: d,
+        number: at(textAt(ref, "IssuerAssignedID"), `${d}/ram:IssuerAssignedID`),
+        issueDate: at(
+          ciiDate(child(ref, "FormattedIssueDateTime")),
+          `${d}/ram:FormattedIssueDateTime/qdt:DateTimeString`
+        ),
+      };
+    }),
+    // TypeCode 916 marks a supporting document; 50 and 130 are tender and object references
+    attachments: children(agreement, "AdditionalReferencedDocument")
+      .map((ref, i) => ({ ref, d: `${agreementPath}/ram:AdditionalReferencedDocument[${i + 1}]` }))
+      .filter(({ ref }) => textAt(ref, "TypeCode") === "916")
+      .map(({ ref, d }) => {
+        const binary = child(ref, "AttachmentBinaryObject");
+        return {
+          location: d,
+          id: at(textAt(ref, "IssuerAssignedID"), `${d}/ram:IssuerAssignedID`),
+          description: at(textAt(ref, "Name"), `${d}/ram:Name`),
+          uri: at(textAt(ref, "URIID"), `${d}/ram:URIID`),
+          content: at(text(binary), `${d}/ram:AttachmentBinaryObject`),
+          mimeCode: at(attr(binary, "mimeCode"), `${d}/ram:AttachmentBinaryObject/@mimeCode`),
+          filename: at(attr(binary, "filename"), `${d}/ram:AttachmentBinaryObject/@filename`),
+        };
+      }),
+    seller: ciiParty(child(agreement, "SellerTradeParty"), `${agreementPath}/ram:SellerTradeParty`),
+    buyer: ciiParty(child(agreement, "BuyerTradeParty"), `${agreementPath}/ram:BuyerTradeParty`),
+    linesLocation: `${txPath}/ram:IncludedSupplyChainTradeLineItem`,
+    lines: children(tx, "IncludedSupplyChainTradeLineItem").map((line, i) => {
+      const l = `${txPath}/ram:IncludedSupplyChainTradeLineItem[${i + 1}]`;
+      const lineSettlement = child(line, "SpecifiedLineTradeSettlement");
+      const ls = `${l}/ram:SpecifiedLineTradeSettlement`;
+      const quantity = child(line, "SpecifiedLineTradeDelivery", "BilledQuantity");
+      return {
+        location: l,
+        id: at(
+          textAt(line, "AssociatedDocumentLineDocument", "LineID"),
+          `${l}/ram:AssociatedDocumentLineDocument/ram:LineID`
+        ),
+        quantity: at(toNumber(text(quantity)), `${l}/ram:SpecifiedLineTradeDelivery/ram:BilledQuantity`),
+        unitCode: at(
+          attr(quantity, "unitCode"),
+          `${l}/ram:SpecifiedLineTradeDelivery/ram:BilledQuantity/@unitCode`
+        ),
+        netAmount: at(
+          numberAt(lineSettlement, "SpecifiedTradeSettlementLineMonetarySummation", "LineTotalAmount"),
+          `${ls}/ram:SpecifiedTradeSettlementLineMonetarySummation/ram:LineTotalAmount`
+        ),
+        netPrice: at(
+          numberAt(line, "SpecifiedLineTradeAgreement", "NetPriceProductTradePrice", "ChargeAmount"),
+          `${l}/ram:SpecifiedLineTradeAgreement/ram:NetPriceProductTradePrice/ram:ChargeAmount`
+        ),
+        itemName: at(textAt(line, "SpecifiedTradeProduct", "Name"), `${l}/ram:SpecifiedTradeProduct/ram:Name`),
+        vatCategory: at(
+          textAt(lineSettlement, "ApplicableTradeTax", "CategoryCode"),
+          `${ls}/ram:ApplicableTradeTax/ram:CategoryCode`
+        ),
+        vatRate: at(
+          numberAt(lineSettlement, "ApplicableTradeTax", "RateApplicablePercent"),
+          `${ls}/ram:ApplicableTradeTax/ram:RateApplicablePercent`
+        ),
+        allowances: ciiAllowanceCharges(lineSettlement, ls, false),
+        charges: ciiAllowanceCharges(lineSettlement, ls, true),
+      };
+    }),
+    allowances: ciiAllowanceCharges(settlement, settlementPath, false),
+    charges: ciiAllowanceCharges(settlement, settlementPath, true),
+    vatBreakdownLocation: `${settlementPath}/ram:ApplicableTradeTax`,
+    vatBreakdown: children(settlement, "ApplicableTradeTax").map((tax, i) => {
+      const t = `${settlementPath}/ram:ApplicableTradeTax[${i + 1}]`;
+      return {
+        location: t,
+        taxableAmount: at(numberAt(tax, "BasisAmount"), `${t}/ram:BasisAmount`),
+        taxAmount: at(numberAt(tax, "CalculatedAmount"), `${t}/ram:CalculatedAmount`),
+        category: at(textAt(tax, "CategoryCode"), `${t}/ram:CategoryCode`),
+        rate: at(numberAt(tax, "RateApplicablePercent"), `${t}/ram:RateApplicablePercent`),
+        exemptionReason: at(textAt(tax, "ExemptionReason"), `${t}/ram:ExemptionReason`),
+        exemptionReasonCode: at(textAt(tax, "ExemptionReasonCode"), `${t}/ram:ExemptionReasonCode`),
+      };
+    }),
+    totals: {
+      lineNetSum: at(numberAt(sums, "LineTotalAmount"), `${sumsPath}/ram:LineTotalAmount`),
+      allowanceSum: at(numberAt(sums, "AllowanceTotalAmount"), `${sumsPath}/ram:AllowanceTotalAmount`),
+      chargeSum: at(numberAt(sums, "ChargeTotalAmount"), `${sumsPath}/ram:ChargeTotalAmount`),
+      taxExclusive: at(numberAt(sums, "TaxBasisTotalAmount"), `${sumsPath}/ram:TaxBasisTotalAmount`),
+      vatTotal: at(
+        toNumber(text(taxTotals[taxTotalIndex])),
+        `${sumsPath}/ram:TaxTotalAmount[${taxTotalIndex + 1}]`
+      ),
+      taxInclusive: at(numberAt(sums, "GrandTotalAmount"), `${sumsPath}/ram:GrandTotalAmount`),
+      prepaid: at(numberAt(sums, "TotalPrepaidAmount"), `${sumsPath}/ram:TotalPrepaidAmount`),
+      rounding: at(numberAt(sums, "RoundingAmount"), `${sumsPath}/ram:RoundingAmount`),
+      payable: at(numberAt(sums, "DuePayableAmount"), `${sumsPath}/ram:DuePayableAmount`),
+    },
+  };
+}
+
+// ── Invoice JSON ──
+
+function jsonParty(party: Invoice["seller"], base: string): SemanticParty {
+  return {
+    name: at(party.name || undefined, `${base}.name`),
+    address: at(party.postal_address ? true : undefined, `${base}.postal_address`),
+    city: at(party.postal_address?.city || undefined, `${base}.postal_address.city`),
+    postCode: at(party.postal_address?.post_code || undefined, `${base}.postal_address.post_code`),
+    country: at(party.postal_address?.country_code, `${base}.postal_address.country_code`),
+    vatId: at(party.vat_identifier, `${base}.vat_identifier`),
+    tradingName: at(party.trading_name || undefined, `${base}.trading_name`),
+    electronicAddress: at(party.electronic_address?.value || undefined, `${base}.electronic_address.value`),
+    electronicAddressScheme: at(
+      party.electronic_address?.scheme_id || undefined,
+      `${base}.electronic_address.scheme_id`
+    ),
+    legalId: at(party.legal_registration_id?.id || undefined, `${base}.legal_registration_id.id`),
+    legalIdScheme: at(party.legal_registration_id?.scheme_id, `${base}.legal_registration_id.scheme_id`),
+    taxRegistrationId: at(party.tax_registration_id || undefined, `${base}.tax_registration_id`),
+    contactName: at(party.contact?.name || undefined, `${base}.contact.name`),
+    contactPhone: at(party.contact?.telephone_number || undefined, `${base}.contact.telephone_number`),
+    contactEmail: at(party.contact?.email_address || undefined, `${base}.contact.email_address`),
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function jsonAllowanceCharges(
+  entries: Array<LineAllowanceCharge | AllowanceCharge> | undefined,
+  base: string
+): SemanticAllowanceCharge[] {
+  return (entries ?? []).map((entry, i) => {
+    const p = `${base}[${i}]`;
+    return {
+      location: p,
+      amount: at(entry.amount, `${p}.amount`),
+      baseAmount: at(entry.base_amount, `${p}.base_amount`),
+      percentage: at(entry.percentage, `${p}.percentage`),
+      reason: at(entry.reason || undefined, `${p}.reason`),
+      reasonCode: at(entry.reason_code || undefined, `${p}.reason_code`),
+      vatCategory: at("vat_category_code" in entry ? entry.vat_category_code : undefined, `${p}.vat_category_code`),
+      vatRate: at("vat_percentage" in entry ? entry.vat_percentage : undefined, `${p}.vat_percentage`),
+    };
+  });
+}
+
+/** Sum of the amounts of line or document allowances or charges */
+export function sumAmounts(entries: Array<{ amount: number }> | undefined): number {
+  return (entries ?? []).reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+function jsonVatBreakdown(groups: NonNullable<Invoice["vat_breakdown"]>): SemanticVatBreakdown[] {
+  return groups.map((group, i) => {
+    const p = `vat_breakdown[${i}]`;
+    return {
+      location: p,
+      taxableAmount: at(group.taxable_amount, `${p}.taxable_amount`),
+      taxAmount: at(group.vat_amount, `${p}.vat_amount`),
+      category: at(group.vat_category_code, `${p}.vat_category_code`),
+      rate: at(group.vat_percentage, `${p}.vat_percentage`),
+      exemptionReason: at(group.exemption_reason || undefined, `${p}.exemption_reason`),
+      exemptionReasonCode: at(group.exemption_reason_code || undefined, `${p}.exemption_reason_code`),
+    };
+  });
+}
+
+/**
+ * Groups line net amounts and document-level allowances and charges by VAT
+ * category and rate, as the API does when the Invoice JSON has no
+ * vat_breakdown. Categories with a standard exemption (AE, K, G, O) get its
+ * VATEX code and text.
+ */
+function deriveVatBreakdown(
+  lines: SemanticLine[],
+  allowances: SemanticAllowanceCharge[],
+  charges: SemanticAllowanceCharge[]
+): SemanticVatBreakdown[] {
+  const groups = new Map<string, { category: string; rate: number; taxable: number }>();
+  const addToGroup = (entry: { vatCategory: Located<string>; vatRate: Located<number> }, amount: number) => {
+    const key = `${entry.vatCategory.value}|${entry.vatRate.value}`;
+    const group = groups.get(key) ?? {
+      category: entry.vatCategory.value ?? "",
+      rate: entry.vatRate.value ?? 0,
+      taxable: 0,
+    };
+    group.taxable += amount;
+    groups.set(key, group);
+  };
+  for (const line of lines) addToGroup(line, line.netAmount.value ?? 0);
+  for (const charge of charges) addToGroup(charge, charge.amount.value ?? 0);
+  for (const allowance of allowances) addToGroup(allowance, -(allowance.amount.value ?? 0));
+  return [...groups.values()].map((group) => {
+    const exemption = DEFAULT_VAT_EXEMPTIONS[group.category];
+    return {
+      location: "items",
+      taxableAmount: at(round2(group.taxable), "items"),
+      taxAmount: at(round2((group.taxable * group.rate) / 100), "items"),
+      category: at(group.category, "items"),
+      rate: at(group.rate, "items"),
+      exemptionReason: at(exemption?.reason, "vat_breakdown"),
+      exemptionReasonCode: at(exemption?.code, "vat_breakdown"),
+    };
+  });
+}
+
+export function fromInvoiceJson(invoice: Invoice): SemanticInvoice {
+  const lines: SemanticLine[] = invoice.items.map((item, i) => {
+    const l = `items[${i}]`;
+    const price = item.price_details;
+    const netPrice = price.item_price_without_vat - (price.item_price_discount ?? 0);
+    const adjustment = sumAmounts(item.charges) - sumAmounts(item.allowances);
+    return {
+      location: l,
+      id: at(item.item_identifier || undefined, `${l}.item_identifier`),
+      quantity: at(item.item_quantity, `${l}.item_quantity`),
+      unitCode: at(item.item_quantity_unit_of_measure_code || undefined, `${l}.item_quantity_unit_of_measure_code`),
+      netAmount: at(
+        item.item_total_amount_without_vat ?? round2(item.item_quantity * netPrice + adjustment),
+        `${l}.item_total_amount_without_vat`
+      ),
+      netPrice: at(netPrice, `${l}.price_details.item_price_without_vat`),
+      itemName: at(item.item_information || undefined, `${l}.item_information`),
+      vatCategory: at(price.vat_category_code, `${l}.price_details.vat_category_code`),
+      vatRate: at(price.item_vat_percentage, `${l}.price_details.item_vat_percentage`),
+      allowances: jsonAllowanceCharges(item.allowances, `${l}.allowances`),
+      charges: jsonAllowanceCharges(item.charges, `${l}.charges`),
+    };
+  });
+  const allowances = jsonAllowanceCharges(invoice.allowances, "allowances");
+  const charges = jsonAllowanceCharges(invoice.charges, "charges");
+
+  const vatBreakdown = invoice.vat_breakdown
+    ? jsonVatBreakdown(invoice.vat_breakdown)
+    : deriveVatBreakdown(lines, allowances, charges);
+  const { totals } = invoice;
+  const allowanceSum = totals.sum_of_allowances ?? (allowances.length ? round2(sumAmounts(invoice.allowances)) : undefined);
+  const chargeSum = totals.sum_of_charges ?? (charges.length ? round2(sumAmounts(invoice.charges)) : undefined);
+
+  return {
+    source: "json",
+    number: at(invoice.invoice_number || undefined, "invoice_number"),
+    issueDate: at(invoice.invoice_date || undefined, "invoice_date"),
+    typeCode: at(invoice.document_type_code ?? "380", "document_type_code"),
+    currency: at(invoice.invoice_currency_code || undefined, "invoice_currency_code"),
+    paymentDueDate: at(
+      invoice.payment_information.payment_due_date,
+      "payment_information.payment_due_date"
+    ),
+    buyerReference: at(invoice.additional_data?.leitweg_id || undefined, "additional_data.leitweg_id"),
+    paymentTerms: at(invoice.payment_information.payment_terms, "payment_information.payment_terms"),
+    precedingInvoices: (invoice.additional_data?.preceding_invoices ?? []).map((ref, i) => {
+      const p = `additional_data.preceding_invoices[${i}]`;
+      return {
+        location: p,
+        number: at(ref.number || undefined, `${p}.number`),
+        issueDate: at(ref.date, `${p}.date`),
+      };
+    }),
+    attachments: (invoice.attachments ?? []).map((attachment, i) => {
+      const a = `attachments[${i}]`;
+      return {
+        location: a,
+        id: at(attachment.id || undefined, `${a}.id`),
+        description: at(attachment.description, `${a}.description`),
+        uri: at(attachment.uri, `${a}.uri`),
+        content: at(attachment.content, `${a}.content`),
+        mimeCode: at(attachment.mime_type, `${a}.mime_type`),
+        filename: at(attachment.filename, `${a}.filename`),
+      };
+    }),
+    seller: jsonParty(invoice.seller, "seller"),
+    buyer: jsonParty(invoice.buyer, "buyer"),
+    linesLocation: "items",
+    lines,
+    allowances,
+    charges,
+    vatBreakdownLocation: invoice.vat_breakdown ? "vat_breakdown" : "items",
+    vatBreakdown,
+    totals: {
+      lineNetSum: at(totals.total_amount_without_vat, "totals.total_amount_without_vat"),
+      allowanceSum: at(allowanceSum, "totals.sum_of_allowances"),
+      chargeSum: at(chargeSum, "totals.sum_of_charges"),
+      taxExclusive: at(
+        totals.invoice_total_without_vat ??
+          round2(totals.total_amount_without_vat - (allowanceSum ?? 0) + (chargeSum ?? 0)),
+        "totals.invoice_total_without_vat"
+      ),
+      vatTotal: at(totals.total_vat_amount, "totals.total_vat_amount"),
+      taxInclusive: at(totals.total_amount_with_vat, "totals.total_amount_with_vat"),
+      prepaid: at(totals.paid_amount, "totals.paid_amount"),
+      rounding: at(totals.rounding_amount, "totals.rounding_amount"),
+      payable: at(totals.amount_due_for_payment, "totals.amount_due_for_payment"),
+    },
+  };
+}
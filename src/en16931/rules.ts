@@ -0,0 +1,618 @@
+import type { ProfileId } from "../schemas.js";
+import { PROFILES, type Profile } from "../profiles.js";
+import type { Located, SemanticAllowanceCharge, SemanticInvoice, SemanticLine, SemanticParty } from "./model.js";
+
+// ── Offline EN 16931 business rules (subset) ──
+//
+// Covers the core BR-*, BR-CO-* and the S/Z/E/AE/IC/G/O VAT category rules,
+// plus a few XRechnung (BR-DE-*) and Peppol (PEPPOL-EN16931-*) rules.
+// Anything not listed in LOCAL_RULE_IDS is only checked by the API.
+
+export interface RuleViolation {
+  /** EN 16931 rule identifier, e.g. "BR-CO-15" */
+  rule: string;
+  severity: "error" | "warning";
+  /** XPath (XML sources) or field path (Invoice JSON) */
+  location: string;
+  message: string;
+}
+
+interface Rule {
+  id: string;
+  check: (invoice: SemanticInvoice) => Array<{ location: string; message: string }>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function amountsDiffer(a: number, b: number, tolerance: number = 0): boolean {
+  return Math.abs(round2(a) - round2(b)) > tolerance + 1e-9;
+}
+
+function fmt(value: number): string {
+  return round2(value).toFixed(2);
+}
+
+function present<T>(field: Located<T> | undefined): boolean {
+  return field === undefined || (field.value !== undefined && field.value !== "");
+}
+
+/** Rule that fails when a mandatory field is missing */
+function required(
+  id: string,
+  label: string,
+  select: (invoice: SemanticInvoice) => Located<unknown> | undefined
+): Rule {
+  return {
+    id,
+    check: (invoice) => {
+      const field = select(invoice);
+      return present(field) ? [] : [{ location: field!.location, message: `${label} is missing` }];
+    },
+  };
+}
+
+/** Rule applied to every invoice line */
+function perLine(
+  id: string,
+  check: (line: SemanticLine) => { location: string; message: string } | undefined
+): Rule {
+  return {
+    id,
+    check: (invoice) =>
+      invoice.lines.flatMap((line) => {
+        const violation = check(line);
+        return violation ? [violation] : [];
+      }),
+  };
+}
+
+function requiredOnLine(
+  id: string,
+  label: string,
+  select: (line: SemanticLine) => Located<unknown>
+): Rule {
+  return perLine(id, (line) => {
+    const field = select(line);
+    return present(field) ? undefined : { location: field.location, message: `${label} is missing` };
+  });
+}
+
+/** Rule that fails when an electronic address has no scheme identifier (BR-62, BR-63) */
+function addressSchemeRule(id: string, label: string, select: (invoice: SemanticInvoice) => SemanticParty): Rule {
+  return {
+    id,
+    check: (invoice) => {
+      const party = select(invoice);
+      return party.electronicAddress.value && !party.electronicAddressScheme.value
+        ? [{ location: party.electronicAddressScheme.location, message: `${label} has no scheme identifier` }]
+        : [];
+    },
+  };
+}
+
+/**
+ * Amount, VAT category (document level only) and reason rules for
+ * allowances or charges, e.g. BR-31/BR-32/BR-33 for document allowances
+ */
+function allowanceChargeRules(
+  ids: [amount: string, category: string | undefined, reason: string],
+  label: string,
+  select: (invoice: SemanticInvoice) => SemanticAllowanceCharge[]
+): Rule[] {
+  const [amountId, categoryId, reasonId] = ids;
+  const rule = (
+    id: string,
+    check: (entry: SemanticAllowanceCharge) => { location: string; message: string } | undefined
+  ): Rule => ({
+    id,
+    check: (invoice) =>
+      select(invoice).flatMap((entry) => {
+        const violation = check(entry);
+        return violation ? [violation] : [];
+      }),
+  });
+
+  const rules = [
+    rule(amountId, (entry) =>
+      present(entry.amount) ? undefined : { location: entry.amount.location, message: `${label} amount is missing` }
+    ),
+    rule(reasonId, (entry) =>
+      present(entry.reason) || present(entry.reasonCode)
+        ? undefined
+        : { location: entry.reason.location, message: `${label} needs a reason or a reason code` }
+    ),
+  ];
+  if (categoryId) {
+    rules.push(
+      rule(categoryId, (entry) =>
+        present(entry.vatCategory)
+          ? undefined
+          : { location: entry.vatCategory.location, message: `${label} VAT category code is missing` }
+      )
+    );
+  }
+  return rules;
+}
+
+/** BT-107 / BT-108 must equal the sum of the document-level entries */
+function sumRule(
+  id: string,
+  label: string,
+  select: (invoice: SemanticInvoice) => { entries: SemanticAllowanceCharge[]; total: Located<number> }
+): Rule {
+  return {
+    id,
+    check: (invoice) => {
+      const { entries, total } = select(invoice);
+      if (total.value === undefined) return [];
+      const expected = entries.reduce((sum, entry) => sum + (entry.amount.value ?? 0), 0);
+      return amountsDiffer(total.value, expected)
+        ? [{ location: total.location, message: `${label} should be ${fmt(expected)}, got ${fmt(total.value)}` }]
+        : [];
+    },
+  };
+}
+
+/** ISO 3166-1 alpha-2 prefix, with Greece using "EL" */
+const VAT_ID_PREFIX = /^[A-Z]{2}/;
+
+// ── VAT category rules (BR-S, BR-Z, BR-E, BR-AE, BR-IC, BR-G, BR-O) ──
+
+type VatCategory = "S" | "Z" | "E" | "AE" | "K" | "G" | "O";
+
+const CATEGORY_NAMES: Record<VatCategory, string> = {
+  S: "Standard rated",
+  Z: "Zero rated",
+  E: "Exempt from VAT",
+  AE: "Reverse charge",
+  K: "Intra-community supply",
+  G: "Export outside the EU",
+  O: "Not subject to VAT",
+};
+
+/** Rule ID prefixes; intra-community supply rules are BR-IC-* */
+const CATEGORY_PREFIXES: Record<VatCategory, string> = {
+  S: "BR-S",
+  Z: "BR-Z",
+  E: "BR-E",
+  AE: "BR-AE",
+  K: "BR-IC",
+  G: "BR-G",
+  O: "BR-O",
+};
+
+/** Example exemption reasons for the categories that require one */
+const EXEMPTION_EXAMPLES: Partial<Record<VatCategory, string>> = {
+  AE: "'Reverse charge' / VATEX-EU-AE",
+  K: "'Intra-Community supply' / VATEX-EU-IC",
+  G: "'Export outside the EU' / VATEX-EU-G",
+  O: "'Not subject to VAT' / VATEX-EU-O",
+};
+
+function categoryRules(category: VatCategory): Rule[] {
+  const prefix = CATEGORY_PREFIXES[category];
+  const name = CATEGORY_NAMES[category];
+  const linesIn = (invoice: SemanticInvoice) =>
+    invoice.lines.filter((line) => line.vatCategory.value === category);
+  const breakdownsIn = (invoice: SemanticInvoice) =>
+    invoice.vatBreakdown.filter((vat) => vat.category.value === category);
+  const usesCategory = (invoice: SemanticInvoice) =>
+    linesIn(invoice).length > 0 ||
+    invoice.allowances.some((a) => a.vatCategory.value === category) ||
+    invoice.charges.some((c) => c.vatCategory.value === category);
+
+  const rules: Rule[] = [
+    {
+      id: `${prefix}-01`,
+      check: (invoice) =>
+        usesCategory(invoice) && breakdownsIn(invoice).length === 0
+          ? [
+              {
+                location: invoice.vatBreakdownLocation,
+                message: `Category ${category} is used, but the VAT breakdown has no '${name}' (${category}) entry`,
+              },
+            ]
+          : [],
+    },
+    {
+      id: `${prefix}-02`,
+      check: (invoice) => {
+        if (!linesIn(invoice).length) return [];
+        if (category === "O") {
+          return [invoice.seller.vatId, invoice.buyer.vatId]
+            .filter((vatId) => vatId.value)
+            .map((vatId) => ({
+              location: vatId.location,
+              message: "Invoices with category O lines must not contain Seller or Buyer VAT identifiers",
+            }));
+        }
+        const missing = [];
+        if (!invoice.seller.vatId.value) {
+          missing.push({
+            location: invoice.seller.vatId.location,
+            message: `Lines with category ${category} require the Seller VAT identifier (BT-31)`,
+          });
+        }
+        if ((category === "AE" || category === "K") && !invoice.buyer.vatId.value) {
+          missing.push({
+            location: invoice.buyer.vatId.location,
+            message: `Lines with category ${category} require the Buyer VAT identifier (BT-48)`,
+          });
+        }
+        return missing;
+      },
+    },
+    perLine(`${prefix}-05`, (line) => {
+      if (line.vatCategory.value !== category || line.vatRate.value === undefined) return undefined;
+      if (category === "S" && line.vatRate.value <= 0) {
+        return { location: line.vatRate.location, message: "Category S lines must have a VAT rate greater than 0" };
+      }
+      if (category !== "S" && line.vatRate.value !== 0) {
+        return {
+          location: line.vatRate.location,
+          message: `Category ${category} lines must have a VAT rate of 0, got ${line.vatRate.value}`,
+        };
+      }
+      return undefined;
+    }),
+    {
+      // Taxable amount per category (and rate, for S) = line nets + charges − allowances
+      id: `${prefix}-08`,
+      check: (invoice) =>
+        breakdownsIn(invoice).flatMap((vat) => {
+          if (vat.taxableAmount.value === undefined) return [];
+          const matches = (c: Located<string>, r: Located<number>) =>
+            c.value === category && (category !== "S" || r.value === vat.rate.value);
+          const expected =
+            invoice.lines
+              .filter((l) => matches(l.vatCategory, l.vatRate))
+              .reduce((sum, l) => sum + (l.netAmount.value ?? 0), 0) +
+            invoice.charges
+              .filter((c) => matches(c.vatCategory, c.vatRate))
+              .reduce((sum, c) => sum + (c.amount.value ?? 0), 0) -
+            invoice.allowances
+              .filter((a) => matches(a.vatCategory, a.vatRate))
+              .reduce((sum, a) => sum + (a.amount.value ?? 0), 0);
+          return amountsDiffer(vat.taxableAmount.value, expected)
+            ? [
+                {
+                  location: vat.taxableAmount.location,
+                  message:
+                    `Taxable amount for category ${category}` +
+                    (category === "S" ? ` at ${vat.rate.value}%` : "") +
+                    ` should be ${fmt(expected)}, got ${fmt(vat.taxableAmount.value)}`,
+                },
+              ]
+            : [];
+        }),
+    },
+    {
+      id: `${prefix}-09`,
+      check: (invoice) =>
+        breakdownsIn(invoice).flatMap((vat) => {
+          if (vat.taxAmount.value === undefined || vat.taxableAmount.value === undefined) return [];
+          const expected =
+            category === "S" ? round2((vat.taxableAmount.value * (vat.rate.value ?? 0)) / 100) : 0;
+          return amountsDiffer(vat.taxAmount.value, expected, category === "S" ? 0.01 : 0)
+            ? [
+                {
+                  location: vat.taxAmount.location,
+                  message: `VAT amount for category ${category} should be ${fmt(expected)}, got ${fmt(vat.taxAmount.value)}`,
+                },
+              ]
+            : [];
+        }),
+    },
+    {
+      id: `${prefix}-10`,
+      check: (invoice) =>
+        breakdownsIn(invoice).flatMap((vat) => {
+          const hasReason = Boolean(vat.exemptionReason.value || vat.exemptionReasonCode.value);
+          if ((category === "S" || category === "Z") && hasReason) {
+            return [
+              {
+                location: vat.exemptionReason.location,
+                message: `Category ${category} must not have a VAT exemption reason (BT-120/BT-121)`,
+              },
+            ];
+          }
+          if (category !== "S" && category !== "Z" && !hasReason) {
+            const example = EXEMPTION_EXAMPLES[category];
+            return [
+              {
+                location: vat.exemptionReason.location,
+                message:
+                  `Category ${category} requires a VAT exemption reason text or code (BT-120/BT-121)` +
+                  (example ? `, e.g. ${example}` : ""),
+              },
+            ];
+          }
+          return [];
+        }),
+    },
+  ];
+  if (category === "O") {
+    rules.push({
+      id: "BR-O-11",
+      check: (invoice) =>
+        breakdownsIn(invoice).length && invoice.vatBreakdown.length > breakdownsIn(invoice).length
+          ? [
+              {
+                location: invoice.vatBreakdownLocation,
+                message: "An invoice with a category O breakdown must not have breakdown groups of other categories",
+              },
+            ]
+          : [],
+    });
+  }
+  return rules;
+}
+
+// ── Rule catalogue ──
+
+const RULES: Rule[] = [
+  required("BR-01", "Specification identifier (BT-24)", (i) => i.specificationId),
+  required("BR-02", "Invoice number (BT-1)", (i) => i.number),
+  required("BR-03", "Invoice issue date (BT-2)", (i) => i.issueDate),
+  required("BR-04", "Invoice type code (BT-3)", (i) => i.typeCode),
+  required("BR-05", "Invoice currency code (BT-5)", (i) => i.currency),
+  required("BR-06", "Seller name (BT-27)", (i) => i.seller.name),
+  required("BR-07", "Buyer name (BT-44)", (i) => i.buyer.name),
+  required("BR-08", "Seller postal address (BG-5)", (i) => i.seller.address),
+  required("BR-09", "Seller country code (BT-40)", (i) => i.seller.country),
+  required("BR-10", "Buyer postal address (BG-8)", (i) => i.buyer.address),
+  required("BR-11", "Buyer country code (BT-55)", (i) => i.buyer.country),
+  required("BR-12", "Sum of invoice line net amounts (BT-106)", (i) => i.totals.lineNetSum),
+  required("BR-13", "Invoice total amount without VAT (BT-109)", (i) => i.totals.taxExclusive),
+  required("BR-14", "Invoice total amount with VAT (BT-112)", (i) => i.totals.taxInclusive),
+  required("BR-15", "Amount due for payment (BT-115)", (i) => i.totals.payable),
+  {
+    id: "BR-16",
+    check: (invoice) =>
+      invoice.lines.length
+        ? []
+        : [{ location: invoice.linesLocation, message: "An invoice shall have at least one invoice line (BG-25)" }],
+  },
+  requiredOnLine("BR-21", "Invoice line identifier (BT-126)", (l) => l.id),
+  requiredOnLine("BR-22", "Invoiced quantity (BT-129)", (l) => l.quantity),
+  requiredOnLine("BR-23", "Invoiced quantity unit of measure code (BT-130)", (l) => l.unitCode),
+  requiredOnLine("BR-24", "Invoice line net amount (BT-131)", (l) => l.netAmount),
+  requiredOnLine("BR-25", "Item name (BT-153)", (l) => l.itemName),
+  requiredOnLine("BR-26", "Item net price (BT-146)", (l) => l.netPrice),
+  perLine("BR-27", (line) =>
+    line.netPrice.value !== undefined && line.netPrice.value < 0
+      ? { location: line.netPrice.location, message: `Item net price must not be negative, got ${line.netPrice.value}` }
+      : undefined
+  ),
+  ...allowanceChargeRules(["BR-31", "BR-32", "BR-33"], "Document level allowance", (i) => i.allowances),
+  ...allowanceChargeRules(["BR-36", "BR-37", "BR-38"], "Document level charge", (i) => i.charges),
+  ...allowanceChargeRules(["BR-41", undefined, "BR-42"], "Invoice line allowance", (i) =>
+    i.lines.flatMap((line) => line.allowances)
+  ),
+  ...allowanceChargeRules(["BR-43", undefined, "BR-44"], "Invoice line charge", (i) =>
+    i.lines.flatMap((line) => line.charges)
+  ),
+  {
+    id: "BR-52",
+    check: (invoice) =>
+      invoice.attachments
+        .filter((attachment) => !present(attachment.id))
+        .map((attachment) => ({
+          location: attachment.id.location,
+          message: "Supporting document reference (BT-122) is missing",
+        })),
+  },
+  {
+    id: "BR-55",
+    check: (invoice) =>
+      invoice.precedingInvoices
+        .filter((ref) => !present(ref.number))
+        .map((ref) => ({ location: ref.number.location, message: "Preceding invoice reference (BT-25) is missing" })),
+  },
+  addressSchemeRule("BR-62", "Seller electronic address (BT-34)", (i) => i.seller),
+  addressSchemeRule("BR-63", "Buyer electronic address (BT-49)", (i) => i.buyer),
+  {
+    id: "BR-CO-09",
+    check: (invoice) =>
+      [invoice.seller.vatId, invoice.buyer.vatId]
+        .filter((vat) => vat.value && !VAT_ID_PREFIX.test(vat.value))
+        .map((vat) => ({
+          location: vat.location,
+          message: `VAT identifier '${vat.value}' must start with a two-letter country prefix`,
+        })),
+  },
+  {
+    id: "BR-CO-10",
+    check: (invoice) => {
+      const { lineNetSum } = invoice.totals;
+      if (lineNetSum.value === undefined) return [];
+      const expected = invoice.lines.reduce((sum, l) => sum + (l.netAmount.value ?? 0), 0);
+      return amountsDiffer(lineNetSum.value, expected)
+        ? [
+            {
+              location: lineNetSum.location,
+              message: `Sum of line net amounts should be ${fmt(expected)}, got ${fmt(lineNetSum.value)}`,
+            },
+          ]
+        : [];
+    },
+  },
+  sumRule("BR-CO-11", "Sum of allowances (BT-107)", (i) => ({
+    entries: i.allowances,
+    total: i.totals.allowanceSum,
+  })),
+  sumRule("BR-CO-12", "Sum of charges (BT-108)", (i) => ({ entries: i.charges, total: i.totals.chargeSum })),
+  {
+    id: "BR-CO-13",
+    check: (invoice) => {
+      const { lineNetSum, allowanceSum, chargeSum, taxExclusive } = invoice.totals;
+      if (taxExclusive.value === undefined || lineNetSum.value === undefined) return [];
+      const expected = lineNetSum.value - (allowanceSum.value ?? 0) + (chargeSum.value ?? 0);
+      return amountsDiffer(taxExclusive.value, expected)
+        ? [
+            {
+              location: taxExclusive.location,
+              message:
+                `Total without VAT should be ${fmt(expected)} (line total − allowances + charges), ` +
+                `got ${fmt(taxExclusive.value)}`,
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: "BR-CO-14",
+    check: (invoice) => {
+      const { vatTotal } = invoice.totals;
+      if (vatTotal.value === undefined || !invoice.vatBreakdown.length) return [];
+      const expected = invoice.vatBreakdown.reduce((sum, v) => sum + (v.taxAmount.value ?? 0), 0);
+      return amountsDiffer(vatTotal.value, expected)
+        ? [
+            {
+              location: vatTotal.location,
+              message: `Total VAT should be ${fmt(expected)} (sum of VAT breakdown amounts), got ${fmt(vatTotal.value)}`,
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: "BR-CO-15",
+    check: (invoice) => {
+      const { taxExclusive, vatTotal, taxInclusive } = invoice.totals;
+      if (taxInclusive.value === undefined || taxExclusive.value === undefined) return [];
+      const expected = taxExclusive.value + (vatTotal.value ?? 0);
+      return amountsDiffer(taxInclusive.value, expected)
+        ? [
+            {
+              location: taxInclusive.location,
+              message: `Total with VAT should be ${fmt(expected)} (total without VAT + total VAT), got ${fmt(taxInclusive.value)}`,
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: "BR-CO-16",
+    check: (invoice) => {
+      const { taxInclusive, prepaid, rounding, payable } = invoice.totals;
+      if (payable.value === undefined || taxInclusive.value === undefined) return [];
+      const expected = taxInclusive.value - (prepaid.value ?? 0) + (rounding.value ?? 0);
+      return amountsDiffer(payable.value, expected)
+        ? [
+            {
+              location: payable.location,
+              message:
+                `Amount due should be ${fmt(expected)} (total with VAT − paid amount + rounding), ` +
+                `got ${fmt(payable.value)}`,
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: "BR-CO-17",
+    check: (invoice) =>
+      invoice.vatBreakdown.flatMap((vat) => {
+        const { taxableAmount, taxAmount, rate } = vat;
+        if (taxableAmount.value === undefined || taxAmount.value === undefined || rate.value === undefined) {
+          return [];
+        }
+        const expected = round2((taxableAmount.value * rate.value) / 100);
+        return amountsDiffer(taxAmount.value, expected, 0.01)
+          ? [
+              {
+                location: taxAmount.location,
+                message:
+                  `VAT amount should be ${fmt(expected)} (${fmt(taxableAmount.value)} × ${rate.value}%), ` +
+                  `got ${fmt(taxAmount.value)}`,
+              },
+            ]
+          : [];
+      }),
+  },
+  {
+    id: "BR-CO-18",
+    check: (invoice) =>
+      invoice.vatBreakdown.length
+        ? []
+        : [{ location: invoice.vatBreakdownLocation, message: "An invoice shall have at least one VAT breakdown group (BG-23)" }],
+  },
+  {
+    id: "BR-CO-25",
+    check: (invoice) => {
+      const { payable } = invoice.totals;
+      if (!payable.value || payable.value <= 0) return [];
+      return invoice.paymentDueDate.value || invoice.paymentTerms.value
+        ? []
+        : [
+            {
+              location: invoice.paymentDueDate.location,
+              message: "A positive amount due requires a payment due date (BT-9) or payment terms (BT-20)",
+            },
+          ];
+    },
+  },
+  ...categoryRules("S"),
+  ...categoryRules("Z"),
+  ...categoryRules("E"),
+  ...categoryRules("AE"),
+  ...categoryRules("K"),
+  ...categoryRules("G"),
+  ...categoryRules("O"),
+];
+
+// ── Profile rules ──
+
+/** Rule that fails when the document claims another specification identifier than the profile's */
+function specificationRule(id: string, profile: Profile): Rule {
+  return {
+    id,
+    check: (invoice) => {
+      const spec = invoice.specificationId;
+      if (!spec?.value || spec.value === profile.specificationId) return [];
+      return [
+        {
+          location: spec.location,
+          message: `Specification identifier (BT-24) must be '${profile.specificationId}' for ${profile.title}`,
+        },
+      ];
+    },
+  };
+}
+
+const PROFILE_RULES: Partial<Record<ProfileId, Rule[]>> = {
+  xrechnung: [
+    required("BR-DE-3", "Seller city (BT-37)", (i) => i.seller.city),
+    required("BR-DE-4", "Seller post code (BT-38)", (i) => i.seller.postCode),
+    required("BR-DE-5", "Seller contact point (BT-41)", (i) => i.seller.contactName),
+    required("BR-DE-6", "Seller contact telephone number (BT-42)", (i) => i.seller.contactPhone),
+    required("BR-DE-7", "Seller contact email address (BT-43)", (i) => i.seller.contactEmail),
+    required("BR-DE-15", "Buyer reference (BT-10)", (i) => i.buyerReference),
+    specificationRule("BR-DE-21", PROFILES.xrechnung),
+  ],
+  peppol: [
+    required("PEPPOL-EN16931-R001", "Business process (BT-23)", (i) => i.businessProcess),
+    specificationRule("PEPPOL-EN16931-R004", PROFILES.peppol),
+    required("PEPPOL-EN16931-R010", "Buyer electronic address (BT-49)", (i) => i.buyer.electronicAddress),
+    required("PEPPOL-EN16931-R020", "Seller electronic address (BT-34)", (i) => i.seller.electronicAddress),
+  ],
+};
+
+/** Rule IDs evaluated by the local engine */
+export const LOCAL_RULE_IDS: ReadonlySet<string> = new Set(
+  [...RULES, ...Object.values(PROFILE_RULES).flat()].map((rule) => rule.id)
+);
+
+/**
+ * Evaluates the local rule subset, plus the rules of `profile` when given.
+ * Returns an empty array for a conforming invoice.
+ */
+export function evaluateRules(invoice: SemanticInvoice, profile?: ProfileId): RuleViolation[] {
+  const rules = profile ? [...RULES, ...(PROFILE_RULES[profile] ?? [])] : RULES;
+  return rules.flatMap((rule) =>
+    rule.check(invoice).map((violation) => ({ rule: rule.id, severity: "error" as const, ...violation }))
+  );
+}
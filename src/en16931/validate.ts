@@ -0,0 +1,49 @@
+import type { Invoice, ProfileId } from "../schemas.js";
+import { PROFILES } from "../profiles.js";
+import { parseInvoiceXml, type XmlFormat } from "../xml.js";
+import { fromCii, fromInvoiceJson, fromUbl } from "./model.js";
+import { evaluateRules, type RuleViolation } from "./rules.js";
+
+export interface LocalValidationResult {
+  valid: boolean;
+  format: XmlFormat | "json";
+  violations: RuleViolation[];
+}
+
+function toResult(format: LocalValidationResult["format"], violations: RuleViolation[]): LocalValidationResult {
+  return {
+    valid: !violations.some((v) => v.severity === "error"),
+    format,
+    violations,
+  };
+}
+
+/** MINIMUM and BASIC WL documents lack most EN 16931 fields, so the local rules do not apply */
+function assertLocallyCovered(profile: ProfileId | undefined): void {
+  if (profile && !PROFILES[profile].en16931) {
+    throw new Error(`Local validation does not cover ${PROFILES[profile].title}; use mode 'remote'`);
+  }
+}
+
+/**
+ * Validates a UBL or CII document against the local EN 16931 rule subset and
+ * the rules of `profile`. Throws if the XML is malformed or, when `expected`
+ * is given, in the other syntax.
+ */
+export function validateXmlLocally(xml: string, expected?: XmlFormat, profile?: ProfileId): LocalValidationResult {
+  assertLocallyCovered(profile);
+  const doc = parseInvoiceXml(xml);
+  if (expected && doc.format !== expected) {
+    throw new Error(
+      `Expected a ${expected.toUpperCase()} document, but got ${doc.format.toUpperCase()} (${doc.rootName})`
+    );
+  }
+  const invoice = doc.format === "ubl" ? fromUbl(doc) : fromCii(doc);
+  return toResult(doc.format, evaluateRules(invoice, profile));
+}
+
+/** Validates Invoice JSON against the local EN 16931 rule subset and the rules of `profile` */
+export function validateInvoiceLocally(invoice: Invoice, profile?: ProfileId): LocalValidationResult {
+  assertLocallyCovered(profile);
+  return toResult("json", evaluateRules(fromInvoiceJson(invoice), profile));
+}
@@ -0,0 +1,307 @@
+import { createHash } from "node:crypto";
+import { access, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { basename, join, relative } from "node:path";
+import { glob } from "tinyglobby";
+import type { z } from "zod";
+import type { CategorySchema, DirectoryExtractionSchema, DuplicateMatch, ExtractionPartySchema } from "./schemas.js";
+import {
+  getContentType,
+  getErrorStatus,
+  getFileName,
+  handleApiError,
+  postJsonGetJson,
+  readFileAsBuffer,
+} from "./api-client.js";
+import { forEachConcurrent } from "./concurrency.js";
+import { fileStem } from "./batch.js";
+import { recordInvoice } from "./ledger.js";
+
+export interface ExtractionOptions {
+  qr?: boolean;
+  parties?: Array<z.infer<typeof ExtractionPartySchema>>;
+  instructions?: string;
+  categories?: Array<z.infer<typeof CategorySchema>>;
+}
+
+/**
+ * Sends one PDF or image to `/api/v1/file/json` and returns the extracted
+ * invoice, recording it in the ledger under `tool`, with the invoices in
+ * the ledger it likely duplicates.
+ */
+export async function extractInvoiceFile(
+  filePath: string,
+  options: ExtractionOptions,
+  buffer?: Buffer,
+  tool = "invapi_extract_invoice"
+): Promise<{ invoice: Record<string, unknown>; duplicates: DuplicateMatch[] }> {
+  const content = buffer ?? (await readFileAsBuffer(filePath));
+
+  const requestBody: Record<string, unknown> = {
+    file: {
+      content: content.toString("base64"),
+      contentType: getContentType(filePath),
+      fileName: getFileName(filePath),
+    },
+  };
+  if (options.qr) requestBody.qr = true;
+  if (options.parties?.length) requestBody.parties = options.parties;
+  if (options.instructions) requestBody.instructions = options.instructions;
+  if (options.categories?.length) requestBody.categories = options.categories;
+
+  const extracted = await postJsonGetJson<Record<string, unknown>>("/api/v1/file/json", requestBody, {
+    idempotent: false,
+  });
+  const invoice = options.parties?.length ? completeKnownParties(extracted, options.parties) : extracted;
+  const format = getContentType(filePath) === "application/pdf" ? "pdf" : "image";
+  const duplicates = await recordInvoice(invoice, { tool, format, file_path: filePath, content });
+  return { invoice, duplicates };
+}
+
+// ── Known parties ──
+//
+// Identifiers such as the electronic address or the tax number are often
+// not printed on the document. When the extracted seller or buyer matches
+// a known party, its missing identifiers are taken from there.
+
+const IDENTIFIER_FIELDS = [
+  "vat_identifier",
+  "trading_name",
+  "electronic_address",
+  "legal_registration_id",
+  "tax_registration_id",
+] as const;
+
+function normalize(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.replace(/\s+/g, "").toUpperCase() : undefined;
+}
+
+/** Matches on VAT identifier or legal registration ID, then on the formal name */
+function isSameParty(extracted: Record<string, unknown>, known: z.infer<typeof ExtractionPartySchema>): boolean {
+  const vatId = normalize(extracted.vat_identifier);
+  if (vatId && vatId === normalize(known.vat_identifier)) return true;
+  const legalId = normalize((extracted.legal_registration_id as { id?: unknown } | undefined)?.id);
+  if (legalId && legalId === normalize(known.legal_registration_id?.id)) return true;
+  const name = normalize(extracted.name);
+  return name !== undefined && name === normalize(known.name);
+}
+
+/** Fills missing seller and buyer identifiers from the matching known party */
+export function completeKnownParties(
+  invoice: Record<string, unknown>,
+  parties: NonNullable<ExtractionOptions["parties"]>
+): Record<string, unknown> {
+  const completed = { ...invoice };
+  for (const role of ["seller", "buyer"] as const) {
+    const extracted = completed[role];
+    if (typeof extracted !== "object" || extracted === null) continue;
+    const party = { ...(extracted as Record<string, unknown>) };
+    const known = parties.find((candidate) => isSameParty(party, candidate));
+    if (!known) continue;
+    for (const field of IDENTIFIER_FIELDS) {
+      if (party[field] === undefined && known[field] !== undefined) party[field] = known[field];
+    }
+    completed[role] = party;
+  }
+  return completed;
+}
+
+// ── Directory extraction ──
+//
+// Every processed document is recorded in an index keyed by the SHA-256 of
+// its content, so re-running over the same folder only sends new files, even
+// when a file was renamed or moved.
+
+/** Matched case-insensitively, so scans named `.PDF` or `.JPG` are found too */
+export const EXTRACTABLE_PATTERN = "**/*.{pdf,png,jpg,jpeg,gif,bmp,tif,tiff,webp}";
+
+const INDEX_FILE = ".invapi-index.json";
+
+interface IndexEntry {
+  source: string;
+  output_file: string;
+  extracted_at: string;
+}
+
+interface ExtractionIndex {
+  version: 1;
+  files: Record<string, IndexEntry>;
+}
+
+export type DirectoryExtraction = z.infer<typeof DirectoryExtractionSchema>;
+type FileResult = DirectoryExtraction["files"][number];
+
+async function loadIndex(path: string): Promise<Map<string, IndexEntry>> {
+  try {
+    const data = JSON.parse(await readFile(path, "utf-8")) as Partial<ExtractionIndex>;
+    return new Map(data.version === 1 && data.files ? Object.entries(data.files) : []);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return new Map();
+    throw new Error(`Cannot read index ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function saveIndex(path: string, files: Map<string, IndexEntry>): Promise<void> {
+  const index: ExtractionIndex = { version: 1, files: Object.fromEntries(files) };
+  await writeFile(`${path}.tmp`, JSON.stringify(index, null, 2), "utf-8");
+  await rename(`${path}.tmp`, path);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sha256(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function findFiles(directory: string, pattern: string): Promise<string[]> {
+  return glob(pattern, { cwd: directory, absolute: true, onlyFiles: true, caseSensitiveMatch: false });
+}
+
+/**
+ * Output file of each document: its relative path with separators flattened
+ * and the extension kept (`a/scan.pdf` → `a_scan.pdf.json`), so `scan.pdf`
+ * and `scan.png` never share one. Names the index already gives to another
+ * document, or that clash (case-insensitively) with an earlier one in this
+ * run, get a numeric suffix.
+ */
+function outputFiles(sources: string[], index: Map<string, IndexEntry>, outputDir: string): Map<string, string> {
+  const owners = new Map<string, string>();
+  for (const entry of index.values()) owners.set(basename(entry.output_file).toLowerCase(), entry.source);
+  const files = new Map<string, string>();
+  for (const source of sources) {
+    const stem = fileStem(source);
+    let name = `${stem}.json`;
+    for (let n = 2; (owners.get(name.toLowerCase()) ?? source) !== source; n++) name = `${stem}-${n}.json`;
+    owners.set(name.toLowerCase(), source);
+    files.set(source, join(outputDir, name));
+  }
+  return files;
+}
+
+/** Counts the files a run would send, i.e. those not yet recorded in the index */
+export async function planDirectoryExtraction(
+  directory: string,
+  pattern: string,
+  outputDir: string,
+  force: boolean
+): Promise<{ total: number; pending: number }> {
+  const files = await findFiles(directory, pattern);
+  if (force) return { total: files.length, pending: files.length };
+
+  const index = await loadIndex(join(outputDir, INDEX_FILE));
+  let pending = 0;
+  for (const file of files) {
+    const known = index.get(sha256(await readFileAsBuffer(file)));
+    if (!known || !(await exists(known.output_file))) pending++;
+  }
+  return { total: files.length, pending };
+}
+
+export interface DirectoryExtractionOptions extends ExtractionOptions {
+  pattern: string;
+  outputDir: string;
+  /** Extract every file again, even when its hash is in the index */
+  force: boolean;
+  concurrency: number;
+  onProgress?: (done: number, total: number) => Promise<void>;
+}
+
+/**
+ * Extracts every file under `directory` matching `options.pattern` and
+ * writes one `<relative path with extension>.json` per document to
+ * `options.outputDir`.
+ * Files whose content hash is already in the index are skipped. A 402
+ * stops starting new files; the rest are reported as pending.
+ */
+export async function extractDirectory(
+  directory: string,
+  options: DirectoryExtractionOptions
+): Promise<DirectoryExtraction> {
+  const files = (await findFiles(directory, options.pattern)).sort();
+  await mkdir(options.outputDir, { recursive: true });
+  const indexPath = join(options.outputDir, INDEX_FILE);
+  const index = await loadIndex(indexPath);
+  const outputs = outputFiles(
+    files.map((file) => relative(directory, file)),
+    index,
+    options.outputDir
+  );
+
+  const results = new Map<string, FileResult>();
+  let stoppedReason: DirectoryExtraction["stopped_reason"];
+  let saving = Promise.resolve();
+  let processed = 0;
+
+  await forEachConcurrent(
+    files,
+    options.concurrency,
+    async (file) => {
+      const source = relative(directory, file);
+      let buffer: Buffer;
+      try {
+        buffer = await readFileAsBuffer(file);
+      } catch (error) {
+        results.set(file, { file: source, status: "failed", error: handleApiError(error) });
+        return;
+      }
+      const hash = sha256(buffer);
+
+      const known = index.get(hash);
+      if (!options.force && known && (await exists(known.output_file))) {
+        results.set(file, { file: source, status: "skipped", sha256: hash, output_file: known.output_file });
+      } else {
+        try {
+          const { invoice, duplicates } = await extractInvoiceFile(file, options, buffer, "invapi_extract_directory");
+          const outputFile = outputs.get(source) as string;
+          await writeFile(outputFile, JSON.stringify(invoice, null, 2), "utf-8");
+          index.set(hash, { source, output_file: outputFile, extracted_at: new Date().toISOString() });
+          results.set(file, {
+            file: source,
+            status: "extracted",
+            sha256: hash,
+            output_file: outputFile,
+            duplicates: duplicates.length ? duplicates : undefined,
+          });
+
+          saving = saving.then(() => saveIndex(indexPath, index));
+          await saving;
+        } catch (error) {
+          if (getErrorStatus(error) === 402) {
+            stoppedReason = "insufficient_credits";
+            return;
+          }
+          results.set(file, { file: source, status: "failed", sha256: hash, error: handleApiError(error) });
+        }
+      }
+
+      processed++;
+      await options.onProgress?.(processed, files.length);
+    },
+    () => stoppedReason !== undefined
+  );
+
+  const fileResults = files.map(
+    (file): FileResult => results.get(file) ?? { file: relative(directory, file), status: "pending" }
+  );
+  const count = (status: FileResult["status"]) => fileResults.filter((r) => r.status === status).length;
+
+  return {
+    files: fileResults,
+    summary: {
+      total: files.length,
+      extracted: count("extracted"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+      pending: count("pending"),
+    },
+    stopped_reason: stoppedReason,
+    output_dir: options.outputDir,
+    index_path: indexPath,
+  };
+}
@@ -0,0 +1,179 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { createServer } from "./server.js";
+import { runWithApiKey } from "./api-client.js";
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const API_KEY_HEADER = "x-invapi-api-key";
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Active sessions, keyed by MCP session ID
+const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+const sseTransports = new Map<string, SSEServerTransport>();
+
+/**
+ * Reads the per-request API key from the X-Invapi-Api-Key header,
+ * falling back to an `Authorization: Bearer <key>` header.
+ */
+function getRequestApiKey(req: IncomingMessage): string | undefined {
+  const header = req.headers[API_KEY_HEADER];
+  if (typeof header === "string" && header) return header;
+
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice("Bearer ".length).trim() || undefined;
+
+  return undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (!size) return undefined;
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+// ── Streamable HTTP (/mcp) ──
+
+async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const sessionId = req.headers["mcp-session-id"];
+  const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+  let transport = typeof sessionId === "string" ? streamableTransports.get(sessionId) : undefined;
+
+  if (!transport) {
+    if (sessionId) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "No valid session ID provided");
+      return;
+    }
+
+    const newTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableTransports.set(id, newTransport);
+      },
+    });
+    newTransport.onclose = () => {
+      if (newTransport.sessionId) streamableTransports.delete(newTransport.sessionId);
+    };
+    await createServer().connect(newTransport);
+    transport = newTransport;
+  }
+
+  await transport.handleRequest(req, res, body);
+}
+
+// ── Legacy HTTP+SSE (/sse, /messages) ──
+
+async function handleSseConnect(res: ServerResponse): Promise<void> {
+  const transport = new SSEServerTransport("/messages", res);
+  sseTransports.set(transport.sessionId, transport);
+  res.on("close", () => {
+    sseTransports.delete(transport.sessionId);
+  });
+  await createServer().connect(transport);
+}
+
+async function handleSseMessage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL
+): Promise<void> {
+  const sessionId = url.searchParams.get("sessionId");
+  const transport = sessionId ? sseTransports.get(sessionId) : undefined;
+  if (!transport) {
+    sendJsonRpcError(res, 404, "Session not found");
+    return;
+  }
+  const body = await readJsonBody(req);
+  await transport.handlePostMessage(req, res, body);
+}
+
+async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  if (url.pathname === "/health" && req.method === "GET") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status: "ok" }));
+    return;
+  }
+
+  const apiKey = getRequestApiKey(req);
+  if (!apiKey && !process.env.INVAPI_API_KEY) {
+    sendJsonRpcError(
+      res,
+      401,
+      "Missing API key. Send it in the X-Invapi-Api-Key header or set INVAPI_API_KEY on the server."
+    );
+    return;
+  }
+
+  await runWithApiKey(apiKey, async () => {
+    if (url.pathname === "/mcp") {
+      await handleStreamableRequest(req, res);
+    } else if (url.pathname === "/sse" && req.method === "GET") {
+      await handleSseConnect(res);
+    } else if (url.pathname === "/messages" && req.method === "POST") {
+      await handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+}
+
+/**
+ * Starts the HTTP server. Serves Streamable HTTP on /mcp and the legacy
+ * HTTP+SSE transport on /sse + /messages for older clients.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<void> {
+  const httpServer = createHttpServer((req, res) => {
+    route(req, res).catch((error) => {
+      if (error instanceof HttpError) {
+        sendJsonRpcError(res, error.status, error.message);
+        return;
+      }
+      console.error("HTTP request failed:", error);
+      sendJsonRpcError(res, 500, "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+}
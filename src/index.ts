@@ -7,38 +7,65 @@
  * Provides tools for invoice conversion (JSON, UBL, CII, XLSX, ZUGFeRD),
  * validation (XRechnung / EN 16931), and extraction from PDFs and images.
  *
- * Requires the INVAPI_API_KEY environment variable.
+ * Runs over stdio by default. Pass `--transport http` (or set
+ * INVAPI_MCP_TRANSPORT=http) to serve Streamable HTTP with an SSE fallback.
+ *
+ * Requires the INVAPI_API_KEY environment variable in stdio mode. In HTTP
+ * mode the key may instead be sent per request in the X-Invapi-Api-Key header.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
-import { registerConversionTools } from "./tools/conversion.js";
-import { registerValidationTools } from "./tools/validation.js";
-import { registerExtractionTools } from "./tools/extraction.js";
-import { registerUserTools } from "./tools/user.js";
-import { registerBatchTools } from "./tools/batch.js";
+import { createServer } from "./server.js";
+import { startHttpServer } from "./http.js";
 
-const server = new McpServer({
-  name: "@invapi/mcp-server",
-  version: "1.0.0",
-});
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3000;
+
+function parseCliOptions() {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  });
 
-// Register all tool groups
-registerConversionTools(server);
-registerValidationTools(server);
-registerExtractionTools(server);
-registerUserTools(server);
-registerBatchTools(server);
+  const transport = values.transport ?? process.env.INVAPI_MCP_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown transport '${transport}'. Use 'stdio' or 'http'.`);
+  }
+
+  const rawPort = values.port ?? process.env.INVAPI_MCP_PORT;
+  const port = rawPort ? Number(rawPort) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${rawPort}'.`);
+  }
+
+  return {
+    transport,
+    host: values.host ?? process.env.INVAPI_MCP_HOST ?? DEFAULT_HOST,
+    port,
+  } as const;
+}
 
-// Start with stdio transport
 async function main(): Promise<void> {
+  const options = parseCliOptions();
+
+  if (options.transport === "http") {
+    await startHttpServer({ host: options.host, port: options.port });
+    console.error(`Invapi MCP server running (http://${options.host}:${options.port}/mcp)`);
+    return;
+  }
+
   if (!process.env.INVAPI_API_KEY) {
     console.error("ERROR: INVAPI_API_KEY environment variable is required.");
     console.error("Get your API key at https://invapi.org");
     process.exit(1);
   }
 
+  const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Invapi MCP server running (stdio)");
@@ -0,0 +1,181 @@
+import { extname } from "node:path";
+import { InvoiceSchema, type Invoice, type InvoiceChange } from "./schemas.js";
+import { postBinaryGetJson, readFileAsBuffer, readFileAsString } from "./api-client.js";
+import { parseInvoiceXml } from "./xml.js";
+import { xmlToInvoice } from "./xml-conversion.js";
+
+// ── Field-level invoice comparison ──
+//
+// Two invoices from any source are normalised to Invoice JSON and compared
+// field by field. Items are matched by item_identifier, other lists by
+// their natural key, and monetary amounts within a tolerance.
+
+/** Amounts are compared with one cent of slack unless told otherwise */
+export const DEFAULT_TOLERANCE = 0.01;
+
+// ── Inputs ──
+
+export type InputKind = "json" | "xml" | "pdf";
+
+/** How a file is read: Invoice JSON as is, UBL/CII and ZUGFeRD PDFs through the conversion API */
+export function inputKind(filePath: string): InputKind {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === ".xml") return "xml";
+  if (ext === ".pdf") return "pdf";
+  return "json";
+}
+
+function parseInvoice(data: unknown, source: string): Invoice {
+  const parsed = InvoiceSchema.safeParse(data);
+  if (!parsed.success) {
+    const fields = parsed.error.issues.map((issue) => issue.path.join(".") || "(root)");
+    throw new Error(`${source} is not a valid Invoice: ${fields.join(", ")}`);
+  }
+  return parsed.data;
+}
+
+/** Reads an Invoice JSON, UBL/CII or ZUGFeRD PDF file as an Invoice */
+export async function loadInvoice(filePath: string): Promise<Invoice> {
+  const kind = inputKind(filePath);
+  if (kind === "xml") {
+    const xml = await readFileAsString(filePath);
+    return xmlToInvoice(xml, parseInvoiceXml(xml).format);
+  }
+  if (kind === "pdf") {
+    const buffer = await readFileAsBuffer(filePath);
+    return parseInvoice(await postBinaryGetJson("/api/v1/zugferd/json", buffer, "application/pdf"), filePath);
+  }
+  return parseInvoice(JSON.parse(await readFileAsString(filePath)), filePath);
+}
+
+// ── Comparison ──
+
+type Json = unknown;
+
+/** Fields holding an amount of money, compared within the tolerance */
+function isMonetary(key: string): boolean {
+  return /amount|price|total|sum_of|discount/.test(key) && !/percentage/.test(key);
+}
+
+type EntryKey = (entry: Record<string, unknown>) => string | undefined;
+
+const itemKey: EntryKey = (item) => (item.item_identifier ? String(item.item_identifier) : undefined);
+
+/** Keys matching entries of a list between the two invoices, by list name */
+const LIST_KEYS: Partial<Record<string, EntryKey>> = {
+  items: itemKey,
+  vat_breakdown: (group) => `${group.vat_category_code}/${group.vat_percentage}`,
+  attachments: (attachment) => (attachment.id ? String(attachment.id) : undefined),
+  preceding_invoices: (ref) => (ref.number ? String(ref.number) : undefined),
+};
+
+function isEmpty(value: Json): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.values(value as object).every(isEmpty);
+  return false;
+}
+
+function isObject(value: Json): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function sameLeaf(a: Json, b: Json, key: string, tolerance: number): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return Math.abs(a - b) <= (isMonetary(key) ? tolerance : 0) + 1e-9;
+  }
+  if (typeof a === "string" && typeof b === "string") return a.trim() === b.trim();
+  return a === b;
+}
+
+/**
+ * Pairs the entries of two lists by key. Falls back to position when an
+ * entry has no key or the keys are not unique.
+ */
+function pairEntries(name: string, a: Json[], b: Json[]): Array<[number | undefined, number | undefined]> {
+  const keyOf = LIST_KEYS[name];
+  const keys = (list: Json[]) => list.map((entry) => (keyOf && isObject(entry) ? keyOf(entry) : undefined));
+  const keysA = keys(a);
+  const keysB = keys(b);
+  const unique = (list: Array<string | undefined>) =>
+    list.every((key) => key !== undefined) && new Set(list).size === list.length;
+
+  if (!unique(keysA) || !unique(keysB)) {
+    return Array.from({ length: Math.max(a.length, b.length) }, (_, i) => [
+      i < a.length ? i : undefined,
+      i < b.length ? i : undefined,
+    ]);
+  }
+  const pairs: Array<[number | undefined, number | undefined]> = keysA.map((key, i) => {
+    const j = keysB.indexOf(key);
+    return [i, j >= 0 ? j : undefined];
+  });
+  keysB.forEach((key, j) => {
+    if (!keysA.includes(key)) pairs.push([undefined, j]);
+  });
+  return pairs;
+}
+
+interface DiffContext {
+  tolerance: number;
+  changes: InvoiceChange[];
+  /** item_identifier of the item being compared, if any */
+  item?: string;
+}
+
+function record(context: DiffContext, change: InvoiceChange): void {
+  context.changes.push(context.item !== undefined ? { ...change, item_identifier: context.item } : change);
+}
+
+function compare(a: Json, b: Json, path: string, key: string, context: DiffContext): void {
+  const emptyA = isEmpty(a);
+  const emptyB = isEmpty(b);
+  if (emptyA && emptyB) return;
+  if (emptyA) return record(context, { path, change: "added", after: b });
+  if (emptyB) return record(context, { path, change: "removed", before: a });
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (const [i, j] of pairEntries(key, a, b)) {
+      const entryA = i === undefined ? undefined : a[i];
+      const entryB = j === undefined ? undefined : b[j];
+      const entry = (entryA ?? entryB) as Record<string, unknown>;
+      const item = key === "items" ? (itemKey(entry) ?? context.item) : context.item;
+      compare(entryA, entryB, join(path, (i ?? j) as number), key, { ...context, item });
+    }
+    return;
+  }
+  if (isObject(a) && isObject(b)) {
+    for (const field of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      compare(a[field], b[field], join(path, field), field, context);
+    }
+    return;
+  }
+  if (!sameLeaf(a, b, key, context.tolerance)) record(context, { path, change: "changed", before: a, after: b });
+}
+
+/** Fills defaults whose absence carries meaning, so an omitted field does not show as a change */
+function normalize(invoice: Invoice): Invoice {
+  const data = invoice.additional_data;
+  const legacy = data?.preceeding_invoice_number;
+  const preceding = data?.preceding_invoices ?? (legacy ? [{ number: legacy }] : undefined);
+  return {
+    ...invoice,
+    document_type_code: invoice.document_type_code ?? "380",
+    additional_data: data && { ...data, preceding_invoices: preceding, preceeding_invoice_number: undefined },
+  };
+}
+
+/**
+ * Fields added in, removed from or changed in `b` compared with `a`. Paths
+ * use the index in `a`, or in `b` for added entries.
+ */
+export function diffInvoices(a: Invoice, b: Invoice, tolerance: number = DEFAULT_TOLERANCE): InvoiceChange[] {
+  const context: DiffContext = { tolerance, changes: [] };
+  compare(normalize(a), normalize(b), "", "", context);
+  return context.changes;
+}
@@ -0,0 +1,166 @@
+import type { Invoice, Party } from "./schemas.js";
+import { parseInvoiceXml } from "./xml.js";
+import { editInvoiceXml } from "./xml-edit.js";
+import {
+  fromCii,
+  fromInvoiceJson,
+  fromUbl,
+  type Located,
+  type SemanticInvoice,
+  type SemanticParty,
+} from "./en16931/model.js";
+import { applyDocumentType, precedingInvoicesOf, prepareDocumentType, readDocumentType } from "./document-type.js";
+import { applyAllowanceCharges, prepareAllowanceCharges, readAllowanceCharges } from "./allowance-charges.js";
+import { applyVatBreakdown, deriveVatBreakdown, readVatBreakdown } from "./vat-breakdown.js";
+import { applyParties, readParties } from "./parties.js";
+import { applyAttachments, readAttachments } from "./attachments.js";
+import { PROFILES, applyProfile, readProfile } from "./profiles.js";
+
+// ── Completing conversions ──
+//
+// The conversion API covers the core of InvoiceSchema. The parts it does
+// not yet render or read are handled around every conversion call:
+// toApiInvoice before sending, completeInvoiceXml on generated XML and
+// completeInvoiceJson on JSON converted from XML.
+
+/** Fills the derived and legacy fields the API reads */
+export function toApiInvoice(invoice: Invoice): Invoice {
+  return prepareAllowanceCharges(prepareDocumentType(invoice));
+}
+
+/** Brings XML generated from `invoice` in line with the fields the API does not render */
+export function completeInvoiceXml(xml: string, invoice: Invoice): string {
+  return editInvoiceXml(xml, (root, format) => {
+    applyDocumentType(root, format, invoice);
+    applyAllowanceCharges(root, format, invoice);
+    applyVatBreakdown(root, format, invoice);
+    applyParties(root, format, invoice);
+    applyAttachments(root, format, invoice);
+    if (invoice.profile) applyProfile(root, format, invoice.profile);
+  });
+}
+
+/** Fills the fields of an Invoice JSON converted from `xml` that the API left out */
+export function completeInvoiceJson(result: Record<string, unknown>, xml: string): Record<string, unknown> {
+  let model: SemanticInvoice;
+  try {
+    const doc = parseInvoiceXml(xml);
+    model = doc.format === "ubl" ? fromUbl(doc) : fromCii(doc);
+  } catch {
+    return result;
+  }
+  const readers = [readProfile, readDocumentType, readAllowanceCharges, readVatBreakdown, readParties, readAttachments];
+  return readers.reduce((completed, read) => read(completed, model), result);
+}
+
+// ── ZUGFeRD PDFs ──
+//
+// The API embeds the CII it renders, in its default profile, and the server
+// cannot edit XML inside a PDF, so whatever completeInvoiceXml would add is
+// left out.
+
+type PartyTerm =
+  | "trading name"
+  | "electronic address"
+  | "legal registration id"
+  | "tax registration id"
+  | "contact name";
+
+/** Business terms of the party identifiers applyParties adds */
+const PARTY_TERMS: Record<"seller" | "buyer", Partial<Record<PartyTerm, string>>> = {
+  seller: {
+    "trading name": "BT-28",
+    "electronic address": "BT-34",
+    "legal registration id": "BT-30",
+    "tax registration id": "BT-32",
+    "contact name": "BT-41",
+  },
+  buyer: {
+    "trading name": "BT-45",
+    "electronic address": "BT-49",
+    "legal registration id": "BT-47",
+    "contact name": "BT-56",
+  },
+};
+
+function partyOmissions(party: Party, role: "seller" | "buyer"): string[] {
+  const values: Record<PartyTerm, unknown> = {
+    "trading name": party.trading_name,
+    "electronic address": party.electronic_address,
+    "legal registration id": party.legal_registration_id,
+    "tax registration id": party.tax_registration_id,
+    "contact name": party.contact.name,
+  };
+  return Object.entries(PARTY_TERMS[role])
+    .filter(([term]) => values[term as PartyTerm] !== undefined)
+    .map(([term, id]) => `${role} ${term} (${id})`);
+}
+
+/** Fields of `invoice` a ZUGFeRD PDF leaves out, e.g. "attachments (BG-24)" */
+export function pdfOmissions(invoice: Invoice): string[] {
+  const omitted: string[] = [];
+  const references = precedingInvoicesOf(invoice);
+  if (references.length > 1 || references.some((reference) => reference.date)) {
+    omitted.push("preceding invoices other than the first number (BG-3)");
+  }
+  if (invoice.allowances?.length || invoice.charges?.length) {
+    omitted.push("document-level allowances and charges (BG-20/21)");
+  }
+  if (invoice.items.some((item) => item.allowances?.length || item.charges?.length)) {
+    omitted.push("line allowances and charges (BG-27/28)");
+  }
+  const groups = invoice.vat_breakdown ?? deriveVatBreakdown(invoice);
+  if (groups.some((group) => group.exemption_reason || group.exemption_reason_code)) {
+    omitted.push("VAT exemption reasons (BT-120/121)");
+  }
+  omitted.push(...partyOmissions(invoice.seller, "seller"), ...partyOmissions(invoice.buyer, "buyer"));
+  if (invoice.attachments?.length) omitted.push("attachments (BG-24)");
+  if (invoice.profile) omitted.push(`${PROFILES[invoice.profile].title} profile (BT-23/24)`);
+  return omitted;
+}
+
+function cleared<T>(term: Located<T>): Located<T> {
+  return { value: undefined, location: term.location };
+}
+
+function embeddedParty(party: SemanticParty): SemanticParty {
+  return {
+    ...party,
+    tradingName: cleared(party.tradingName),
+    electronicAddress: cleared(party.electronicAddress),
+    electronicAddressScheme: cleared(party.electronicAddressScheme),
+    legalId: cleared(party.legalId),
+    legalIdScheme: cleared(party.legalIdScheme),
+    taxRegistrationId: cleared(party.taxRegistrationId),
+    contactName: cleared(party.contactName),
+  };
+}
+
+/** Business terms of `invoice` as the API embeds it in a ZUGFeRD PDF, without what pdfOmissions lists */
+export function pdfModel(invoice: Invoice): SemanticInvoice {
+  const model = fromInvoiceJson(invoice);
+  return {
+    ...model,
+    precedingInvoices: model.precedingInvoices
+      .slice(0, 1)
+      .map((reference) => ({ ...reference, issueDate: cleared(reference.issueDate) })),
+    attachments: [],
+    seller: embeddedParty(model.seller),
+    buyer: embeddedParty(model.buyer),
+    lines: model.lines.map((line) => ({ ...line, allowances: [], charges: [] })),
+    allowances: [],
+    charges: [],
+    vatBreakdown: model.vatBreakdown.map((group) => ({
+      ...group,
+      exemptionReason: cleared(group.exemptionReason),
+      exemptionReasonCode: cleared(group.exemptionReasonCode),
+    })),
+  };
+}
+
+export function formatPdfOmissions(omitted: string[]): string {
+  return (
+    `Warning: the API does not render these fields, so the PDF's embedded XML lacks them: ${omitted.join(", ")}. ` +
+    "Create UBL or CII XML to keep them."
+  );
+}
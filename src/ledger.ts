@@ -0,0 +1,382 @@
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  InvoiceSchema,
+  type DuplicateMatch,
+  type Invoice,
+  type LedgerEntry,
+  type LedgerFilter,
+  type LedgerFormat,
+  type LedgerGroup,
+  type LedgerRow,
+  type LedgerSummary,
+  type LedgerValidation,
+  type ValidationReport,
+} from "./schemas.js";
+import { getRequestApiKey } from "./api-client.js";
+import { semanticModel } from "./xml-conversion.js";
+import { entryDocuments, findDuplicates, isDocument } from "./duplicates.js";
+
+// ── Local invoice ledger ──
+//
+// With INVAPI_DATA_DIR set, every Invoice the tools read or produce is
+// recorded in a JSON-lines file there, with the hash and format of its
+// source and its validation status. Entries are keyed by seller and
+// invoice number, so reading, converting or validating the same invoice
+// again updates its entry, which keeps every document the invoice was read
+// from. Lines are only appended; the file is rewritten without superseded
+// lines once they outnumber the current entries.
+
+const LEDGER_FILE = "ledger.jsonl";
+
+/** Directory of the ledger, from INVAPI_DATA_DIR. Undefined when the ledger is off. */
+export function getDataDir(): string | undefined {
+  return process.env.INVAPI_DATA_DIR || undefined;
+}
+
+function sha256(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * The ledger file of the current caller. HTTP clients that bring their own
+ * API key each get their own file, so accounts never see each other's invoices.
+ */
+export function getLedgerPath(): string | undefined {
+  const dir = getDataDir();
+  if (!dir) return undefined;
+  const key = getRequestApiKey();
+  return join(dir, key ? `ledger-${sha256(key).slice(0, 12)}.jsonl` : LEDGER_FILE);
+}
+
+// ── Storage ──
+
+async function loadLines(path: string): Promise<LedgerEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: LedgerEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      // A line cut short by a crash is skipped; the next compaction drops it
+    }
+  }
+  return entries;
+}
+
+/** Current entries by id; later lines supersede earlier ones */
+async function loadEntries(path: string): Promise<{ entries: Map<string, LedgerEntry>; lines: number }> {
+  const lines = await loadLines(path);
+  return { entries: new Map(lines.map((entry) => [entry.id, entry])), lines: lines.length };
+}
+
+/** Writes to the ledger one at a time, so appends and compactions never interleave */
+let writing = Promise.resolve();
+
+function serialized(task: () => Promise<void>): Promise<void> {
+  const run = writing.then(task);
+  writing = run.catch(() => undefined);
+  return run;
+}
+
+async function append(path: string, updates: LedgerEntry[]): Promise<void> {
+  await mkdir(getDataDir() as string, { recursive: true });
+  await appendFile(path, updates.map((entry) => JSON.stringify(entry) + "\n").join(""), "utf-8");
+
+  const { entries, lines } = await loadEntries(path);
+  if (lines > entries.size * 2) {
+    const compacted = [...entries.values()].map((entry) => JSON.stringify(entry) + "\n").join("");
+    await writeFile(`${path}.tmp`, compacted, "utf-8");
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+/** The ledger must never fail the tool that feeds it */
+async function update(build: (entries: Map<string, LedgerEntry>) => LedgerEntry[]): Promise<void> {
+  const path = getLedgerPath();
+  if (!path) return;
+  try {
+    await serialized(async () => {
+      const updates = build((await loadEntries(path)).entries);
+      if (updates.length) await append(path, updates);
+    });
+  } catch (error) {
+    console.error("Ledger update failed:", error);
+  }
+}
+
+// ── Recording ──
+
+export interface LedgerSource {
+  /** Tool that read or produced the invoice */
+  tool: string;
+  format: LedgerFormat;
+  file_path?: string;
+  /** Content of the source document, hashed for the entry */
+  content: Buffer | string;
+}
+
+function normalize(value: string | undefined): string | undefined {
+  return value?.trim() ? value.replace(/\s+/g, "").toUpperCase() : undefined;
+}
+
+function entryId(sellerKey: string, invoiceNumber: string): string {
+  return sha256(`${sellerKey}|${invoiceNumber.trim()}`).slice(0, 16);
+}
+
+/** Sellers are told apart by VAT identifier, or by name when they have none */
+function invoiceId(invoice: Invoice): string {
+  const seller = normalize(invoice.seller.vat_identifier) ?? normalize(invoice.seller.name) ?? "";
+  return entryId(seller, invoice.invoice_number);
+}
+
+const UNCHECKED: LedgerValidation = { status: "unchecked" };
+
+function toLedgerValidation(report: ValidationReport): LedgerValidation {
+  return {
+    status: report.valid ? "valid" : "invalid",
+    mode: report.mode,
+    profile: report.profile,
+    errors: report.issues.filter((issue) => issue.severity === "error").length,
+    checked_at: new Date().toISOString(),
+  };
+}
+
+function buildEntry(
+  entries: Map<string, LedgerEntry>,
+  invoice: Invoice,
+  source: LedgerSource,
+  hash: string,
+  validation: LedgerValidation | undefined
+): LedgerEntry {
+  const id = invoiceId(invoice);
+  const previous = entries.get(id);
+  const now = new Date().toISOString();
+  // A validation result stays valid for as long as the invoice is unchanged
+  const unchanged = previous && JSON.stringify(previous.invoice) === JSON.stringify(invoice);
+  const ledgerSource = { tool: source.tool, format: source.format, file_path: source.file_path, sha256: hash };
+  const documents = previous ? entryDocuments(previous) : [];
+  const known = documents.some((document) => document.sha256 === hash);
+  return {
+    id,
+    recorded_at: previous?.recorded_at ?? now,
+    updated_at: now,
+    source: ledgerSource,
+    documents: isDocument(source) && !known ? [...documents, { ...ledgerSource, recorded_at: now }] : documents,
+    validation: validation ?? (unchanged ? previous.validation : UNCHECKED),
+    invoice,
+  };
+}
+
+/**
+ * Records invoices read or produced by a tool. Values that are not a valid
+ * Invoice, such as an API response missing required fields, are skipped.
+ * Returns, per item, the invoices already recorded from other documents
+ * that it likely duplicates; items later in `items` are compared with the
+ * earlier ones too. Does nothing and finds nothing when the ledger is off.
+ */
+export async function recordInvoices(
+  items: Array<{ invoice: unknown; source: LedgerSource; report?: ValidationReport }>
+): Promise<DuplicateMatch[][]> {
+  const duplicates: DuplicateMatch[][] = items.map(() => []);
+  if (!getLedgerPath()) return duplicates;
+  await update((entries) => {
+    const updates: LedgerEntry[] = [];
+    items.forEach(({ invoice, source, report }, i) => {
+      const parsed = InvoiceSchema.safeParse(invoice);
+      if (!parsed.success) return;
+      const hash = sha256(source.content);
+      if (isDocument(source)) duplicates[i] = findDuplicates(parsed.data, hash, entries.values());
+      const entry = buildEntry(entries, parsed.data, source, hash, report && toLedgerValidation(report));
+      entries.set(entry.id, entry);
+      updates.push(entry);
+    });
+    return updates;
+  });
+  return duplicates;
+}
+
+export async function recordInvoice(
+  invoice: unknown,
+  source: LedgerSource,
+  report?: ValidationReport
+): Promise<DuplicateMatch[]> {
+  const [duplicates] = await recordInvoices([{ invoice, source, report }]);
+  return duplicates;
+}
+
+/**
+ * Stores the result of validating a UBL or CII document on the entry of
+ * the invoice it carries, if that invoice is in the ledger.
+ */
+export async function recordValidation(xml: string, report: ValidationReport): Promise<void> {
+  if (!getLedgerPath()) return;
+  let ids: string[];
+  try {
+    const model = semanticModel(xml);
+    const number = model.number.value ?? "";
+    const sellerKeys = [normalize(model.seller.vatId.value), normalize(model.seller.name.value)];
+    ids = sellerKeys.filter((key): key is string => key !== undefined).map((key) => entryId(key, number));
+  } catch {
+    return;
+  }
+  await update((entries) =>
+    ids
+      .map((id) => entries.get(id))
+      .filter((entry): entry is LedgerEntry => entry !== undefined)
+      .map((entry) => ({ ...entry, updated_at: new Date().toISOString(), validation: toLedgerValidation(report) }))
+  );
+}
+
+// ── Queries ──
+
+/** Entries of the current caller's ledger. Throws when the ledger is off. */
+export async function readLedger(): Promise<{ entries: LedgerEntry[]; path: string }> {
+  const path = getLedgerPath();
+  if (!path) {
+    throw new Error("The invoice ledger is off. Set INVAPI_DATA_DIR to the directory it should be kept in.");
+  }
+  return { entries: [...(await loadEntries(path)).entries.values()], path };
+}
+
+/** Credit notes (381) keep positive amounts in the Invoice, so totals subtract them */
+const CREDIT_NOTE = "381";
+
+function isCreditNote(invoice: Invoice): boolean {
+  return invoice.document_type_code === CREDIT_NOTE;
+}
+
+/** Unpaid: an amount is still due and no payment date is recorded. Credit notes are never open. */
+function isOpen(invoice: Invoice): boolean {
+  return (
+    !isCreditNote(invoice) &&
+    invoice.totals.amount_due_for_payment > 0 &&
+    !invoice.payment_information.payment_payed_date
+  );
+}
+
+function partyMatches(party: Invoice["seller"], search: string): boolean {
+  const needle = search.toLowerCase();
+  return [party.name, party.trading_name, party.vat_identifier].some((value) =>
+    value?.toLowerCase().includes(needle)
+  );
+}
+
+function inRange(value: string | undefined, from: string | undefined, to: string | undefined): boolean {
+  if (from === undefined && to === undefined) return true;
+  if (!value) return false;
+  return (from === undefined || value >= from) && (to === undefined || value <= to);
+}
+
+export function filterEntries(entries: LedgerEntry[], filter: LedgerFilter): LedgerEntry[] {
+  return entries.filter(({ invoice, validation }) => {
+    const total = invoice.totals.total_amount_with_vat;
+    return (
+      (filter.seller === undefined || partyMatches(invoice.seller, filter.seller)) &&
+      (filter.buyer === undefined || partyMatches(invoice.buyer, filter.buyer)) &&
+      (filter.invoice_type === undefined || invoice.invoice_type === filter.invoice_type) &&
+      inRange(invoice.invoice_date, filter.date_from, filter.date_to) &&
+      inRange(invoice.payment_information.payment_due_date, filter.due_from, filter.due_to) &&
+      (filter.category === undefined || invoice.category?.toLowerCase() === filter.category.toLowerCase()) &&
+      (filter.currency === undefined || invoice.invoice_currency_code === filter.currency.toUpperCase()) &&
+      (filter.min_amount === undefined || total >= filter.min_amount) &&
+      (filter.max_amount === undefined || total <= filter.max_amount) &&
+      (filter.open === undefined || isOpen(invoice) === filter.open) &&
+      (filter.validation_status === undefined || validation.status === filter.validation_status)
+    );
+  });
+}
+
+export function toRow(entry: LedgerEntry, includeInvoice: boolean): LedgerRow {
+  const { invoice } = entry;
+  return {
+    id: entry.id,
+    invoice_number: invoice.invoice_number,
+    invoice_date: invoice.invoice_date,
+    invoice_type: invoice.invoice_type,
+    seller: invoice.seller.name,
+    buyer: invoice.buyer.name,
+    category: invoice.category,
+    currency: invoice.invoice_currency_code,
+    total_amount_with_vat: invoice.totals.total_amount_with_vat,
+    amount_due_for_payment: invoice.totals.amount_due_for_payment,
+    payment_due_date: invoice.payment_information.payment_due_date,
+    open: isOpen(invoice),
+    validation_status: entry.validation.status,
+    source: entry.source,
+    invoice: includeInvoice ? invoice : undefined,
+  };
+}
+
+/** Newest invoice date first */
+export function sortEntries(entries: LedgerEntry[]): LedgerEntry[] {
+  return [...entries].sort((a, b) => b.invoice.invoice_date.localeCompare(a.invoice.invoice_date));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function groupKey(entry: LedgerEntry, groupBy: LedgerSummary["group_by"]): string {
+  const { invoice } = entry;
+  switch (groupBy) {
+    case "seller":
+      return invoice.seller.name;
+    case "buyer":
+      return invoice.buyer.name;
+    case "category":
+      return invoice.category ?? "(none)";
+    case "currency":
+      return invoice.invoice_currency_code;
+    case "month":
+      return invoice.invoice_date.slice(0, 7);
+    case "validation_status":
+      return entry.validation.status;
+  }
+}
+
+/** Totals per group and currency, largest open amount first. Credit notes count negatively. */
+export function summarizeEntries(
+  entries: LedgerEntry[],
+  groupBy: LedgerSummary["group_by"],
+  today: string = new Date().toISOString().slice(0, 10)
+): LedgerGroup[] {
+  const groups = new Map<string, LedgerGroup>();
+  for (const entry of entries) {
+    const { invoice } = entry;
+    const key = groupKey(entry, groupBy);
+    const currency = invoice.invoice_currency_code;
+    const group = groups.get(`${key}\u0000${currency}`) ?? {
+      key,
+      currency,
+      count: 0,
+      total_amount_with_vat: 0,
+      amount_due_for_payment: 0,
+      open_count: 0,
+      open_amount_due: 0,
+      overdue_amount: 0,
+    };
+    const sign = isCreditNote(invoice) ? -1 : 1;
+    const due = sign * invoice.totals.amount_due_for_payment;
+    group.count++;
+    group.total_amount_with_vat = round2(group.total_amount_with_vat + sign * invoice.totals.total_amount_with_vat);
+    group.amount_due_for_payment = round2(group.amount_due_for_payment + due);
+    if (isOpen(invoice)) {
+      group.open_count++;
+      group.open_amount_due = round2(group.open_amount_due + due);
+      const dueDate = invoice.payment_information.payment_due_date;
+      if (dueDate && dueDate < today) group.overdue_amount = round2(group.overdue_amount + due);
+    }
+    groups.set(`${key}\u0000${currency}`, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.open_amount_due - a.open_amount_due || b.total_amount_with_vat - a.total_amount_with_vat
+  );
+}
@@ -0,0 +1,139 @@
+import type { Invoice } from "../schemas.js";
+
+// ── Deterministic fixture responses for the mock Invapi server ──
+
+export const SAMPLE_INVOICE: Invoice = {
+  invoice_number: "INV-2025-001",
+  invoice_date: "2025-01-15",
+  invoice_currency_code: "EUR",
+  invoice_type: "outgoing",
+  seller: {
+    name: "Muster Software GmbH",
+    postal_address: {
+      address_line_1: "Hauptstraße 1",
+      city: "Berlin",
+      post_code: "10115",
+      country_code: "DE",
+    },
+    vat_identifier: "DE123456789",
+    contact: {
+      telephone_number: "+49 30 1234567",
+      email_address: "billing@muster-software.de",
+    },
+  },
+  buyer: {
+    name: "Beispiel AG",
+    postal_address: {
+      address_line_1: "Marktplatz 5",
+      city: "München",
+      post_code: "80331",
+      country_code: "DE",
+    },
+    vat_identifier: "DE987654321",
+    contact: {
+      email_address: "ap@beispiel.de",
+    },
+  },
+  payment_information: {
+    payment_type: "credit_transfer",
+    payment_account_number: "DE89370400440532013000",
+    payment_due_date: "2025-02-14",
+    payment_terms: "Net 30 days",
+  },
+  totals: {
+    total_amount_without_vat: 1000,
+    total_amount_with_vat: 1190,
+    total_vat_amount: 190,
+    amount_due_for_payment: 1190,
+    paid_amount: 0,
+  },
+  items: [
+    {
+      item_identifier: "1",
+      item_quantity: 10,
+      item_quantity_unit_of_measure_code: "HUR",
+      item_total_amount_with_vat: 1190,
+      item_total_amount_without_vat: 1000,
+      price_details: {
+        item_price_without_vat: 100,
+        item_price_with_vat: 119,
+        item_vat_percentage: 19,
+        vat_category_code: "S",
+      },
+      item_information: "Software development",
+    },
+  ],
+  invoice_description: "Software development services, January 2025",
+};
+
+export const SAMPLE_USER = {
+  email: "mock@invapi.org",
+  role: "user",
+  credits: {
+    extraction: 100,
+    conversion: 1000,
+    validation: 1000,
+    qr: 100,
+  },
+};
+
+export const SAMPLE_QR = {
+  type: "epc",
+  raw: "BCD\n002\n1\nSCT\n\nMuster Software GmbH\nDE89370400440532013000\nEUR1190.00\n\n\nINV-2025-001",
+};
+
+/** Minimal placeholder for an .xlsx body (ZIP local file header magic) */
+export const SAMPLE_XLSX = Buffer.from("504b0304", "hex");
+
+export const VALIDATION_ERRORS = [
+  { message: "[BR-16] An Invoice shall have at least one Invoice line (BG-25)." },
+];
+
+/** 400 response body in the shape handleApiError understands */
+export const BAD_REQUEST_BODY = {
+  statusCode: 400,
+  statusMessage: "Bad Request",
+  message: "Invalid request body",
+  data: {
+    errors: [
+      { path: "invoice_number", message: "Required" },
+      { path: "items", message: "Array must contain at least 1 element(s)" },
+    ],
+  },
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Renders a small, stable UBL document for the given invoice */
+export function renderUbl(invoice: Partial<Invoice>): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"' +
+      ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    `  <cbc:ID>${escapeXml(invoice.invoice_number ?? "")}</cbc:ID>`,
+    `  <cbc:IssueDate>${escapeXml(invoice.invoice_date ?? "")}</cbc:IssueDate>`,
+    `  <cbc:DocumentCurrencyCode>${escapeXml(invoice.invoice_currency_code ?? "")}</cbc:DocumentCurrencyCode>`,
+    "</Invoice>",
+    "",
+  ].join("\n");
+}
+
+/** Renders a small, stable CII document for the given invoice */
+export function renderCii(invoice: Partial<Invoice>): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"' +
+      ' xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100">',
+    "  <rsm:ExchangedDocument>",
+    `    <ram:ID>${escapeXml(invoice.invoice_number ?? "")}</ram:ID>`,
+    "  </rsm:ExchangedDocument>",
+    "</rsm:CrossIndustryInvoice>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Invapi API
+ *
+ * Local stand-in for https://api.invapi.org for offline development and tests.
+ * Start it, then run the MCP server with INVAPI_API_BASE_URL pointing at it.
+ *
+ * Options: --host (INVAPI_MOCK_HOST, default 127.0.0.1),
+ *          --port (INVAPI_MOCK_PORT, default 4010)
+ */
+
+import { parseArgs } from "node:util";
+
+import { startMockServer } from "./server.js";
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  });
+
+  const host = values.host ?? process.env.INVAPI_MOCK_HOST ?? "127.0.0.1";
+  const port = Number(values.port ?? process.env.INVAPI_MOCK_PORT ?? 4010);
+
+  await startMockServer({ host, port });
+  console.error(`Mock Invapi API running (http://${host}:${port})`);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,241 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+
+import type { Invoice } from "../schemas.js";
+import {
+  SAMPLE_INVOICE,
+  SAMPLE_USER,
+  SAMPLE_QR,
+  SAMPLE_XLSX,
+  VALIDATION_ERRORS,
+  BAD_REQUEST_BODY,
+  renderUbl,
+  renderCii,
+} from "./fixtures.js";
+
+/**
+ * Simulated failure modes. Selected per request with the X-Mock-Scenario
+ * header, or by using an API key of the form `mock-<scenario>`
+ * (e.g. INVAPI_API_KEY=mock-402).
+ */
+export type MockScenario = "ok" | "400" | "401" | "402" | "429" | "timeout";
+
+const SCENARIOS: readonly MockScenario[] = ["ok", "400", "401", "402", "429", "timeout"];
+
+export interface MockServerOptions {
+  host: string;
+  port: number;
+}
+
+interface MockRequest {
+  json: () => unknown;
+  text: () => string;
+}
+
+type MockResponse =
+  | { kind: "json"; status?: number; data: unknown; headers?: Record<string, string> }
+  | { kind: "text"; data: string; contentType: string }
+  | { kind: "binary"; data: Buffer; contentType: string };
+
+type MockHandler = (req: MockRequest) => MockResponse;
+
+// ── Endpoint handlers ──
+
+function asInvoice(value: unknown): Partial<Invoice> {
+  return typeof value === "object" && value !== null ? (value as Partial<Invoice>) : {};
+}
+
+function validateXml(xml: string): MockResponse {
+  if (!xml.trimStart().startsWith("<")) {
+    return { kind: "json", data: { valid: false, errors: VALIDATION_ERRORS } };
+  }
+  return { kind: "json", data: { valid: true } };
+}
+
+function runBatchOperation(operation: string, input: unknown): unknown {
+  switch (operation) {
+    case "json_to_ubl":
+      return renderUbl(asInvoice(input));
+    case "json_to_cii":
+      return renderCii(asInvoice(input));
+    case "ubl_to_json":
+    case "cii_to_json":
+    case "zugferd_to_json":
+      if (typeof input !== "string") throw new Error("Input must be a string");
+      return SAMPLE_INVOICE;
+    default:
+      throw new Error(`Unsupported operation '${operation}'`);
+  }
+}
+
+function handleBatch(req: MockRequest): MockResponse {
+  const { operations } = req.json() as {
+    operations?: Array<{ id: string; operation: string; input: unknown }>;
+  };
+  const results = (operations ?? []).map((op) => {
+    try {
+      return { id: op.id, success: true, output: runBatchOperation(op.operation, op.input) };
+    } catch (error) {
+      return { id: op.id, success: false, error: (error as Error).message };
+    }
+  });
+  const successful = results.filter((r) => r.success).length;
+  return {
+    kind: "json",
+    data: {
+      results,
+      summary: {
+        total: results.length,
+        successful,
+        failed: results.length - successful,
+        processing_time_ms: 0,
+      },
+    },
+  };
+}
+
+const ROUTES: Record<string, MockHandler> = {
+  "POST /api/v1/json/ubl": (req) => ({
+    kind: "text",
+    data: renderUbl(asInvoice(req.json())),
+    contentType: "application/xml",
+  }),
+  "POST /api/v1/json/cii": (req) => ({
+    kind: "text",
+    data: renderCii(asInvoice(req.json())),
+    contentType: "application/xml",
+  }),
+  "POST /api/v1/json/xlsx": () => ({
+    kind: "binary",
+    data: SAMPLE_XLSX,
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  }),
+  "POST /api/v1/json/zugferd": (req) => {
+    // Echo the source PDF back; the mock does not embed XML
+    const { file } = req.json() as { file?: { content?: string } };
+    return {
+      kind: "binary",
+      data: Buffer.from(file?.content ?? "", "base64"),
+      contentType: "application/pdf",
+    };
+  },
+  "POST /api/v1/ubl/json": () => ({ kind: "json", data: SAMPLE_INVOICE }),
+  "POST /api/v1/cii/json": () => ({ kind: "json", data: SAMPLE_INVOICE }),
+  "POST /api/v1/zugferd/json": () => ({ kind: "json", data: SAMPLE_INVOICE }),
+  "POST /api/v1/ubl/validate": (req) => validateXml(req.text()),
+  "POST /api/v1/cii/validate": (req) => validateXml(req.text()),
+  "POST /api/v1/xml/validate": (req) => validateXml(req.text()),
+  "POST /api/v1/file/json": () => ({ kind: "json", data: SAMPLE_INVOICE }),
+  "POST /api/v1/file/qr": () => ({ kind: "json", data: SAMPLE_QR }),
+  "POST /api/v1/batch/convert": handleBatch,
+  "GET /api/v1/user": () => ({ kind: "json", data: SAMPLE_USER }),
+};
+
+// ── Scenario handling ──
+
+function getScenario(req: IncomingMessage): MockScenario {
+  const header = req.headers["x-mock-scenario"];
+  const apiKey = req.headers["x-api-key"];
+  const requested =
+    typeof header === "string"
+      ? header
+      : typeof apiKey === "string" && apiKey.startsWith("mock-")
+        ? apiKey.slice("mock-".length)
+        : "ok";
+  return SCENARIOS.includes(requested as MockScenario) ? (requested as MockScenario) : "ok";
+}
+
+function scenarioResponse(scenario: MockScenario): MockResponse | undefined {
+  switch (scenario) {
+    case "400":
+      return { kind: "json", status: 400, data: BAD_REQUEST_BODY };
+    case "401":
+      return { kind: "json", status: 401, data: { statusCode: 401, message: "Unauthorized" } };
+    case "402":
+      return { kind: "json", status: 402, data: { statusCode: 402, message: "Payment Required" } };
+    case "429":
+      return {
+        kind: "json",
+        status: 429,
+        data: { statusCode: 429, message: "Too Many Requests" },
+        headers: { "Retry-After": "1" },
+      };
+    default:
+      return undefined;
+  }
+}
+
+function send(res: ServerResponse, response: MockResponse): void {
+  if (response.kind === "json") {
+    res.writeHead(response.status ?? 200, {
+      ...response.headers,
+      "Content-Type": "application/json",
+    });
+    res.end(JSON.stringify(response.data));
+    return;
+  }
+  res.writeHead(200, { "Content-Type": response.contentType });
+  res.end(response.data);
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const path = new URL(req.url ?? "/", "http://localhost").pathname;
+  const handler = ROUTES[`${req.method} ${path}`];
+  const body = await readBody(req);
+
+  if (!handler) {
+    send(res, { kind: "json", status: 404, data: { statusCode: 404, message: "Not Found" } });
+    return;
+  }
+  if (!req.headers["x-api-key"]) {
+    send(res, scenarioResponse("401")!);
+    return;
+  }
+
+  const scenario = getScenario(req);
+  if (scenario === "timeout") {
+    // Never answer; the client gives up after its own timeout
+    return;
+  }
+  const failure = scenarioResponse(scenario);
+  if (failure) {
+    send(res, failure);
+    return;
+  }
+
+  const mockReq: MockRequest = {
+    json: () => JSON.parse(body.toString("utf-8")),
+    text: () => body.toString("utf-8"),
+  };
+  try {
+    send(res, handler(mockReq));
+  } catch {
+    send(res, { kind: "json", status: 400, data: BAD_REQUEST_BODY });
+  }
+}
+
+/**
+ * Starts a local stand-in for the Invapi API that implements every endpoint
+ * the tools call and returns deterministic fixture responses. Point the MCP
+ * server at it with INVAPI_API_BASE_URL.
+ */
+export async function startMockServer(options: MockServerOptions): Promise<Server> {
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("Mock request failed:", error);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  return server;
+}
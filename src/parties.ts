@@ -0,0 +1,280 @@
+import type { Invoice, Party } from "./schemas.js";
+import type { XmlFormat } from "./xml.js";
+import type { SemanticInvoice, SemanticParty } from "./en16931/model.js";
+import {
+  CII_NS,
+  UBL_NS,
+  attributeOf,
+  contentOf,
+  element,
+  find,
+  findAll,
+  findPath,
+  insert,
+  prefixFor,
+  textOf,
+  type OrderedNode,
+} from "./xml-edit.js";
+
+// ── Party identifiers (BT-28..BT-34, BT-41, BT-45..BT-49, BT-56) ──
+//
+// Electronic addresses, legal and tax registrations, trading names and
+// contact names are added to generated XML where the API rendered none,
+// and read back into the Invoice JSON.
+
+type Role = "seller" | "buyer";
+
+// ── UBL ──
+
+/** cac:Party children in schema order */
+const UBL_PARTY_SEQUENCE = [
+  "MarkCareIndicator",
+  "MarkAttentionIndicator",
+  "WebsiteURI",
+  "LogoReferenceID",
+  "EndpointID",
+  "IndustryClassificationCode",
+  "PartyIdentification",
+  "PartyName",
+  "Language",
+  "PostalAddress",
+  "PhysicalLocation",
+  "PartyTaxScheme",
+  "PartyLegalEntity",
+  "Contact",
+  "Person",
+  "AgentParty",
+  "ServiceProviderParty",
+  "PowerOfAttorney",
+  "FinancialAccount",
+];
+
+/** Elements that follow `name` in `sequence` */
+function after(sequence: string[], name: string): string[] {
+  return sequence.slice(sequence.indexOf(name) + 1);
+}
+
+function applyUblParty(party: OrderedNode, data: Party, role: Role, cbc: string, cac: string): void {
+  const nodes = contentOf(party);
+
+  if (data.electronic_address && !find(nodes, "EndpointID")) {
+    const endpoint = element(`${cbc}EndpointID`, data.electronic_address.value, {
+      "@_schemeID": data.electronic_address.scheme_id,
+    });
+    insert(nodes, endpoint, after(UBL_PARTY_SEQUENCE, "EndpointID"));
+  }
+
+  if (data.trading_name && !find(nodes, "PartyName")) {
+    const partyName = element(`${cac}PartyName`, [element(`${cbc}Name`, data.trading_name)]);
+    insert(nodes, partyName, after(UBL_PARTY_SEQUENCE, "PartyName"));
+  }
+
+  const hasTaxRegistration = findAll(nodes, "PartyTaxScheme").some(
+    (scheme) => textOf(findPath(scheme, "TaxScheme", "ID")) !== "VAT"
+  );
+  if (role === "seller" && data.tax_registration_id && !hasTaxRegistration) {
+    const taxScheme = element(`${cac}PartyTaxScheme`, [
+      element(`${cbc}CompanyID`, data.tax_registration_id),
+      // FC = fiscal number, as used by XRechnung
+      element(`${cac}TaxScheme`, [element(`${cbc}ID`, "FC")]),
+    ]);
+    insert(nodes, taxScheme, after(UBL_PARTY_SEQUENCE, "PartyTaxScheme"));
+  }
+
+  if (data.legal_registration_id) {
+    const registration = data.legal_registration_id;
+    const companyId = element(
+      `${cbc}CompanyID`,
+      registration.id,
+      registration.scheme_id ? { "@_schemeID": registration.scheme_id } : undefined
+    );
+    const legalEntity = find(nodes, "PartyLegalEntity");
+    if (!legalEntity) {
+      const content = [element(`${cbc}RegistrationName`, data.name), companyId];
+      const newLegalEntity = element(`${cac}PartyLegalEntity`, content);
+      insert(nodes, newLegalEntity, after(UBL_PARTY_SEQUENCE, "PartyLegalEntity"));
+    } else if (!find(contentOf(legalEntity), "CompanyID")) {
+      insert(contentOf(legalEntity), companyId, [
+        "RegistrationDate",
+        "RegistrationExpirationDate",
+        "CompanyLegalFormCode",
+        "CompanyLegalForm",
+        "SoleProprietorshipIndicator",
+        "CompanyLiquidationStatusCode",
+        "CorporateStockAmount",
+        "FullyPaidSharesIndicator",
+        "RegistrationAddress",
+        "CorporateRegistrationScheme",
+        "HeadOfficeParty",
+        "ShareholderParty",
+      ]);
+    }
+  }
+
+  const contactName = data.contact?.name;
+  if (contactName) {
+    const contact = find(nodes, "Contact");
+    if (!contact) {
+      const newContact = element(`${cac}Contact`, [element(`${cbc}Name`, contactName)]);
+      insert(nodes, newContact, after(UBL_PARTY_SEQUENCE, "Contact"));
+    } else if (!find(contentOf(contact), "Name")) {
+      insert(contentOf(contact), element(`${cbc}Name`, contactName), [
+        "Telephone",
+        "Telefax",
+        "ElectronicMail",
+        "Note",
+        "OtherCommunication",
+      ]);
+    }
+  }
+}
+
+function applyUbl(root: OrderedNode, invoice: Invoice): void {
+  const cbc = prefixFor(root, UBL_NS.cbc, "cbc");
+  const cac = prefixFor(root, UBL_NS.cac, "cac");
+  const parties: Array<[string, Role]> = [
+    ["AccountingSupplierParty", "seller"],
+    ["AccountingCustomerParty", "buyer"],
+  ];
+  for (const [name, role] of parties) {
+    const party = findPath(root, name, "Party");
+    if (party) applyUblParty(party, invoice[role], role, cbc, cac);
+  }
+}
+
+// ── CII ──
+
+/** ram:*TradeParty children in schema order */
+const CII_PARTY_SEQUENCE = [
+  "ID",
+  "GlobalID",
+  "Name",
+  "RoleCode",
+  "Description",
+  "SpecifiedLegalOrganization",
+  "DefinedTradeContact",
+  "PostalTradeAddress",
+  "URIUniversalCommunication",
+  "SpecifiedTaxRegistration",
+];
+
+function applyCiiParty(party: OrderedNode, data: Party, role: Role, ram: string): void {
+  const nodes = contentOf(party);
+
+  if (data.legal_registration_id || data.trading_name) {
+    const registration = data.legal_registration_id;
+    const schemeId = registration?.scheme_id ? { "@_schemeID": registration.scheme_id } : undefined;
+    const id = registration && element(`${ram}ID`, registration.id, schemeId);
+    const tradingName = data.trading_name && element(`${ram}TradingBusinessName`, data.trading_name);
+    const organization = find(nodes, "SpecifiedLegalOrganization");
+    if (!organization) {
+      const content = [id, tradingName].filter((node): node is OrderedNode => Boolean(node));
+      const newOrganization = element(`${ram}SpecifiedLegalOrganization`, content);
+      insert(nodes, newOrganization, after(CII_PARTY_SEQUENCE, "SpecifiedLegalOrganization"));
+    } else {
+      const organizationNodes = contentOf(organization);
+      if (id && !find(organizationNodes, "ID")) {
+        insert(organizationNodes, id, ["TradingBusinessName", "PostalTradeAddress"]);
+      }
+      if (tradingName && !find(organizationNodes, "TradingBusinessName")) {
+        insert(organizationNodes, tradingName, ["PostalTradeAddress"]);
+      }
+    }
+  }
+
+  const contactName = data.contact?.name;
+  if (contactName) {
+    const personName = element(`${ram}PersonName`, contactName);
+    const contact = find(nodes, "DefinedTradeContact");
+    if (!contact) {
+      const newContact = element(`${ram}DefinedTradeContact`, [personName]);
+      insert(nodes, newContact, after(CII_PARTY_SEQUENCE, "DefinedTradeContact"));
+    } else if (!find(contentOf(contact), "PersonName")) {
+      insert(contentOf(contact), personName, [
+        "DepartmentName",
+        "TelephoneUniversalCommunication",
+        "FaxUniversalCommunication",
+        "EmailURIUniversalCommunication",
+      ]);
+    }
+  }
+
+  if (data.electronic_address && !find(nodes, "URIUniversalCommunication")) {
+    const uri = element(`${ram}URIID`, data.electronic_address.value, {
+      "@_schemeID": data.electronic_address.scheme_id,
+    });
+    const communication = element(`${ram}URIUniversalCommunication`, [uri]);
+    insert(nodes, communication, after(CII_PARTY_SEQUENCE, "URIUniversalCommunication"));
+  }
+
+  const hasTaxRegistration = findAll(nodes, "SpecifiedTaxRegistration").some(
+    (registration) => attributeOf(findPath(registration, "ID"), "schemeID") === "FC"
+  );
+  if (role === "seller" && data.tax_registration_id && !hasTaxRegistration) {
+    const registration = element(`${ram}SpecifiedTaxRegistration`, [
+      element(`${ram}ID`, data.tax_registration_id, { "@_schemeID": "FC" }),
+    ]);
+    insert(nodes, registration, []);
+  }
+}
+
+function applyCii(root: OrderedNode, invoice: Invoice): void {
+  const ram = prefixFor(root, CII_NS.ram, "ram");
+  const agreement = findPath(root, "SupplyChainTradeTransaction", "ApplicableHeaderTradeAgreement");
+  if (!agreement) return;
+  const parties: Array<[string, Role]> = [
+    ["SellerTradeParty", "seller"],
+    ["BuyerTradeParty", "buyer"],
+  ];
+  for (const [name, role] of parties) {
+    const party = find(contentOf(agreement), name);
+    if (party) applyCiiParty(party, invoice[role], role, ram);
+  }
+}
+
+// ── Public helpers ──
+
+/** Adds the parties' identifiers, trading names and contact names to generated UBL or CII XML that lacks them */
+export function applyParties(root: OrderedNode, format: XmlFormat, invoice: Invoice): void {
+  if (format === "cii") {
+    applyCii(root, invoice);
+  } else {
+    applyUbl(root, invoice);
+  }
+}
+
+function completeParty(party: Record<string, unknown>, model: SemanticParty, role: Role): Record<string, unknown> {
+  const completed = { ...party };
+  if (completed.trading_name === undefined && model.tradingName.value) {
+    completed.trading_name = model.tradingName.value;
+  }
+  if (completed.electronic_address === undefined && model.electronicAddress.value) {
+    completed.electronic_address = {
+      value: model.electronicAddress.value,
+      scheme_id: model.electronicAddressScheme.value ?? "",
+    };
+  }
+  if (completed.legal_registration_id === undefined && model.legalId.value) {
+    completed.legal_registration_id = { id: model.legalId.value, scheme_id: model.legalIdScheme.value };
+  }
+  if (role === "seller" && completed.tax_registration_id === undefined && model.taxRegistrationId.value) {
+    completed.tax_registration_id = model.taxRegistrationId.value;
+  }
+  const contact = (completed.contact ?? {}) as Record<string, unknown>;
+  if (contact.name === undefined && model.contactName.value) {
+    completed.contact = { ...contact, name: model.contactName.value };
+  }
+  return completed;
+}
+
+/** Fills the parties' identifiers of an Invoice JSON converted from XML when the API left them out */
+export function readParties(result: Record<string, unknown>, model: SemanticInvoice): Record<string, unknown> {
+  const completed = { ...result };
+  for (const role of ["seller", "buyer"] as const) {
+    const party = completed[role];
+    if (typeof party === "object" && party !== null) {
+      completed[role] = completeParty(party as Record<string, unknown>, model[role], role);
+    }
+  }
+  return completed;
+}
@@ -0,0 +1,298 @@
+import type { Invoice, Party, PaymentCode, PaymentCodeFormat, PaymentCodeParty } from "./schemas.js";
+import { encodeQr, qrToPng, qrToSvg, type QrOverlay } from "./qr-code.js";
+
+// ── Payment QR codes ──
+//
+// Payload text of the Swiss QR-bill (Swiss Payment Standards, SPC 2.x) and
+// of the EPC GiroCode (EPC069-12, SEPA credit transfer). Both are decoded
+// locally once the QR image has been read, and generated from an Invoice
+// for printing on outgoing invoices.
+
+const MAX_AMOUNT = 999_999_999.99;
+
+// ── Check digits ──
+
+/** ISO 7064 mod 97-10, as used by IBANs and ISO 11649 creditor references */
+function mod97(value: string): number {
+  const digits = value.toUpperCase().replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  return remainder;
+}
+
+function compact(value: string): string {
+  return value.replace(/\s+/g, "").toUpperCase();
+}
+
+export function isValidIban(iban: string): boolean {
+  const value = compact(iban);
+  return /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value) && mod97(value.slice(4) + value.slice(0, 4)) === 1;
+}
+
+/** QR-IBANs carry an institution ID of 30000–31999 and require a QR reference */
+function isQrIban(iban: string): boolean {
+  const iid = Number(compact(iban).slice(4, 9));
+  return iid >= 30000 && iid <= 31999;
+}
+
+/** ISO 11649 creditor reference, e.g. 'RF18539007547034' */
+function isCreditorReference(reference: string): boolean {
+  return /^RF\d{2}[A-Z0-9]{1,21}$/.test(reference) && mod97(reference.slice(4) + reference.slice(0, 4)) === 1;
+}
+
+const MOD10_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+/** 27-digit QR reference whose last digit is the recursive mod 10 check digit */
+function isQrReference(reference: string): boolean {
+  if (!/^\d{27}$/.test(reference)) return false;
+  let carry = 0;
+  for (const digit of reference.slice(0, 26)) carry = MOD10_TABLE[(carry + Number(digit)) % 10];
+  return (10 - carry) % 10 === Number(reference[26]);
+}
+
+// ── Decoding ──
+
+function optional(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function parseAmount(value: string | undefined): number | undefined {
+  const trimmed = optional(value);
+  if (trimmed === undefined) return undefined;
+  const amount = Number(trimmed);
+  if (!/^\d+(\.\d{1,2})?$/.test(trimmed) || amount > MAX_AMOUNT) throw new Error(`Invalid amount '${trimmed}'`);
+  return amount;
+}
+
+function toPaymentInformation(code: Omit<PaymentCode, "payment_information">): PaymentCode["payment_information"] {
+  return {
+    payment_type: "credit_transfer",
+    payment_account_number: code.iban,
+    payment_reference: code.reference ?? code.message,
+  };
+}
+
+const REFERENCE_TYPES = ["QRR", "SCOR", "NON"] as const;
+
+/** The seven lines of a Swiss QR-bill address, starting at `offset` */
+function swissAddress(lines: string[], offset: number): PaymentCodeParty | undefined {
+  const [type, name, line1, line2, postCode, city, country] = lines.slice(offset, offset + 7).map(optional);
+  if (!name) return undefined;
+  const structured = type !== "K";
+  return {
+    name,
+    address_line_1: structured ? [line1, line2].filter(Boolean).join(" ") || undefined : line1,
+    address_line_2: structured ? undefined : line2,
+    post_code: postCode,
+    city,
+    country_code: country,
+  };
+}
+
+function parseSwissQr(lines: string[]): PaymentCode {
+  if (!/^02\d\d$/.test(lines[1] ?? "")) throw new Error(`Unsupported Swiss QR-bill version '${lines[1]}'`);
+  if (lines[2] !== "1") throw new Error(`Unsupported Swiss QR-bill coding type '${lines[2]}'`);
+  if (lines[30]?.trim() !== "EPD") throw new Error("Incomplete Swiss QR-bill: the EPD trailer is missing");
+
+  const creditor = swissAddress(lines, 4);
+  if (!creditor) throw new Error("Invalid Swiss QR-bill: the creditor name is missing");
+  const referenceType = REFERENCE_TYPES.find((type) => type === (optional(lines[27]) ?? "NON"));
+  if (!referenceType) throw new Error(`Invalid Swiss QR-bill reference type '${lines[27]}'`);
+  const code = {
+    format: "swiss_qr" as const,
+    iban: compact(lines[3] ?? ""),
+    amount: parseAmount(lines[18]),
+    currency: optional(lines[19]) ?? "CHF",
+    creditor,
+    debtor: swissAddress(lines, 20),
+    reference_type: referenceType,
+    reference: optional(lines[28]),
+    message: optional(lines[29]),
+    bill_information: optional(lines[31]),
+  };
+  return { ...code, payment_information: toPaymentInformation(code) };
+}
+
+function parseEpc(lines: string[]): PaymentCode {
+  if (lines[1] !== "001" && lines[1] !== "002") throw new Error(`Unsupported EPC QR code version '${lines[1]}'`);
+  if (lines[3] !== "SCT" && lines[3] !== "INST") throw new Error(`Unsupported EPC identification '${lines[3]}'`);
+  const name = optional(lines[5]);
+  if (!name) throw new Error("Invalid EPC QR code: the beneficiary name is missing");
+
+  const amountText = optional(lines[7]);
+  const amountMatch = amountText ? /^([A-Z]{3})(.*)$/.exec(amountText) : null;
+  if (amountText && !amountMatch) throw new Error(`Invalid EPC amount '${amountText}'`);
+  const reference = optional(lines[9]);
+  const code = {
+    format: "epc" as const,
+    iban: compact(lines[6] ?? ""),
+    bic: optional(lines[4]),
+    amount: parseAmount(amountMatch?.[2]),
+    currency: amountMatch?.[1] ?? "EUR",
+    creditor: { name },
+    reference_type: reference ? ("SCOR" as const) : ("NON" as const),
+    reference,
+    message: optional(lines[10]),
+  };
+  return { ...code, payment_information: toPaymentInformation(code) };
+}
+
+/** Decodes the text of a Swiss QR-bill or EPC GiroCode. Throws if it is neither or malformed. */
+export function parsePaymentCode(payload: string): PaymentCode {
+  const lines = payload.replace(/^\uFEFF/, "").split(/\r?\n|\r/);
+  const header = lines[0]?.trim();
+  const code = header === "SPC" ? parseSwissQr(lines) : header === "BCD" ? parseEpc(lines) : undefined;
+  if (!code) throw new Error("Not a Swiss QR-bill (SPC) or EPC GiroCode (BCD) payload");
+  if (!isValidIban(code.iban)) throw new Error(`Invalid IBAN '${code.iban}' in the payment code`);
+  return code;
+}
+
+export function isPaymentCodePayload(text: string): boolean {
+  return /^\uFEFF?(SPC|BCD)\r?\n/.test(text);
+}
+
+// ── Generation ──
+
+/** Swiss QR-bill for Swiss and Liechtenstein accounts, EPC GiroCode otherwise */
+export function defaultPaymentCodeFormat(invoice: Invoice): PaymentCodeFormat {
+  const iban = compact(invoice.payment_information.payment_account_number ?? "");
+  return /^(CH|LI)/.test(iban) ? "swiss_qr" : "epc";
+}
+
+interface Remittance {
+  type: PaymentCode["reference_type"];
+  reference?: string;
+  message?: string;
+}
+
+/** payment_reference as a structured reference when it is one, otherwise as the message */
+function remittance(invoice: Invoice, qrIban: boolean, problems: string[]): Remittance {
+  const given = invoice.payment_information.payment_reference;
+  const reference = given ? compact(given) : "";
+  if (qrIban) {
+    if (isQrReference(reference)) return { type: "QRR", reference };
+    problems.push("a QR-IBAN requires a 27-digit QR reference with check digit in payment_reference");
+    return { type: "QRR" };
+  }
+  if (isCreditorReference(reference)) return { type: "SCOR", reference };
+  return { type: "NON", message: given?.trim() || invoice.invoice_number };
+}
+
+function checkLength(problems: string[], label: string, value: string | undefined, max: number): void {
+  if (value && value.length > max) problems.push(`${label} is longer than ${max} characters`);
+}
+
+function amountDue(invoice: Invoice, problems: string[]): string {
+  const amount = invoice.totals.amount_due_for_payment;
+  if (amount > MAX_AMOUNT) problems.push(`amount_due_for_payment exceeds ${MAX_AMOUNT}`);
+  return amount > 0 ? amount.toFixed(2) : "";
+}
+
+/** Address lines left empty, such as the ultimate creditor reserved for future use */
+const EMPTY_ADDRESS = ["", "", "", "", "", "", ""];
+
+function swissAddressLines(party: Party | undefined, label: string, problems: string[]): string[] {
+  const address = party?.postal_address;
+  if (!party?.name || !address?.post_code || !address.city || !address.country_code) {
+    if (label === "seller") problems.push("the seller needs a name, post code, city and country code");
+    return EMPTY_ADDRESS;
+  }
+  checkLength(problems, `${label}.name`, party.name, 70);
+  checkLength(problems, `${label}.postal_address.address_line_1`, address.address_line_1, 70);
+  checkLength(problems, `${label}.postal_address.post_code`, address.post_code, 16);
+  checkLength(problems, `${label}.postal_address.city`, address.city, 35);
+  return ["S", party.name, address.address_line_1 ?? "", "", address.post_code, address.city, address.country_code];
+}
+
+/** YYMMDD, as Swico bill information writes dates */
+function swicoDate(date: string): string {
+  return date.replace(/-/g, "").slice(2);
+}
+
+function swicoValue(value: string): string {
+  return value.replace(/[\\/]/g, (char) => `\\${char}`);
+}
+
+function swissQrPayload(invoice: Invoice, iban: string, problems: string[]): string {
+  if (!/^(CH|LI)/.test(iban)) problems.push("a Swiss QR-bill needs a Swiss or Liechtenstein IBAN");
+  const currency = invoice.invoice_currency_code;
+  if (currency !== "CHF" && currency !== "EUR") problems.push("a Swiss QR-bill must be in CHF or EUR");
+
+  const { type, reference, message } = remittance(invoice, isQrIban(iban), problems);
+  const billInformation = `//S1/10/${swicoValue(invoice.invoice_number)}/11/${swicoDate(invoice.invoice_date)}`;
+  if ((message ?? "").length + billInformation.length > 140) {
+    problems.push("the message and bill information together are longer than 140 characters");
+  }
+  return [
+    "SPC",
+    "0200",
+    "1",
+    iban,
+    ...swissAddressLines(invoice.seller, "seller", problems),
+    ...EMPTY_ADDRESS,
+    amountDue(invoice, problems),
+    currency,
+    ...swissAddressLines(invoice.buyer, "buyer", problems),
+    type,
+    reference ?? "",
+    message ?? "",
+    "EPD",
+    billInformation,
+  ].join("\n");
+}
+
+function epcPayload(invoice: Invoice, iban: string, problems: string[]): string {
+  if (invoice.invoice_currency_code !== "EUR") problems.push("an EPC GiroCode must be in EUR");
+  checkLength(problems, "seller.name", invoice.seller.name, 70);
+  const { reference, message } = remittance(invoice, false, problems);
+  checkLength(problems, "the remittance text", message, 140);
+  const amount = amountDue(invoice, problems);
+
+  // Version 002 makes the BIC optional; the purpose code is left empty
+  const lines = ["BCD", "002", "1", "SCT", "", invoice.seller.name, iban, amount && `EUR${amount}`, ""];
+  lines.push(reference ?? "");
+  if (message) lines.push(message);
+  const payload = lines.join("\n");
+  if (Buffer.byteLength(payload, "utf-8") > 331) problems.push("the payload is longer than 331 bytes");
+  return payload;
+}
+
+/** Payload text of a Swiss QR-bill or EPC GiroCode paying `invoice`. Throws listing what is missing. */
+export function paymentCodePayload(invoice: Invoice, format: PaymentCodeFormat): string {
+  const problems: string[] = [];
+  const iban = compact(invoice.payment_information.payment_account_number ?? "");
+  if (!isValidIban(iban)) problems.push("payment_information.payment_account_number must be a valid IBAN");
+
+  const payload =
+    format === "swiss_qr" ? swissQrPayload(invoice, iban, problems) : epcPayload(invoice, iban, problems);
+  if (problems.length) {
+    const name = format === "swiss_qr" ? "Swiss QR-bill" : "EPC GiroCode";
+    throw new Error(`Cannot create a ${name}: ${problems.join("; ")}`);
+  }
+  return payload;
+}
+
+// ── Images ──
+
+/**
+ * The Swiss cross in the centre of a QR-bill code: 7 × 7 mm on a 46 × 46 mm
+ * code, a black square with a white cross inside a white border.
+ */
+function swissCross(size: number): QrOverlay[] {
+  const mm = size / 46;
+  const centred = (width: number, height: number, dark: boolean): QrOverlay => ({
+    x: (size - width * mm) / 2,
+    y: (size - height * mm) / 2,
+    width: width * mm,
+    height: height * mm,
+    dark,
+  });
+  return [centred(7, 7, false), centred(6, 6, true), centred(3.75, 1.125, false), centred(1.125, 3.75, false)];
+}
+
+export function paymentCodeImage(payload: string, format: PaymentCodeFormat, imageFormat: "svg" | "png"): Buffer {
+  const modules = encodeQr(payload);
+  const overlays = format === "swiss_qr" ? swissCross(modules.length) : [];
+  return imageFormat === "svg" ? Buffer.from(qrToSvg(modules, overlays), "utf-8") : qrToPng(modules, overlays);
+}
@@ -0,0 +1,181 @@
+import type { ProfileId } from "./schemas.js";
+import type { XmlFormat } from "./xml.js";
+import type { SemanticInvoice } from "./en16931/model.js";
+import {
+  CII_NS,
+  UBL_NS,
+  contentOf,
+  element,
+  find,
+  insert,
+  localName,
+  prefixFor,
+  setText,
+  type OrderedNode,
+} from "./xml-edit.js";
+
+// ── Profiles (BT-23, BT-24) ──
+//
+// A profile fixes the specification identifier and business process of
+// generated XML and selects the rule set a document is validated against.
+// The API renders its default profile; the chosen one is set afterwards.
+
+export interface Profile {
+  id: ProfileId;
+  title: string;
+  /** BT-24 */
+  specificationId: string;
+  /** BT-23 */
+  businessProcess?: string;
+  syntaxes: XmlFormat[];
+  /** MINIMUM and BASIC WL documents are not complete EN 16931 invoices */
+  en16931: boolean;
+}
+
+const PEPPOL_BILLING = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
+
+export const PROFILES: Record<ProfileId, Profile> = {
+  en16931: {
+    id: "en16931",
+    title: "EN 16931",
+    specificationId: "urn:cen.eu:en16931:2017",
+    syntaxes: ["ubl", "cii"],
+    en16931: true,
+  },
+  xrechnung: {
+    id: "xrechnung",
+    title: "XRechnung 3.0",
+    specificationId: "urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0",
+    businessProcess: PEPPOL_BILLING,
+    syntaxes: ["ubl", "cii"],
+    en16931: true,
+  },
+  peppol: {
+    id: "peppol",
+    title: "Peppol BIS Billing 3.0",
+    specificationId: "urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0",
+    businessProcess: PEPPOL_BILLING,
+    syntaxes: ["ubl"],
+    en16931: true,
+  },
+  "factur-x-minimum": {
+    id: "factur-x-minimum",
+    title: "Factur-X / ZUGFeRD MINIMUM",
+    specificationId: "urn:factur-x.eu:1p0:minimum",
+    syntaxes: ["cii"],
+    en16931: false,
+  },
+  "factur-x-basic-wl": {
+    id: "factur-x-basic-wl",
+    title: "Factur-X / ZUGFeRD BASIC WL",
+    specificationId: "urn:factur-x.eu:1p0:basicwl",
+    syntaxes: ["cii"],
+    en16931: false,
+  },
+  "factur-x-basic": {
+    id: "factur-x-basic",
+    title: "Factur-X / ZUGFeRD BASIC",
+    specificationId: "urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic",
+    syntaxes: ["cii"],
+    en16931: true,
+  },
+  "factur-x-extended": {
+    id: "factur-x-extended",
+    title: "Factur-X / ZUGFeRD EXTENDED",
+    specificationId: "urn:cen.eu:en16931:2017#conformant#urn:factur-x.eu:1p0:extended",
+    syntaxes: ["cii"],
+    en16931: true,
+  },
+};
+
+/** Earlier XRechnung versions share the prefix */
+const XRECHNUNG_PREFIX = "urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_";
+
+/** Identifiers used by ZUGFeRD 2.0 before it was aligned with Factur-X */
+const SPECIFICATION_ALIASES: Record<string, ProfileId> = {
+  "urn:zugferd.de:2p0:minimum": "factur-x-minimum",
+  "urn:zugferd.de:2p0:basicwl": "factur-x-basic-wl",
+  "urn:cen.eu:en16931:2017:compliant:factur-x.eu:1p0:basic": "factur-x-basic",
+  "urn:cen.eu:en16931:2017:conformant:factur-x.eu:1p0:extended": "factur-x-extended",
+};
+
+/** The profile a specification identifier (BT-24) claims, if it is a known one */
+export function profileOf(specificationId: string | undefined): ProfileId | undefined {
+  if (!specificationId) return undefined;
+  if (specificationId.startsWith(XRECHNUNG_PREFIX)) return "xrechnung";
+  const profile = Object.values(PROFILES).find((p) => p.specificationId === specificationId);
+  return profile?.id ?? SPECIFICATION_ALIASES[specificationId];
+}
+
+/** Explains why a profile cannot be produced in `format`, or undefined when it can */
+export function unsupportedSyntax(profile: ProfileId, format: XmlFormat): string | undefined {
+  const { title, syntaxes } = PROFILES[profile];
+  if (syntaxes.includes(format)) return undefined;
+  const defined = syntaxes.map((syntax) => syntax.toUpperCase()).join(" and ");
+  return `${title} is only defined for ${defined}, not ${format.toUpperCase()}`;
+}
+
+// ── XML ──
+
+/** Sets the text of the element `name` in `nodes`, inserting it before `following` when missing */
+function setElement(nodes: OrderedNode[], name: string, value: string, following: string[]): void {
+  const existing = find(nodes, localName(name));
+  if (existing) {
+    setText(existing, value);
+  } else {
+    insert(nodes, element(name, value), following);
+  }
+}
+
+function applyUbl(root: OrderedNode, profile: Profile): void {
+  const cbc = prefixFor(root, UBL_NS.cbc, "cbc");
+  const nodes = contentOf(root);
+  setElement(nodes, `${cbc}CustomizationID`, profile.specificationId, ["ProfileID", "ProfileExecutionID", "ID"]);
+  if (profile.businessProcess) {
+    setElement(nodes, `${cbc}ProfileID`, profile.businessProcess, ["ProfileExecutionID", "ID"]);
+  }
+}
+
+/** Sets the ID of a CII document context parameter, creating it before `following` when missing */
+function setContextParameter(
+  context: OrderedNode[],
+  ram: string,
+  name: string,
+  value: string,
+  following: string[]
+): void {
+  const parameter = find(context, name);
+  if (parameter) {
+    setElement(contentOf(parameter), `${ram}ID`, value, []);
+  } else {
+    insert(context, element(`${ram}${name}`, [element(`${ram}ID`, value)]), following);
+  }
+}
+
+function applyCii(root: OrderedNode, profile: Profile): void {
+  const ram = prefixFor(root, CII_NS.ram, "ram");
+  const context = find(contentOf(root), "ExchangedDocumentContext");
+  if (!context) return;
+  const nodes = contentOf(context);
+  const guideline = "GuidelineSpecifiedDocumentContextParameter";
+  if (profile.businessProcess) {
+    const businessProcess = "BusinessProcessSpecifiedDocumentContextParameter";
+    setContextParameter(nodes, ram, businessProcess, profile.businessProcess, [guideline]);
+  }
+  setContextParameter(nodes, ram, guideline, profile.specificationId, []);
+}
+
+/** Sets the specification identifier and business process of generated UBL or CII XML */
+export function applyProfile(root: OrderedNode, format: XmlFormat, profile: ProfileId): void {
+  if (format === "cii") {
+    applyCii(root, PROFILES[profile]);
+  } else {
+    applyUbl(root, PROFILES[profile]);
+  }
+}
+
+/** Fills profile of an Invoice JSON converted from XML with the profile the document claims */
+export function readProfile(result: Record<string, unknown>, model: SemanticInvoice): Record<string, unknown> {
+  const claimed = profileOf(model.specificationId?.value);
+  return result.profile !== undefined || !claimed ? result : { ...result, profile: claimed };
+}
@@ -0,0 +1,145 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// ── Guided workflows ──
+//
+// Prompts only produce instructions; all work is done by the invapi_* tools,
+// so each prompt spells out which tools to call, in which order, and when to
+// stop and ask the user.
+
+function userMessage(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+function steps(lines: string[]): string {
+  return lines.map((line, i) => `${i + 1}. ${line}`).join("\n");
+}
+
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "create_xrechnung",
+    {
+      title: "Create an XRechnung for a German public authority",
+      description:
+        "Builds an EN 16931 invoice addressed to a German public authority, with the buyer's Leitweg-ID, " +
+        "checks it and exports it as UBL XML.",
+      argsSchema: {
+        leitweg_id: z.string().describe("Leitweg-ID of the receiving authority, e.g. '991-12345-67'"),
+        invoice_details: z
+          .string()
+          .optional()
+          .describe("Seller, buyer, line items and dates, as free text or a path to an Invoice JSON file"),
+        output_path: z.string().optional().describe("Where to save the XRechnung XML"),
+      },
+    },
+    ({ leitweg_id, invoice_details, output_path }) =>
+      userMessage(
+        `Create an XRechnung (EN 16931 UBL invoice) for a German public authority with Leitweg-ID ${leitweg_id}.\n\n` +
+          (invoice_details
+            ? `Invoice details:\n${invoice_details}\n\n`
+            : "Ask me for the seller, buyer, line items, invoice number and dates before you start.\n\n") +
+          steps([
+            "Read the resource invapi://schemas/invoice and build an Invoice JSON object. " +
+              `Set invoice_type to "outgoing", profile to "xrechnung" and ` +
+              `additional_data.leitweg_id to "${leitweg_id}". ` +
+              "Use ISO 4217, ISO 3166 and UN/ECE Rec 20 codes from the invapi://code-lists/* resources; " +
+              "never invent codes.",
+            "XRechnung requires a seller contact with telephone and email, and a payment_account_number " +
+              "(IBAN) for credit transfers. Ask me for anything missing instead of making it up.",
+            "Call invapi_check_invoice and fix every error it reports. Ask me before changing amounts.",
+            "Call invapi_validate_json and fix the reported business-rule violations, including the BR-DE rules.",
+            "Call invapi_convert_json_to_ubl" +
+              (output_path ? ` with output_path "${output_path}".` : ".") +
+              " Do not pass skip_checks.",
+            "Call invapi_validate_ubl with mode \"both\" on the result. If it fails, map each issue's field " +
+              "back to the Invoice JSON, fix it and repeat steps 3–5.",
+            "Summarise the invoice (number, buyer, totals) and where the XML was saved.",
+          ])
+      )
+  );
+
+  server.registerPrompt(
+    "process_supplier_invoice",
+    {
+      title: "Process an incoming supplier invoice",
+      description:
+        "Extracts a supplier's PDF or image invoice, checks and validates the data, and exports it for " +
+        "bookkeeping.",
+      argsSchema: {
+        file_path: z.string().describe("Path to the supplier's PDF or image invoice"),
+        output_format: z
+          .enum(["ubl", "cii", "xlsx", "json"])
+          .optional()
+          .describe("Export format (default: ubl)"),
+        output_path: z.string().optional().describe("Where to save the export"),
+      },
+    },
+    ({ file_path, output_format = "ubl", output_path }) => {
+      const exportStep: Record<typeof output_format, string> = {
+        ubl: "Call invapi_convert_json_to_ubl, then invapi_validate_ubl with mode \"both\" on the result.",
+        cii: "Call invapi_convert_json_to_cii, then invapi_validate_cii with mode \"both\" on the result.",
+        xlsx: "Call invapi_convert_json_to_xlsx with the invoice as a one-element array.",
+        json: output_path ? `Save the final Invoice JSON to ${output_path}.` : "Show me the final Invoice JSON.",
+      };
+
+      return userMessage(
+        `Process the incoming supplier invoice at ${file_path} and export it as ${output_format.toUpperCase()}` +
+          (output_path ? ` to ${output_path}` : "") +
+          ".\n\n" +
+          steps([
+            `Call invapi_extract_invoice with file_path "${file_path}", qr true and the instruction ` +
+              "\"This is an incoming invoice\".",
+            "Show me the seller, invoice number, date, currency and totals, and flag any field that looks " +
+              "uncertain or empty.",
+            "Call invapi_check_invoice on the extracted JSON. Extraction can misread amounts, so for every " +
+              "arithmetic error ask me which value on the document is correct rather than recalculating.",
+            "Call invapi_validate_json and report business-rule violations. Fix only what the document " +
+              "itself supports.",
+            exportStep[output_format] +
+              (output_path && output_format !== "json" ? ` Use output_path "${output_path}".` : ""),
+            "Summarise what was extracted, what was corrected and where the export was saved.",
+          ])
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "fix_xml_invoice",
+    {
+      title: "Fix a failing XML invoice",
+      description:
+        "Validates a UBL or CII invoice, explains each failed business rule and produces a corrected " +
+        "document.",
+      argsSchema: {
+        file_path: z.string().describe("Path to the UBL or CII XML invoice that fails validation"),
+        output_path: z
+          .string()
+          .optional()
+          .describe("Where to save the corrected XML (default: next to the input, with a .fixed.xml suffix)"),
+      },
+    },
+    ({ file_path, output_path }) => {
+      const target = output_path ?? file_path.replace(/(\.xml)?$/i, ".fixed.xml");
+      return userMessage(
+        `The XML invoice at ${file_path} fails validation. Find out why and produce a corrected version at ` +
+          `${target}.\n\n` +
+          steps([
+            `Call invapi_validate_xml with file_path "${file_path}" and mode "both". Note the detected ` +
+              "format (UBL or CII) and each issue's rule, location and field.",
+            "Explain every error in plain language, grouped by rule.",
+            "Convert the document to Invoice JSON with invapi_convert_ubl_to_json or " +
+              "invapi_convert_cii_to_json, matching the detected format.",
+            "Fix the fields named in the issues' field paths. Where the correct value cannot be derived " +
+              "from the document itself (e.g. a missing buyer reference), ask me.",
+            "Call invapi_check_invoice and invapi_validate_json on the corrected JSON until both pass.",
+            `Convert back to the original format with invapi_convert_json_to_ubl or invapi_convert_json_to_cii ` +
+              `and output_path "${target}".`,
+            "Validate the new file with invapi_validate_xml, mode \"both\".",
+            "List each change you made. Warn me that elements without an Invoice JSON equivalent are not " +
+              "carried over, and compare the original and corrected documents for anything that was dropped.",
+          ])
+      );
+    }
+  );
+}
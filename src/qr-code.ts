@@ -0,0 +1,451 @@
+import { deflateSync } from "node:zlib";
+
+// ── QR code encoder ──
+//
+// Encodes text in byte mode (UTF-8) at error correction level M, which both
+// the Swiss QR-bill and the EPC GiroCode prescribe, and renders the symbol
+// as SVG or PNG. Follows ISO/IEC 18004; only the parts needed for byte mode
+// at one error correction level are implemented.
+
+/** Dark (true) and light modules, indexed [y][x] */
+export type QrMatrix = boolean[][];
+
+/** A filled rectangle drawn over the symbol, in module units */
+export interface QrOverlay {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  dark: boolean;
+}
+
+// ── Tables for error correction level M, indexed by version ──
+
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+/** Format information bits of level M */
+const LEVEL_M = 0;
+
+const MAX_VERSION = 40;
+
+// ── Capacity ──
+
+/** Modules available for data and error correction, after function patterns */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+}
+
+/** Bits used by the mode indicator, character count and data */
+function byteModeBits(length: number, version: number): number {
+  return 4 + (version <= 9 ? 8 : 16) + length * 8;
+}
+
+// ── Reed-Solomon ──
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => (result[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return result;
+}
+
+// ── Codewords ──
+
+function encodeData(bytes: Buffer, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  for (const byte of bytes) append(byte, 8);
+
+  const capacity = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+}
+
+/** Splits the data into blocks, appends their error correction and interleaves them */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = rsDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = rsRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // The padding byte of short blocks is not part of the symbol
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+// ── Symbol ──
+
+interface Grid {
+  version: number;
+  size: number;
+  modules: QrMatrix;
+  /** Modules of function patterns, which carry no data and are not masked */
+  reserved: boolean[][];
+}
+
+function createGrid(version: number): Grid {
+  const size = version * 4 + 17;
+  const blank = () => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  return { version, size, modules: blank(), reserved: blank() };
+}
+
+function setFunction(grid: Grid, x: number, y: number, dark: boolean): void {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+}
+
+function drawFinder(grid: Grid, x: number, y: number): void {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const distance = Math.max(Math.abs(dx), Math.abs(dy));
+      const xx = x + dx;
+      const yy = y + dy;
+      if (xx >= 0 && xx < grid.size && yy >= 0 && yy < grid.size) {
+        setFunction(grid, xx, yy, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+}
+
+function alignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < count; position -= step) result.splice(1, 0, position);
+  return result;
+}
+
+function drawFormatBits(grid: Grid, mask: number): void {
+  const data = (LEVEL_M << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+  const { size } = grid;
+
+  for (let i = 0; i <= 5; i++) setFunction(grid, 8, i, bit(i));
+  setFunction(grid, 8, 7, bit(6));
+  setFunction(grid, 8, 8, bit(7));
+  setFunction(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunction(grid, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) setFunction(grid, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunction(grid, 8, size - 15 + i, bit(i));
+  setFunction(grid, 8, size - 8, true);
+}
+
+function drawVersion(grid: Grid): void {
+  if (grid.version < 7) return;
+  let remainder = grid.version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (grid.version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) !== 0;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunction(grid, a, b, dark);
+    setFunction(grid, b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(grid: Grid): void {
+  for (let i = 0; i < grid.size; i++) {
+    setFunction(grid, 6, i, i % 2 === 0);
+    setFunction(grid, i, 6, i % 2 === 0);
+  }
+  drawFinder(grid, 3, 3);
+  drawFinder(grid, grid.size - 4, 3);
+  drawFinder(grid, 3, grid.size - 4);
+
+  const positions = alignmentPositions(grid.version, grid.size);
+  const last = positions.length - 1;
+  positions.forEach((x, i) =>
+    positions.forEach((y, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(grid, x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    })
+  );
+
+  // Reserve the format areas; the bits are written once the mask is known
+  drawFormatBits(grid, 0);
+  drawVersion(grid);
+}
+
+/** Places the codewords in the zigzag order, two columns at a time from the bottom right */
+function drawCodewords(grid: Grid, codewords: number[]): void {
+  let i = 0;
+  for (let right = grid.size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < grid.size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? grid.size - 1 - vertical : vertical;
+        if (!grid.reserved[y][x] && i < codewords.length * 8) {
+          grid.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(grid: Grid, mask: number): void {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && maskApplies(mask, x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// ── Mask selection ──
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/** Penalty score of ISO/IEC 18004 section 7.8.3; the mask with the lowest score is used */
+function penalty(modules: QrMatrix): number {
+  const size = modules.length;
+  const at = (x: number, y: number, vertical: boolean) => (vertical ? modules[x][y] : modules[y][x]);
+  let score = 0;
+
+  for (const vertical of [false, true]) {
+    for (let y = 0; y < size; y++) {
+      let run = 1;
+      for (let x = 1; x <= size; x++) {
+        if (x < size && at(x, y, vertical) === at(x - 1, y, vertical)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += 3 + (run - 5);
+        run = 1;
+      }
+      for (let x = 0; x + 11 <= size; x++) {
+        if (FINDER_LIKE.some((pattern) => pattern.every((dark, i) => at(x + i, y, vertical) === dark))) score += 40;
+      }
+    }
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (
+        x + 1 < size &&
+        y + 1 < size &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+}
+
+// ── Public API ──
+
+/** Encodes `text` as UTF-8 in the smallest QR code version that holds it, at level M */
+export function encodeQr(text: string): QrMatrix {
+  const bytes = Buffer.from(text, "utf-8");
+  let version = 1;
+  while (version <= MAX_VERSION && byteModeBits(bytes.length, version) > dataCodewords(version) * 8) version++;
+  if (version > MAX_VERSION) throw new Error(`The text is too long for a QR code (${bytes.length} bytes)`);
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  let best: { modules: QrMatrix; score: number } | undefined;
+  for (let mask = 0; mask < 8; mask++) {
+    const grid = createGrid(version);
+    drawFunctionPatterns(grid);
+    drawCodewords(grid, codewords);
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const score = penalty(grid.modules);
+    if (!best || score < best.score) best = { modules: grid.modules, score };
+  }
+  return (best as { modules: QrMatrix }).modules;
+}
+
+// ── Rendering ──
+
+/** Light modules around the symbol, as ISO/IEC 18004 requires */
+const QUIET_ZONE = 4;
+
+function format(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/** SVG with one unit per module; the image scales to any print size */
+export function qrToSvg(modules: QrMatrix, overlays: QrOverlay[] = []): string {
+  const size = modules.length + QUIET_ZONE * 2;
+  const path: string[] = [];
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+    })
+  );
+  const rects = overlays.map(
+    (o) =>
+      `<rect x="${format(o.x + QUIET_ZONE)}" y="${format(o.y + QUIET_ZONE)}" width="${format(o.width)}" ` +
+      `height="${format(o.height)}" fill="${o.dark ? "#000" : "#fff"}"/>`
+  );
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${path.join("")}" fill="#000"/>` +
+    `${rects.join("")}</svg>`
+  );
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 8-bit greyscale PNG with `scale` pixels per module */
+export function qrToPng(modules: QrMatrix, overlays: QrOverlay[] = [], scale = 10): Buffer {
+  const width = (modules.length + QUIET_ZONE * 2) * scale;
+  const pixels = Buffer.alloc(width * width, 0xff);
+  const fill = ({ x, y, width: w, height: h, dark }: QrOverlay) => {
+    const from = Math.round((x + QUIET_ZONE) * scale);
+    const top = Math.round((y + QUIET_ZONE) * scale);
+    const to = Math.round((x + QUIET_ZONE + w) * scale);
+    const bottom = Math.round((y + QUIET_ZONE + h) * scale);
+    for (let py = top; py < bottom; py++) pixels.fill(dark ? 0x00 : 0xff, py * width + from, py * width + to);
+  };
+  modules.forEach((row, y) => row.forEach((dark, x) => dark && fill({ x, y, width: 1, height: 1, dark })));
+  overlays.forEach(fill);
+
+  // Each scanline starts with filter type 0 (none)
+  const raw = Buffer.alloc((width + 1) * width);
+  for (let y = 0; y < width; y++) pixels.copy(raw, y * (width + 1) + 1, y * width, (y + 1) * width);
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(width, 4);
+  header[8] = 8;
+  header[9] = 0;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
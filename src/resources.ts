@@ -0,0 +1,121 @@
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { InvoiceSchema } from "./schemas.js";
+import { CODE_LISTS, getCodeList } from "./code-lists.js";
+
+const INVOICE_SCHEMA_URI = "invapi://schemas/invoice";
+
+/** Matches codes case-insensitively so 'kgm' finds KGM */
+function findCode(codes: Record<string, string>, code: string): string | undefined {
+  if (Object.hasOwn(codes, code)) return code;
+  const upper = code.toUpperCase();
+  return Object.hasOwn(codes, upper) ? upper : undefined;
+}
+
+export function registerResources(server: McpServer): void {
+  // ── Invoice JSON Schema ──
+
+  server.registerResource(
+    "invoice-schema",
+    INVOICE_SCHEMA_URI,
+    {
+      title: "Invoice JSON Schema",
+      description: "JSON Schema of the Invoice JSON accepted and returned by the conversion and extraction tools",
+      mimeType: "application/schema+json",
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/schema+json",
+          text: JSON.stringify(
+            { title: "Invoice", ...zodToJsonSchema(InvoiceSchema, { $refStrategy: "none" }) },
+            null,
+            2
+          ),
+        },
+      ],
+    })
+  );
+
+  // ── Code lists ──
+
+  for (const list of CODE_LISTS) {
+    server.registerResource(
+      `code-list-${list.id}`,
+      `invapi://code-lists/${list.id}`,
+      {
+        title: list.title,
+        description: `${list.description}. ${Object.keys(list.codes).length} codes.`,
+        mimeType: "application/json",
+      },
+      async (uri) => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                title: list.title,
+                codes: Object.entries(list.codes).map(([code, name]) => ({ code, name })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      })
+    );
+  }
+
+  // ── Single code lookup ──
+
+  server.registerResource(
+    "code-lookup",
+    new ResourceTemplate("invapi://code-lists/{list}/{code}", {
+      list: undefined,
+      complete: {
+        list: (value) => CODE_LISTS.map((list) => list.id).filter((id) => id.startsWith(value)),
+        code: (value, context) => {
+          const list = getCodeList(context?.arguments?.list ?? "");
+          if (!list) return [];
+          const prefix = value.toUpperCase();
+          return Object.keys(list.codes)
+            .filter((code) => code.startsWith(prefix))
+            .slice(0, 100);
+        },
+      },
+    }),
+    {
+      title: "Code lookup",
+      description:
+        "Looks up a single code, e.g. invapi://code-lists/units/HUR. " +
+        `Lists: ${CODE_LISTS.map((list) => list.id).join(", ")}`,
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const listId = String(variables.list);
+      const code = decodeURIComponent(String(variables.code));
+      const list = getCodeList(listId);
+      if (!list) {
+        throw new Error(
+          `Unknown code list '${listId}'. Available: ${CODE_LISTS.map((l) => l.id).join(", ")}`
+        );
+      }
+
+      const match = findCode(list.codes, code);
+      if (!match) {
+        throw new Error(`'${code}' is not a valid code in ${list.title}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({ list: list.id, code: match, name: list.codes[match] }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,128 @@
+import axios from "axios";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { setTimeout as sleep } from "node:timers/promises";
+
+// ── Retry policy ──
+//
+// 429 responses are always retried: the API rejected the request before
+// doing any work. Transient 5xx responses and connection resets are only
+// retried for idempotent calls, since the request may already have been
+// processed (and charged) once.
+
+const RETRYABLE_STATUSES = new Set([408, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"]);
+
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (INVAPI_RETRY_MAX, default 3) */
+  maxRetries: number;
+  /** Base delay for exponential backoff (INVAPI_RETRY_BASE_DELAY_MS, default 500) */
+  baseDelayMs: number;
+  /** Upper bound for any single wait, including Retry-After (INVAPI_RETRY_MAX_DELAY_MS, default 30000) */
+  maxDelayMs: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxRetries: envInt("INVAPI_RETRY_MAX", 3),
+    baseDelayMs: envInt("INVAPI_RETRY_BASE_DELAY_MS", 500),
+    maxDelayMs: envInt("INVAPI_RETRY_MAX_DELAY_MS", 30_000),
+  };
+}
+
+/** Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Returns how long to wait before the next attempt, or undefined if the
+ * error must not be retried.
+ */
+function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  idempotent: boolean,
+  policy: RetryPolicy
+): number | undefined {
+  if (!axios.isAxiosError(error)) return undefined;
+
+  const status = error.response?.status;
+  const retryable =
+    status === 429 ||
+    (idempotent &&
+      (status !== undefined
+        ? RETRYABLE_STATUSES.has(status)
+        : RETRYABLE_CODES.has(error.code ?? "")));
+  if (!retryable) return undefined;
+
+  const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+  if (retryAfter !== undefined) {
+    // Waiting less than the server asked for would only fail again
+    return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+  }
+
+  // Exponential backoff with full jitter
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+// ── Retry accounting ──
+
+/** Retry counter for the current tool call (see trackRetries) */
+const retryCounter = new AsyncLocalStorage<{ retries: number }>();
+
+/** Runs `fn` and counts the retries made by all API calls inside it */
+export async function trackRetries<T>(fn: () => Promise<T>): Promise<{ result: T; retries: number }> {
+  const counter = { retries: 0 };
+  const result = await retryCounter.run(counter, fn);
+  return { result, retries: counter.retries };
+}
+
+// ── Call accounting ──
+
+/** API calls answered successfully in the current tool call (see trackAnsweredCalls) */
+const answeredCounter = new AsyncLocalStorage<{ answered: number }>();
+
+/**
+ * Runs `fn` and counts the API calls inside it that got a successful
+ * response, i.e. that the API may have charged for.
+ */
+export async function trackAnsweredCalls<T>(fn: () => Promise<T>): Promise<{ result: T; answered: number }> {
+  const counter = { answered: 0 };
+  const result = await answeredCounter.run(counter, fn);
+  return { result, answered: counter.answered };
+}
+
+/** Executes `request`, retrying according to the configured policy */
+export async function withRetry<T>(request: () => Promise<T>, idempotent: boolean): Promise<T> {
+  const policy = getRetryPolicy();
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await request();
+      const answered = answeredCounter.getStore();
+      if (answered) answered.answered++;
+      return response;
+    } catch (error) {
+      const delay =
+        attempt < policy.maxRetries
+          ? getRetryDelay(error, attempt, idempotent, policy)
+          : undefined;
+      if (delay === undefined) throw error;
+
+      const counter = retryCounter.getStore();
+      if (counter) counter.retries++;
+      await sleep(delay);
+    }
+  }
+}
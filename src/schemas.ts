@@ -13,18 +13,50 @@ export const PostalAddressSchema = z.object({
     .string()
     .min(2)
     .max(2)
-    .describe("ISO 3166-1 alpha-2 country code, e.g. 'DE', 'US', 'FR'"),
+    .describe("ISO 3166-1 alpha-2 country code, e.g. 'DE', 'US', 'FR' (full list: invapi://code-lists/countries)"),
 });
 
 export const ContactSchema = z.object({
+  name: z.string().optional().describe("Contact person or department (BT-41 / BT-56)"),
   telephone_number: z.string().optional().describe("Phone number"),
   email_address: z.string().optional().describe("Email address"),
 });
 
+export const ElectronicAddressSchema = z.object({
+  value: z.string().describe("Electronic address, e.g. an email address, GLN or Leitweg-ID"),
+  scheme_id: z
+    .string()
+    .describe(
+      "EAS scheme of the address, e.g. 'EM' (email), '0088' (GLN), '0204' (Leitweg-ID), '9930' (German VAT number). " +
+        "Full list: invapi://code-lists/electronic-address-schemes"
+    ),
+});
+
+export const LegalRegistrationSchema = z.object({
+  id: z.string().describe("Registration number, e.g. the commercial register entry 'HRB 12345'"),
+  scheme_id: z.string().optional().describe("ISO 6523 ICD scheme of the number, e.g. '0002' (SIRENE) or '0088' (GLN)"),
+});
+
+/** Identifiers and names shared by PartySchema and ExtractionPartySchema */
+const partyIdentifiers = {
+  trading_name: z.string().optional().describe("Trading name, if different from the formal name (BT-28 / BT-45)"),
+  electronic_address: ElectronicAddressSchema.optional().describe(
+    "Electronic address the invoice is delivered to or sent from (BT-34 / BT-49), required by Peppol and XRechnung"
+  ),
+  legal_registration_id: LegalRegistrationSchema.optional().describe(
+    "Legal registration identifier (BT-30 / BT-47)"
+  ),
+  tax_registration_id: z
+    .string()
+    .optional()
+    .describe("Local tax number, e.g. the German Steuernummer (BT-32; seller only)"),
+};
+
 export const PartySchema = z.object({
   name: z.string().describe("Full formal name of the party"),
   postal_address: PostalAddressSchema,
   vat_identifier: z.string().optional().describe("VAT identification number"),
+  ...partyIdentifiers,
   contact: ContactSchema,
 });
 
@@ -43,16 +75,61 @@ export const PriceDetailsSchema = z.object({
   vat_category_code: VatCategoryCode,
 });
 
+export const LineAllowanceChargeSchema = z.object({
+  amount: z.number().describe("Amount without VAT"),
+  base_amount: z.number().optional().describe("Base amount the percentage is applied to"),
+  percentage: z.number().optional().describe("Percentage of the base amount, e.g. 5 for 5%"),
+  reason: z.string().optional().describe("Reason text, e.g. 'Volume discount' or 'Freight'"),
+  reason_code: z
+    .string()
+    .optional()
+    .describe("UNTDID 5189 allowance or UNTDID 7161 charge reason code. Either reason or reason_code is required."),
+});
+
+/** Document-level allowance (BG-20) or charge (BG-21); these carry their own VAT category */
+export const AllowanceChargeSchema = LineAllowanceChargeSchema.extend({
+  vat_category_code: VatCategoryCode,
+  vat_percentage: z.number().describe("VAT rate as percentage, e.g. 19 (0 for non-standard categories)"),
+});
+
+/** VAT breakdown group (BG-23): one per VAT category and rate */
+export const VatBreakdownSchema = z.object({
+  vat_category_code: VatCategoryCode,
+  vat_percentage: z.number().describe("VAT rate as percentage (BT-119), 0 for non-standard categories"),
+  taxable_amount: z
+    .number()
+    .describe("Line net amounts less allowances plus charges in this category and rate (BT-116)"),
+  vat_amount: z.number().describe("VAT amount of this group (BT-117)"),
+  exemption_reason: z
+    .string()
+    .optional()
+    .describe("VAT exemption reason text (BT-120). Categories E, AE, K, G and O need a reason text or code."),
+  exemption_reason_code: z
+    .string()
+    .optional()
+    .describe(
+      "VATEX exemption reason code (BT-121), e.g. 'VATEX-EU-AE' (full list: invapi://code-lists/vat-exemption-reasons)"
+    ),
+});
+
 export const InvoiceItemSchema = z.object({
   item_identifier: z.string().describe("Unique line-item identifier"),
   item_quantity: z.number().describe("Quantity of items"),
   item_quantity_unit_of_measure_code: z
     .string()
-    .describe("UN/ECE Recommendation 20 unit code, e.g. 'C62' (unit), 'HUR' (hour), 'KGM' (kg)"),
+    .describe(
+      "UN/ECE Recommendation 20 unit code, e.g. 'C62' (unit), 'HUR' (hour), 'KGM' (kg). " +
+        "Full lists: invapi://code-lists/units and invapi://code-lists/packages"
+    ),
   item_total_amount_with_vat: z.number().describe("Total line amount including VAT"),
   item_total_amount_without_vat: z.number().optional().describe("Total line amount excluding VAT"),
   price_details: PriceDetailsSchema,
   item_information: z.string().optional().describe("Description of the item or service"),
+  allowances: z
+    .array(LineAllowanceChargeSchema)
+    .optional()
+    .describe("Line allowances (BG-27), deducted from the line net amount"),
+  charges: z.array(LineAllowanceChargeSchema).optional().describe("Line charges (BG-28), added to the line net amount"),
 });
 
 const InvoicingPeriodSchema = z.object({
@@ -60,6 +137,11 @@ const InvoicingPeriodSchema = z.object({
   end: z.string().describe("Period end date (YYYY-MM-DD)"),
 });
 
+export const PrecedingInvoiceSchema = z.object({
+  number: z.string().describe("Number of the invoice being corrected or credited (BT-25)"),
+  date: z.string().optional().describe("Issue date of that invoice (BT-26, YYYY-MM-DD)"),
+});
+
 const AdditionalDataSchema = z.object({
   reverse_charge: z.boolean().optional().describe("True if VAT reverse charge applies"),
   leitweg_id: z.string().optional().describe("Leitweg-ID for German government invoicing"),
@@ -67,10 +149,36 @@ const AdditionalDataSchema = z.object({
   order_id: z.string().optional(),
   delivery_id: z.string().optional(),
   project: z.string().optional().describe("Project reference"),
-  preceeding_invoice_number: z.string().optional(),
+  preceding_invoices: z
+    .array(PrecedingInvoiceSchema)
+    .optional()
+    .describe("Invoices this document corrects or credits (BG-3), required for credit notes and corrections"),
+  preceeding_invoice_number: z
+    .string()
+    .optional()
+    .describe("Deprecated: a single preceding invoice number; use preceding_invoices"),
   invoicing_period: InvoicingPeriodSchema.optional(),
 });
 
+export const AttachmentSchema = z.object({
+  id: z.string().describe("Supporting document reference (BT-122), e.g. 'Timesheet-2025-01'"),
+  description: z.string().optional().describe("Description of the supporting document (BT-123)"),
+  file_path: z
+    .string()
+    .optional()
+    .describe("Path to a file on disk to embed (BT-125); mime_type and filename default from the path"),
+  content: z.string().optional().describe("Base64-encoded file content to embed (BT-125), instead of file_path"),
+  mime_type: z
+    .string()
+    .optional()
+    .describe(
+      "MIME type of the embedded file, e.g. 'application/pdf'. " +
+        "XRechnung allows PDF, PNG, JPEG, CSV, XLSX and ODS."
+    ),
+  filename: z.string().optional().describe("File name of the embedded file"),
+  uri: z.string().optional().describe("External location of the document (BT-124), instead of embedding it"),
+});
+
 const DeliveryAddressSchema = z.object({
   address_line_1: z.string().describe("Street address line 1"),
   address_line_2: z.string().optional(),
@@ -89,7 +197,7 @@ const DeliveryInformationSchema = z.object({
   delivery_instructions: z.string().optional(),
 });
 
-const PaymentInformationSchema = z.object({
+export const PaymentInformationSchema = z.object({
   payment_type: z
     .enum(["credit_card", "credit_transfer", "cash", "online_payment_service"])
     .optional()
@@ -106,16 +214,37 @@ const PaymentInformationSchema = z.object({
 
 const TotalsSchema = z.object({
   total_amount_without_vat: z.number().describe("Sum of all line items without VAT"),
-  total_amount_with_vat: z.number().describe("Sum of all line items with VAT"),
+  total_amount_with_vat: z
+    .number()
+    .describe("Total with VAT (BT-112): line items less document-level allowances plus charges, including VAT"),
   total_vat_amount: z.number().describe("Total VAT amount"),
   amount_due_for_payment: z.number().describe("Amount due for payment"),
   paid_amount: z.number().describe("Amount already paid"),
-  sum_of_allowances: z.number().optional(),
-  sum_of_charges: z.number().optional(),
-  invoice_total_without_vat: z.number().optional(),
+  sum_of_allowances: z.number().optional().describe("Sum of document-level allowances (BT-107)"),
+  sum_of_charges: z.number().optional().describe("Sum of document-level charges (BT-108)"),
+  invoice_total_without_vat: z
+    .number()
+    .optional()
+    .describe("Total without VAT after document-level allowances and charges (BT-109)"),
   rounding_amount: z.number().optional(),
 });
 
+export const ProfileSchema = z
+  .enum([
+    "en16931",
+    "xrechnung",
+    "peppol",
+    "factur-x-minimum",
+    "factur-x-basic-wl",
+    "factur-x-basic",
+    "factur-x-extended",
+  ])
+  .describe(
+    "Target profile (specification identifier BT-24 and rule set): en16931 = plain EN 16931 " +
+      "(also the Factur-X/ZUGFeRD EN 16931 profile), xrechnung = XRechnung 3.0, peppol = Peppol BIS Billing 3.0 " +
+      "(UBL only), factur-x-* = Factur-X/ZUGFeRD MINIMUM, BASIC WL, BASIC and EXTENDED (CII only)"
+  );
+
 // ── Main Invoice schema ──
 
 export const InvoiceSchema = z.object({
@@ -123,13 +252,22 @@ export const InvoiceSchema = z.object({
   invoice_date: z.string().describe("Issue date in YYYY-MM-DD format"),
   invoice_currency_code: z
     .string()
-    .describe("ISO 4217 currency code, e.g. 'EUR', 'USD', 'GBP'"),
+    .describe("ISO 4217 currency code, e.g. 'EUR', 'USD', 'GBP' (full list: invapi://code-lists/currencies)"),
   invoice_type: z
     .enum(["incoming", "outgoing"])
     .describe(
       "'incoming' = received from vendor/supplier; 'outgoing' = sent to customer"
     ),
+  document_type_code: z
+    .enum(["380", "381", "384", "386", "389"])
+    .optional()
+    .describe(
+      "UNTDID 1001 document type (BT-3): 380=Commercial invoice (default), 381=Credit note, " +
+        "384=Corrected invoice, 386=Prepayment invoice, 389=Self-billed invoice. " +
+        "381 produces a UBL CreditNote; amounts stay positive. ZUGFeRD PDFs accept 380 only."
+    ),
   invoice_note: z.string().optional(),
+  profile: ProfileSchema.optional(),
   additional_data: AdditionalDataSchema.optional(),
   seller: PartySchema.describe("The party issuing the invoice"),
   buyer: PartySchema.describe("The party receiving the invoice"),
@@ -137,6 +275,28 @@ export const InvoiceSchema = z.object({
   payment_information: PaymentInformationSchema,
   totals: TotalsSchema,
   items: z.array(InvoiceItemSchema).min(1).describe("Invoice line items (at least 1)"),
+  allowances: z
+    .array(AllowanceChargeSchema)
+    .optional()
+    .describe("Document-level allowances (BG-20), e.g. a discount on the whole invoice"),
+  charges: z
+    .array(AllowanceChargeSchema)
+    .optional()
+    .describe("Document-level charges (BG-21), e.g. freight or handling"),
+  vat_breakdown: z
+    .array(VatBreakdownSchema)
+    .optional()
+    .describe(
+      "VAT breakdown (BG-23) per category and rate. Derived from items, allowances and charges when omitted; " +
+        "give it to state exemption reasons, e.g. for category E."
+    ),
+  attachments: z
+    .array(AttachmentSchema)
+    .optional()
+    .describe(
+      "Additional supporting documents (BG-24), e.g. timesheets, delivery notes or the invoice PDF. " +
+        "Each is embedded from file_path or content, or referenced by uri."
+    ),
   invoice_description: z.string().describe("Short description of the invoice"),
   category: z.string().optional().describe("Invoice category"),
   id: z.string().optional(),
@@ -144,12 +304,34 @@ export const InvoiceSchema = z.object({
 
 export type Invoice = z.infer<typeof InvoiceSchema>;
 
+type InvoiceShape = typeof InvoiceSchema.shape;
+
+/**
+ * Output schema of the tools that return an Invoice read by the API. The
+ * fields are those of InvoiceSchema, but one the API got wrong does not fail
+ * the call: the credit is spent, so the data is returned with a warning.
+ */
+export const InvoiceOutputSchema = z.object(
+  Object.fromEntries(
+    Object.entries(InvoiceSchema.shape).map(([key, field]) => [key, (field as z.ZodTypeAny).catch(undefined)])
+  ) as { [K in keyof InvoiceShape]: z.ZodCatch<InvoiceShape[K]> }
+);
+export type DocumentTypeCode = NonNullable<Invoice["document_type_code"]>;
+export type PrecedingInvoice = z.infer<typeof PrecedingInvoiceSchema>;
+export type AllowanceCharge = z.infer<typeof AllowanceChargeSchema>;
+export type LineAllowanceCharge = z.infer<typeof LineAllowanceChargeSchema>;
+export type VatBreakdown = z.infer<typeof VatBreakdownSchema>;
+export type Party = z.infer<typeof PartySchema>;
+export type Attachment = z.infer<typeof AttachmentSchema>;
+export type ProfileId = z.infer<typeof ProfileSchema>;
+
 // ── Extraction-specific schemas ──
 
 export const ExtractionPartySchema = z.object({
   name: z.string().describe("Full formal name"),
   postal_address: PostalAddressSchema,
   vat_identifier: z.string().optional(),
+  ...partyIdentifiers,
   contact: ContactSchema,
 });
 
@@ -166,7 +348,479 @@ export const BatchOperationSchema = z.object({
   operation: z
     .enum(["json_to_ubl", "json_to_cii", "ubl_to_json", "cii_to_json", "zugferd_to_json"])
     .describe("Conversion operation to perform"),
-  input: z.unknown().describe(
+  input: z.unknown().optional().describe(
     "Input data: an Invoice JSON object for json_to_* operations, or an XML string for *_to_json operations"
   ),
+  file_path: z
+    .string()
+    .optional()
+    .describe(
+      "Path to the input file on disk, instead of 'input': .json for json_to_*, .xml for ubl/cii_to_json, " +
+        ".pdf for zugferd_to_json (sent base64-encoded)"
+    ),
 });
+
+// ── Spreadsheet import schema ──
+
+export const SpreadsheetMappingSchema = z.object({
+  columns: z
+    .record(z.string())
+    .optional()
+    .describe(
+      "Invoice JSON field path → column header, e.g. { \"invoice_number\": \"Invoice No\", " +
+        "\"buyer.name\": \"Customer\", \"items.item_quantity\": \"Qty\", " +
+        "\"items.price_details.item_price_without_vat\": \"Unit price\" }. Item fields start with 'items.'. " +
+        "Columns whose header is a field path are mapped without an entry."
+    ),
+  defaults: z
+    .record(z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe(
+      "Values for fields without a column or with an empty cell, by field path, e.g. " +
+        "{ \"invoice_currency_code\": \"EUR\", \"invoice_type\": \"outgoing\", \"seller.name\": \"Muster GmbH\" }"
+    ),
+  sheet: z.string().optional().describe("Worksheet name for .xlsx files. Default: the first sheet."),
+  header_row: z.number().int().min(1).optional().describe("Row holding the column headers. Default: 1."),
+  delimiter: z.string().length(1).optional().describe("CSV delimiter. Default: detected from the header row."),
+  decimal_separator: z
+    .enum([".", ","])
+    .optional()
+    .describe("Decimal separator of numbers stored as text. Default: the last of '.' and ',' in each value."),
+  date_format: z
+    .enum(["DD.MM.YYYY", "DD/MM/YYYY", "MM/DD/YYYY"])
+    .optional()
+    .describe("Format of dates stored as text other than YYYY-MM-DD and YYYYMMDD. Excel dates are read as they are."),
+});
+
+export type SpreadsheetMapping = z.infer<typeof SpreadsheetMappingSchema>;
+
+// ── Ledger ──
+
+export const LedgerFormatSchema = z
+  .enum(["json", "ubl", "cii", "zugferd", "pdf", "image", "spreadsheet"])
+  .describe("Format of the document the invoice was read from");
+
+export const LedgerValidationSchema = z.object({
+  status: z.enum(["valid", "invalid", "unchecked"]),
+  mode: z.enum(["local", "remote", "both"]).optional(),
+  profile: ProfileSchema.optional(),
+  errors: z.number().int().optional().describe("Number of errors reported"),
+  checked_at: z.string().optional(),
+});
+
+export const LedgerSourceSchema = z.object({
+  tool: z.string().describe("Tool that read or produced the invoice"),
+  format: LedgerFormatSchema,
+  file_path: z.string().optional(),
+  sha256: z.string().describe("SHA-256 of the source file, or of inline content"),
+});
+
+export const LedgerDocumentSchema = LedgerSourceSchema.extend({
+  recorded_at: z.string().describe("When the document was first read"),
+});
+
+export const LedgerEntrySchema = z.object({
+  id: z.string().describe("Derived from seller and invoice number, so the same invoice keeps its entry"),
+  recorded_at: z.string(),
+  updated_at: z.string(),
+  source: LedgerSourceSchema.extend({
+    tool: z.string().describe("Tool that last read or produced the invoice"),
+  }),
+  documents: z
+    .array(LedgerDocumentSchema)
+    .optional()
+    .describe("Every distinct document (file, XML, PDF or image) the invoice was read from, oldest first"),
+  validation: LedgerValidationSchema,
+  invoice: InvoiceSchema,
+});
+
+export const DuplicateMatchSchema = z.object({
+  match: z
+    .enum(["exact", "likely"])
+    .describe("'exact' = same seller VAT ID, invoice number, invoice date and amount due; 'likely' = fuzzy match"),
+  reasons: z.array(z.string()).describe("What the two invoices have in common"),
+  ledger_id: z.string().describe("Ledger entry of the earlier invoice"),
+  invoice_number: z.string(),
+  invoice_date: z.string(),
+  seller: z.string(),
+  amount_due_for_payment: z.number(),
+  document: LedgerDocumentSchema.describe("Earliest document the earlier invoice was read from"),
+});
+
+export const LedgerFilterSchema = z.object({
+  seller: z.string().optional().describe("Part of the seller name, trading name or VAT identifier"),
+  buyer: z.string().optional().describe("Part of the buyer name, trading name or VAT identifier"),
+  invoice_type: z.enum(["incoming", "outgoing"]).optional(),
+  date_from: z.string().optional().describe("Earliest invoice date (YYYY-MM-DD)"),
+  date_to: z.string().optional().describe("Latest invoice date (YYYY-MM-DD)"),
+  due_from: z.string().optional().describe("Earliest payment due date (YYYY-MM-DD)"),
+  due_to: z.string().optional().describe("Latest payment due date (YYYY-MM-DD)"),
+  category: z.string().optional(),
+  currency: z.string().optional().describe("ISO 4217 currency code"),
+  min_amount: z.number().optional().describe("Smallest total with VAT"),
+  max_amount: z.number().optional().describe("Largest total with VAT"),
+  open: z
+    .boolean()
+    .optional()
+    .describe("true = only unpaid invoices (amount due and no payment date), false = only paid ones"),
+  validation_status: LedgerValidationSchema.shape.status.optional(),
+});
+
+export const LedgerRowSchema = z.object({
+  id: z.string(),
+  invoice_number: z.string(),
+  invoice_date: z.string(),
+  invoice_type: z.enum(["incoming", "outgoing"]),
+  seller: z.string(),
+  buyer: z.string(),
+  category: z.string().optional(),
+  currency: z.string(),
+  total_amount_with_vat: z.number(),
+  amount_due_for_payment: z.number(),
+  payment_due_date: z.string().optional(),
+  open: z.boolean(),
+  validation_status: LedgerValidationSchema.shape.status,
+  source: LedgerEntrySchema.shape.source,
+  invoice: InvoiceSchema.optional(),
+});
+
+export const LedgerQuerySchema = z.object({
+  matches: z.number().int().describe("Number of entries matching the filter"),
+  invoices: z.array(LedgerRowSchema).describe("Matching entries, newest invoice date first, up to the limit"),
+  ledger_path: z.string(),
+});
+
+export const LedgerGroupSchema = z.object({
+  key: z.string().describe("Value of the grouping field, e.g. the seller name or 'YYYY-MM'"),
+  currency: z.string().describe("Amounts are never added across currencies"),
+  count: z.number().int(),
+  total_amount_with_vat: z.number().describe("Credit notes (document type 381) are subtracted"),
+  amount_due_for_payment: z.number().describe("Credit notes (document type 381) are subtracted"),
+  open_count: z.number().int(),
+  open_amount_due: z.number().describe("Amount due of unpaid invoices, e.g. open payables per supplier"),
+  overdue_amount: z.number().describe("Open amount whose due date has passed"),
+});
+
+export const LedgerSummarySchema = z.object({
+  group_by: z.enum(["seller", "buyer", "category", "currency", "month", "validation_status"]),
+  matches: z.number().int(),
+  groups: z.array(LedgerGroupSchema).describe("Largest open amount first"),
+  ledger_path: z.string(),
+});
+
+// ── Output schemas ──
+
+export const ValidationIssueSchema = z.object({
+  source: z.enum(["local", "remote"]).describe("Which engine reported the issue"),
+  rule: z.string().optional().describe("Business rule identifier, e.g. 'BR-CO-15'"),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+  location: z
+    .string()
+    .optional()
+    .describe("XPath of the offending element (XML) or field path (Invoice JSON)"),
+  line: z.number().int().optional().describe("Line number in the XML document, if reported"),
+  test: z.string().optional().describe("Schematron test expression that failed, if reported"),
+  field: z
+    .string()
+    .optional()
+    .describe("Matching InvoiceSchema field path, e.g. 'items[0].price_details.item_price_without_vat'"),
+});
+
+export const ValidationReportSchema = z.object({
+  valid: z
+    .boolean()
+    .describe("Overall verdict: the remote verdict when the API was called, otherwise the local one"),
+  mode: z.enum(["local", "remote", "both"]),
+  format: z.enum(["ubl", "cii", "json"]).optional().describe("Detected document format (local engine only)"),
+  profile: ProfileSchema.optional().describe("Profile the invoice was validated against by the local rules"),
+  ignored_profile: ProfileSchema.optional().describe(
+    "Profile that was given but not applied because the local rules did not run; the API follows the claimed one"
+  ),
+  specification_id: z.string().optional().describe("Specification identifier (BT-24) the document claims"),
+  claimed_profile: ProfileSchema.optional().describe("Profile matching the claimed specification identifier"),
+  issues: z.array(ValidationIssueSchema),
+  comparison: z
+    .object({
+      agree: z.boolean(),
+      local_valid: z.boolean(),
+      remote_valid: z.boolean(),
+      only_local: z.array(z.string()).describe("Rule IDs reported only by the local engine"),
+      only_remote: z.array(z.string()).describe("Locally implemented rule IDs reported only by the API"),
+      not_covered_locally: z.array(z.string()).describe("Rule IDs reported by the API that the local engine does not implement"),
+    })
+    .optional()
+    .describe("Present in 'both' mode"),
+});
+
+export type ValidationIssue = z.infer<typeof ValidationIssueSchema>;
+export type ValidationReport = z.infer<typeof ValidationReportSchema>;
+
+export const CheckIssueSchema = z.object({
+  path: z.string().describe("Invoice JSON field path, e.g. 'items[0].item_total_amount_with_vat'"),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+});
+
+export const CheckReportSchema = z.object({
+  passed: z.boolean().describe("True when no errors were found (warnings may still be present)"),
+  issues: z.array(CheckIssueSchema),
+});
+
+export const XmlOutputSchema = z.object({
+  format: z.enum(["ubl", "cii"]),
+  xml: z.string().optional().describe("Generated XML, when returned inline"),
+  output_path: z.string().optional().describe("File the XML was saved to"),
+});
+
+export const FileOutputSchema = z.object({
+  output_path: z.string().describe("File the result was saved to"),
+  size_bytes: z.number().int(),
+});
+
+export const ZugferdPdfOutputSchema = FileOutputSchema.extend({
+  omitted_fields: z
+    .array(z.string())
+    .describe("Fields of the invoice the embedded XML lacks because the API does not render them"),
+});
+
+export const ImportIssueSchema = z.object({
+  row: z.number().int().optional().describe("Spreadsheet row number, absent for problems with the mapping"),
+  column: z.string().optional().describe("Column header"),
+  field: z.string().optional().describe("Invoice JSON field path, e.g. 'items[2].item_quantity'"),
+  invoice_number: z.string().optional(),
+  severity: z.enum(["error", "warning"]),
+  message: z.string(),
+});
+
+export const SpreadsheetImportSchema = z.object({
+  invoices: z.array(InvoiceSchema).describe("Invoices without errors, ready for the JSON → UBL/CII tools"),
+  issues: z.array(ImportIssueSchema),
+  summary: z.object({
+    rows: z.number().int().describe("Data rows read, without the header and empty rows"),
+    invoices: z.number().int().describe("Invoices found"),
+    imported: z.number().int().describe("Invoices without errors"),
+    failed: z.number().int().describe("Invoices left out because of errors"),
+  }),
+  unmapped_columns: z.array(z.string()).describe("Column headers not mapped to any field"),
+  mapping_path: z.string().optional().describe("Mapping file that was read or written"),
+  output_files: z.array(z.string()).optional().describe("Invoice JSON files written to output_dir"),
+});
+
+export const InvoiceChangeSchema = z.object({
+  path: z.string().describe("Invoice JSON field path, e.g. 'items[1].item_quantity' or 'buyer.vat_identifier'"),
+  change: z.enum(["added", "removed", "changed"]).describe("How the second invoice differs from the first"),
+  before: z.unknown().optional().describe("Value in the first invoice"),
+  after: z.unknown().optional().describe("Value in the second invoice"),
+  item_identifier: z.string().optional().describe("item_identifier of the item the field belongs to"),
+});
+
+export const InvoiceDiffSchema = z.object({
+  identical: z.boolean().describe("True when no field differs beyond the tolerance"),
+  changes: z.array(InvoiceChangeSchema),
+  summary: z.object({
+    added: z.number().int(),
+    removed: z.number().int(),
+    changed: z.number().int(),
+  }),
+  tolerance: z.number().describe("Largest difference between amounts that counts as equal"),
+});
+
+export const LostFieldSchema = z.object({
+  term: z.string().describe("Business term in the semantic model, e.g. 'seller.electronicAddress', 'lines[0].vatRate'"),
+  location: z.string().describe("XPath of the value in the source document"),
+  field: z.string().optional().describe("Matching InvoiceSchema field path, if known"),
+  value: z.string().describe("Value in the source document (long values are shortened)"),
+  converted: z.string().optional().describe("Value in the result, when it differs rather than is missing"),
+});
+
+const RoundTripSchema = z.object({
+  lost_fields: z
+    .array(LostFieldSchema)
+    .describe("Business terms of the source that are missing or changed after the round trip through JSON"),
+  validation: ValidationReportSchema.optional().describe("Validation of the result, when requested"),
+});
+
+export const XmlConversionOutputSchema = XmlOutputSchema.merge(RoundTripSchema);
+
+export const ZugferdConversionOutputSchema = ZugferdPdfOutputSchema.merge(RoundTripSchema).extend({
+  lost_fields: z
+    .array(LostFieldSchema)
+    .describe("Business terms of the source that the embedded invoice data lacks or changes, as the API renders it"),
+  validation: ValidationReportSchema.optional().describe(
+    "Validation of the source XML, when requested; the embedded XML cannot be read back"
+  ),
+});
+
+/** Credits per pool as the API reports them; it may send null for a pool */
+const CreditCountsSchema = z.object({
+  extraction: z.number().nullable().optional(),
+  conversion: z.number().nullable().optional(),
+  validation: z.number().nullable().optional(),
+  qr: z.number().nullable().optional(),
+});
+
+const CreditEstimateSchema = z.object({
+  extraction: z.number().optional(),
+  conversion: z.number().optional(),
+  validation: z.number().optional(),
+  qr: z.number().optional(),
+});
+
+export const UserInfoSchema = z.object({
+  email: z.string(),
+  role: z.string(),
+  credits: CreditCountsSchema,
+});
+
+export const CostEstimateSchema = z.object({
+  estimate: CreditEstimateSchema.describe("Estimated credits per pool"),
+  total: z.number().describe("Estimated credits across all pools"),
+  balance: CreditCountsSchema.optional().describe("Remaining credits on the account, if they could be fetched"),
+  budget: z
+    .object({ limit: z.number(), spent: z.number(), remaining: z.number() })
+    .optional()
+    .describe("INVAPI_CREDIT_BUDGET state, when a budget is configured"),
+  sufficient: z.boolean().describe("True when neither the budget nor the balance would run out"),
+  problems: z.array(z.string()),
+  notes: z.array(z.string()),
+});
+
+export const BatchResultSchema = z.object({
+  results: z.array(
+    z.object({
+      id: z.string(),
+      success: z.boolean(),
+      output: z.unknown().optional().describe("XML string or Invoice JSON, depending on the operation"),
+      error: z.string().optional(),
+      output_file: z.string().optional().describe("File the output was written to, when output_dir is set"),
+      duplicates: z.array(DuplicateMatchSchema).optional().describe("Invoices read earlier from other documents"),
+    })
+  ),
+  summary: z.object({
+    total: z.number().int(),
+    successful: z.number().int(),
+    failed: z.number().int(),
+    processing_time_ms: z.number(),
+  }),
+  manifest_path: z.string().optional().describe("Manifest written to output_dir, when set"),
+});
+
+export const BatchRunSchema = z.object({
+  results: z.array(
+    z.object({
+      id: z.string(),
+      success: z.boolean(),
+      error: z.string().optional(),
+      output_file: z.string().optional(),
+      duplicates: z.array(DuplicateMatchSchema).optional().describe("Invoices read earlier from other documents"),
+    })
+  ),
+  summary: z.object({
+    total: z.number().int(),
+    successful: z.number().int(),
+    failed: z.number().int(),
+    skipped: z.number().int().describe("Operations already converted in the checkpoint"),
+    pending: z.number().int().describe("Operations not sent, e.g. after running out of credits"),
+    sent: z.number().int().describe("Operations the API answered, each using a conversion credit"),
+    processing_time_ms: z.number(),
+  }),
+  stopped_reason: z.enum(["insufficient_credits"]).optional(),
+  manifest_path: z.string(),
+  checkpoint_path: z.string(),
+});
+
+export const DirectoryExtractionSchema = z.object({
+  files: z.array(
+    z.object({
+      file: z.string().describe("Path relative to the scanned directory"),
+      status: z.enum(["extracted", "skipped", "failed", "pending"]),
+      sha256: z.string().optional(),
+      output_file: z.string().optional(),
+      error: z.string().optional(),
+      duplicates: z.array(DuplicateMatchSchema).optional().describe("Invoices read earlier from other documents"),
+    })
+  ),
+  summary: z.object({
+    total: z.number().int(),
+    extracted: z.number().int(),
+    skipped: z.number().int().describe("Files whose content was already extracted"),
+    failed: z.number().int(),
+    pending: z.number().int().describe("Files not processed, e.g. after running out of credits"),
+  }),
+  stopped_reason: z.enum(["insufficient_credits"]).optional(),
+  output_dir: z.string(),
+  index_path: z.string(),
+});
+
+// ── Payment codes ──
+
+export const PaymentCodeFormatSchema = z
+  .enum(["swiss_qr", "epc"])
+  .describe("'swiss_qr' = Swiss QR-bill (SPC), 'epc' = EPC069-12 SEPA credit transfer (GiroCode)");
+
+export const PaymentCodePartySchema = z.object({
+  name: z.string(),
+  address_line_1: z.string().optional().describe("Street and building number"),
+  address_line_2: z.string().optional().describe("Second address line of combined (type K) addresses"),
+  post_code: z.string().optional(),
+  city: z.string().optional(),
+  country_code: z.string().optional(),
+});
+
+export const PaymentCodeSchema = z.object({
+  format: PaymentCodeFormatSchema,
+  iban: z.string().describe("Account of the creditor"),
+  bic: z.string().optional(),
+  amount: z.number().optional().describe("Amount to pay; omitted when the payer enters it"),
+  currency: z.string(),
+  creditor: PaymentCodePartySchema,
+  debtor: PaymentCodePartySchema.optional().describe("Ultimate debtor (Swiss QR-bill only)"),
+  reference_type: z
+    .enum(["QRR", "SCOR", "NON"])
+    .describe("QRR = 27-digit QR reference, SCOR = ISO 11649 creditor reference (RF…), NON = none"),
+  reference: z.string().optional(),
+  message: z.string().optional().describe("Unstructured remittance information"),
+  bill_information: z.string().optional().describe("Structured bill information, e.g. '//S1/10/…' (Swiss)"),
+  payment_information: PaymentInformationSchema.describe("The code as Invoice payment_information"),
+});
+
+export const PaymentCodeOutputSchema = z.object({
+  format: PaymentCodeFormatSchema,
+  payload: z.string().describe("Text encoded in the QR code"),
+  image_format: z.enum(["svg", "png"]),
+  output_path: z.string().optional().describe("File the QR image was saved to"),
+  size_bytes: z.number().int().optional(),
+});
+
+/** QR payloads vary by code type, so only the envelope is fixed */
+export const QrResultSchema = z
+  .object({
+    payment_code: PaymentCodeSchema.optional().describe("Decoded Swiss QR-bill or EPC GiroCode, when recognised"),
+  })
+  .passthrough();
+
+export type LostField = z.infer<typeof LostFieldSchema>;
+export type LedgerFormat = z.infer<typeof LedgerFormatSchema>;
+export type LedgerValidation = z.infer<typeof LedgerValidationSchema>;
+export type LedgerDocument = z.infer<typeof LedgerDocumentSchema>;
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+export type DuplicateMatch = z.infer<typeof DuplicateMatchSchema>;
+export type LedgerFilter = z.infer<typeof LedgerFilterSchema>;
+export type LedgerRow = z.infer<typeof LedgerRowSchema>;
+export type LedgerQuery = z.infer<typeof LedgerQuerySchema>;
+export type LedgerGroup = z.infer<typeof LedgerGroupSchema>;
+export type LedgerSummary = z.infer<typeof LedgerSummarySchema>;
+export type PaymentCodeFormat = z.infer<typeof PaymentCodeFormatSchema>;
+export type PaymentCodeParty = z.infer<typeof PaymentCodePartySchema>;
+export type PaymentCode = z.infer<typeof PaymentCodeSchema>;
+export type PaymentCodeOutput = z.infer<typeof PaymentCodeOutputSchema>;
+export type InvoiceChange = z.infer<typeof InvoiceChangeSchema>;
+export type InvoiceDiff = z.infer<typeof InvoiceDiffSchema>;
+export type ImportIssue = z.infer<typeof ImportIssueSchema>;
+export type SpreadsheetImport = z.infer<typeof SpreadsheetImportSchema>;
+export type CheckIssue = z.infer<typeof CheckIssueSchema>;
+export type UserInfo = z.infer<typeof UserInfoSchema>;
+export type CostEstimate = z.infer<typeof CostEstimateSchema>;
+export type BatchResult = z.infer<typeof BatchResultSchema>;
+export type BatchRun = z.infer<typeof BatchRunSchema>;
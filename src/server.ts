@@ -0,0 +1,45 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { registerConversionTools } from "./tools/conversion.js";
+import { registerValidationTools } from "./tools/validation.js";
+import { registerExtractionTools } from "./tools/extraction.js";
+import { registerUserTools } from "./tools/user.js";
+import { registerBatchTools } from "./tools/batch.js";
+import { registerImportTools } from "./tools/import.js";
+import { registerDiffTools } from "./tools/diff.js";
+import { registerPaymentTools } from "./tools/payment.js";
+import { registerLedgerTools } from "./tools/ledger.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+
+/**
+ * Creates a fully registered MCP server instance.
+ *
+ * stdio mode uses a single instance; HTTP mode creates one per session,
+ * since an McpServer can only be connected to one transport at a time.
+ */
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "@invapi/mcp-server",
+    version: "1.0.0",
+  });
+
+  // Register all tool groups
+  registerConversionTools(server);
+  registerValidationTools(server);
+  registerExtractionTools(server);
+  registerUserTools(server);
+  registerBatchTools(server);
+  registerImportTools(server);
+  registerDiffTools(server);
+  registerPaymentTools(server);
+  registerLedgerTools(server);
+
+  // Schemas and code lists
+  registerResources(server);
+
+  // Guided workflows offered as slash-commands
+  registerPrompts(server);
+
+  return server;
+}
@@ -0,0 +1,493 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  ZodArray,
+  ZodBoolean,
+  ZodDefault,
+  ZodEffects,
+  ZodNullable,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  type ZodTypeAny,
+} from "zod";
+import {
+  InvoiceSchema,
+  SpreadsheetMappingSchema,
+  type ImportIssue,
+  type Invoice,
+  type SpreadsheetImport,
+  type SpreadsheetMapping,
+} from "./schemas.js";
+import { readFileAsString } from "./api-client.js";
+import { checkInvoice } from "./checks.js";
+import { fileStems } from "./batch.js";
+import type { Rows } from "./spreadsheet.js";
+
+// ── Spreadsheet import ──
+//
+// Rows of a spreadsheet become Invoice JSON: each row is one line item,
+// rows are grouped by invoice number, and a row without a number continues
+// the invoice above. Invoice-level columns are read from the first row of
+// an invoice that fills them. Totals the sheet leaves out are calculated.
+
+type FieldKind = "string" | "number" | "boolean" | "date";
+
+type CellValue = string | number | boolean;
+
+const INVOICE_NUMBER = "invoice_number";
+const ITEM_PREFIX = "items.";
+
+/** Days between the Excel epoch (1899-12-30, accounting for the 1900 leap year bug) and 1970-01-01 */
+const EXCEL_EPOCH_OFFSET = 25569;
+/** Largest date serial Excel supports, 9999-12-31 */
+const EXCEL_MAX_SERIAL = 2958465;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ── Fields ──
+
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  let current = schema;
+  while (
+    current instanceof ZodOptional ||
+    current instanceof ZodNullable ||
+    current instanceof ZodDefault ||
+    current instanceof ZodEffects
+  ) {
+    current = current instanceof ZodEffects ? current.innerType() : current._def.innerType;
+  }
+  return current;
+}
+
+/**
+ * The kind of value the field at `path` holds, or undefined when the path
+ * is not a single-value field. Only `items` may be crossed as an array.
+ */
+function fieldKind(path: string): FieldKind | undefined {
+  let schema: ZodTypeAny = InvoiceSchema;
+  for (const key of path.split(".")) {
+    schema = unwrap(schema);
+    if (schema instanceof ZodArray) schema = unwrap(schema.element);
+    if (!(schema instanceof ZodObject)) return undefined;
+    const next = (schema.shape as Record<string, ZodTypeAny>)[key];
+    if (!next) return undefined;
+    if (unwrap(next) instanceof ZodArray && !(key === "items" && path.startsWith(ITEM_PREFIX))) return undefined;
+    schema = next;
+  }
+  const leaf = unwrap(schema);
+  if (leaf instanceof ZodNumber) return "number";
+  if (leaf instanceof ZodBoolean) return "boolean";
+  if (leaf instanceof ZodObject || leaf instanceof ZodArray) return undefined;
+  const key = path.slice(path.lastIndexOf(".") + 1);
+  return key.endsWith("date") || /invoicing_period\.(start|end)$/.test(path) ? "date" : "string";
+}
+
+// ── Cell values ──
+
+function parseNumber(text: string, separator: SpreadsheetMapping["decimal_separator"]): number | undefined {
+  let value = text.replace(/[\s '%]/g, "");
+  const decimal = separator ?? (value.lastIndexOf(",") > value.lastIndexOf(".") ? "," : ".");
+  value = decimal === "," ? value.replace(/\./g, "").replace(",", ".") : value.replace(/,/g, "");
+  const number = value === "" ? NaN : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function isoDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(text: string, format: SpreadsheetMapping["date_format"]): string | undefined {
+  const value = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return isoDate(+value.slice(0, 4), +value.slice(5, 7), +value.slice(8, 10));
+  // Compact YYYYMMDD, as many accounting exports write dates
+  if (/^\d{8}$/.test(value)) return isoDate(+value.slice(0, 4), +value.slice(4, 6), +value.slice(6, 8));
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    // Excel stores dates as days since its epoch
+    const serial = Math.floor(Number(value));
+    if (serial < 1 || serial > EXCEL_MAX_SERIAL) return undefined;
+    return new Date((serial - EXCEL_EPOCH_OFFSET) * 86_400_000).toISOString().slice(0, 10);
+  }
+  const parts = /^(\d{1,2})([./])(\d{1,2})\2(\d{4})$/.exec(value);
+  if (!parts) return undefined;
+  const [, first, separator, second, year] = parts;
+  const monthFirst =
+    format === "MM/DD/YYYY" || (separator === "/" && format !== "DD/MM/YYYY" && Number(second) > 12);
+  return monthFirst ? isoDate(+year, +first, +second) : isoDate(+year, +second, +first);
+}
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x", "ja", "wahr"];
+const FALSE_VALUES = ["false", "no", "n", "0", "nein", "falsch"];
+
+/** Converts cell text to the field's kind. Returns an error message when it does not fit. */
+function coerce(text: string, kind: FieldKind, mapping: SpreadsheetMapping): CellValue | { error: string } {
+  if (kind === "number") {
+    const number = parseNumber(text, mapping.decimal_separator);
+    return number ?? { error: `'${text}' is not a number` };
+  }
+  if (kind === "boolean") {
+    const lower = text.trim().toLowerCase();
+    if (TRUE_VALUES.includes(lower)) return true;
+    if (FALSE_VALUES.includes(lower)) return false;
+    return { error: `'${text}' is not a yes/no value` };
+  }
+  if (kind === "date") {
+    const date = parseDate(text, mapping.date_format);
+    return (
+      date ?? {
+        error:
+          `'${text}' is not a date; set date_format if it is not YYYY-MM-DD, YYYYMMDD, DD.MM.YYYY ` +
+          "or an Excel date serial",
+      }
+    );
+  }
+  return text.trim();
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function readPath(target: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], target);
+}
+
+// ── Mapping ──
+
+interface Column {
+  index: number;
+  header: string;
+  field: string;
+  kind: FieldKind;
+}
+
+/** Resolves the mapping against the header row into the columns to read */
+function resolveColumns(
+  headers: string[],
+  mapping: SpreadsheetMapping,
+  issues: ImportIssue[]
+): { columns: Column[]; unmapped: string[] } {
+  const byHeader = new Map(headers.map((header, index) => [header.trim().toLowerCase(), index]));
+  const columns: Column[] = [];
+  const used = new Set<number>();
+
+  for (const [field, header] of Object.entries(mapping.columns ?? {})) {
+    const kind = fieldKind(field);
+    if (!kind) {
+      const message = `'${field}' is not a single-value Invoice field`;
+      issues.push({ field, column: header, severity: "error", message });
+      continue;
+    }
+    const index = byHeader.get(header.trim().toLowerCase());
+    if (index === undefined) {
+      issues.push({ field, column: header, severity: "error", message: `Column '${header}' was not found` });
+      continue;
+    }
+    columns.push({ index, header, field, kind });
+    used.add(index);
+  }
+
+  // Headers that are field paths map themselves
+  const mapped = new Set(columns.map((column) => column.field));
+  headers.forEach((header, index) => {
+    const field = header.trim();
+    const kind = used.has(index) || mapped.has(field) ? undefined : fieldKind(field);
+    if (!kind) return;
+    columns.push({ index, header, field, kind });
+    used.add(index);
+  });
+
+  if (!columns.some((column) => column.field === INVOICE_NUMBER)) {
+    issues.push({
+      field: INVOICE_NUMBER,
+      severity: "error",
+      message: "No column is mapped to invoice_number, so rows cannot be grouped into invoices",
+    });
+  }
+
+  const unmapped = headers.filter((header, index) => header.trim() && !used.has(index));
+  return { columns, unmapped };
+}
+
+/** Reads and validates a mapping file */
+export async function loadMapping(path: string): Promise<SpreadsheetMapping> {
+  const parsed = SpreadsheetMappingSchema.safeParse(JSON.parse(await readFileAsString(path)));
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid mapping file ${path}: ${problems.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export async function saveMapping(path: string, mapping: SpreadsheetMapping): Promise<void> {
+  await writeFile(path, JSON.stringify(mapping, null, 2) + "\n", "utf-8");
+}
+
+// ── Grouping ──
+
+interface Group {
+  number: string;
+  firstRow: number;
+  invoice: Record<string, unknown>;
+  /** Row each invoice-level field was read from */
+  sources: Map<string, number>;
+  items: Array<{ row: number; item: Record<string, unknown> }>;
+  /** Cells (`row/column`) that could not be read; any of them leaves the invoice out */
+  unreadable: Set<string>;
+}
+
+function groupRows(
+  rows: Rows,
+  headerRow: number,
+  columns: Column[],
+  mapping: SpreadsheetMapping,
+  issues: ImportIssue[]
+): { groups: Group[]; dataRows: number } {
+  const groups: Group[] = [];
+  let dataRows = 0;
+
+  for (let r = headerRow; r < rows.length; r++) {
+    const cells = rows[r] ?? [];
+    if (!cells.some((cell) => cell.trim())) continue;
+    dataRows++;
+    const row = r + 1;
+
+    const values = new Map<string, CellValue>();
+    const cellErrors: ImportIssue[] = [];
+    for (const column of columns) {
+      const text = cells[column.index] ?? "";
+      if (!text.trim()) continue;
+      const value = coerce(text, column.kind, mapping);
+      if (typeof value === "object") {
+        cellErrors.push({ row, column: column.header, field: column.field, severity: "error", message: value.error });
+      } else {
+        values.set(column.field, value);
+      }
+    }
+
+    const number = values.get(INVOICE_NUMBER);
+    let group = groups[groups.length - 1];
+    if (number !== undefined && String(number) !== group?.number) {
+      group = groups.find((g) => g.number === String(number)) ?? {
+        number: String(number),
+        firstRow: row,
+        invoice: {},
+        sources: new Map(),
+        items: [],
+        unreadable: new Set(),
+      };
+      if (!groups.includes(group)) groups.push(group);
+    } else if (!group) {
+      issues.push(...cellErrors);
+      issues.push({ row, field: INVOICE_NUMBER, severity: "error", message: "Row has no invoice number" });
+      continue;
+    }
+    for (const error of cellErrors) {
+      issues.push({ ...error, invoice_number: group.number });
+      group.unreadable.add(`${error.row}/${error.column}`);
+    }
+
+    const item: Record<string, unknown> = {};
+    for (const [field, value] of values) {
+      if (field.startsWith(ITEM_PREFIX)) {
+        setPath(item, field.slice(ITEM_PREFIX.length), value);
+        continue;
+      }
+      const source = group.sources.get(field);
+      if (source === undefined) {
+        setPath(group.invoice, field, value);
+        group.sources.set(field, row);
+      } else if (field !== INVOICE_NUMBER) {
+        const first = readPath(group.invoice, field);
+        if (first !== value) {
+          const column = columns.find((c) => c.field === field)?.header;
+          issues.push({
+            row,
+            column,
+            field,
+            invoice_number: group.number,
+            severity: "warning",
+            message: `'${value}' differs from '${first}' in row ${source}; the first value is used`,
+          });
+        }
+      }
+    }
+    if (Object.keys(item).length) group.items.push({ row, item });
+  }
+  return { groups, dataRows };
+}
+
+// ── Totals ──
+
+/** Converts the mapping's default values to their fields' kinds, reporting those that do not fit */
+function resolveDefaults(mapping: SpreadsheetMapping, issues: ImportIssue[]): Array<[string, CellValue]> {
+  const defaults: Array<[string, CellValue]> = [];
+  for (const [field, raw] of Object.entries(mapping.defaults ?? {})) {
+    const kind = fieldKind(field);
+    const value = kind
+      ? coerce(String(raw), kind, mapping)
+      : { error: `'${field}' is not a single-value Invoice field` };
+    if (typeof value === "object") {
+      issues.push({ field, severity: "error", message: `Default: ${value.error}` });
+    } else {
+      defaults.push([field, value]);
+    }
+  }
+  return defaults;
+}
+
+function applyDefaults(group: Group, defaults: Array<[string, CellValue]>): void {
+  for (const [field, value] of defaults) {
+    if (field.startsWith(ITEM_PREFIX)) {
+      const path = field.slice(ITEM_PREFIX.length);
+      for (const { item } of group.items) {
+        if (readPath(item, path) === undefined) setPath(item, path, value);
+      }
+    } else if (readPath(group.invoice, field) === undefined) {
+      setPath(group.invoice, field, value);
+    }
+  }
+}
+
+/** Fills the line amounts, unit prices with VAT and invoice totals the sheet leaves out */
+function fillTotals(invoice: Record<string, unknown>, items: Array<Record<string, unknown>>): void {
+  const netByRate = new Map<string, { rate: number; net: number }>();
+  let lineNetSum = 0;
+
+  for (const item of items) {
+    const price = (item.price_details ?? {}) as Record<string, unknown>;
+    const quantity = item.item_quantity;
+    const unitPrice = price.item_price_without_vat;
+    const rate = typeof price.item_vat_percentage === "number" ? price.item_vat_percentage : undefined;
+    if (rate !== undefined && rate > 0) price.vat_category_code ??= "S";
+    if (typeof unitPrice === "number" && rate !== undefined) {
+      price.item_price_with_vat ??= round2(unitPrice * (1 + rate / 100));
+    }
+    item.price_details = price;
+    if (typeof quantity !== "number" || typeof unitPrice !== "number") continue;
+
+    const discount = typeof price.item_price_discount === "number" ? price.item_price_discount : 0;
+    const net = (item.item_total_amount_without_vat ??= round2(quantity * (unitPrice - discount))) as number;
+    if (rate !== undefined) item.item_total_amount_with_vat ??= round2(net * (1 + rate / 100));
+    lineNetSum += net;
+    const key = `${price.vat_category_code}/${rate ?? 0}`;
+    const group = netByRate.get(key) ?? { rate: rate ?? 0, net: 0 };
+    group.net += net;
+    netByRate.set(key, group);
+  }
+
+  const totals = (invoice.totals ?? {}) as Record<string, number>;
+  totals.total_amount_without_vat ??= round2(lineNetSum);
+  totals.total_vat_amount ??= round2(
+    [...netByRate.values()].reduce((sum, { rate, net }) => sum + round2((net * rate) / 100), 0)
+  );
+  totals.total_amount_with_vat ??= round2(totals.total_amount_without_vat + totals.total_vat_amount);
+  totals.paid_amount ??= 0;
+  totals.amount_due_for_payment ??= round2(
+    totals.total_amount_with_vat - totals.paid_amount + (totals.rounding_amount ?? 0)
+  );
+  invoice.totals = totals;
+}
+
+// ── Public helpers ──
+
+/** The row and column an issue at Invoice JSON `path` comes from */
+function locate(group: Group, path: string, columns: Column[]): Pick<ImportIssue, "row" | "column"> {
+  const itemIndex = /^items\[(\d+)\]\.?(.*)$/.exec(path);
+  const field = itemIndex ? `${ITEM_PREFIX}${itemIndex[2]}` : path.replace(/\[\d+\]/g, "");
+  const column = columns.find((c) => c.field === field)?.header;
+  const row = itemIndex ? group.items[Number(itemIndex[1])]?.row : group.sources.get(field);
+  return { row: row ?? group.firstRow, column };
+}
+
+/**
+ * Builds Invoice JSON from spreadsheet rows. Invoices with errors are left
+ * out of the result; every problem is reported with its row and column.
+ */
+export function importRows(rows: Rows, mapping: SpreadsheetMapping): Omit<SpreadsheetImport, "mapping_path"> {
+  const issues: ImportIssue[] = [];
+  const headerRow = mapping.header_row ?? 1;
+  const { columns, unmapped } = resolveColumns(rows[headerRow - 1] ?? [], mapping, issues);
+  const defaults = resolveDefaults(mapping, issues);
+  if (issues.some((issue) => issue.severity === "error")) {
+    const summary = { rows: 0, invoices: 0, imported: 0, failed: 0 };
+    return { invoices: [], issues, summary, unmapped_columns: unmapped };
+  }
+
+  const { groups, dataRows } = groupRows(rows, headerRow, columns, mapping, issues);
+  const invoices: Invoice[] = [];
+  for (const group of groups) {
+    applyDefaults(group, defaults);
+    // Lines without an identifier are numbered
+    const items = group.items.map(({ item }, i) => ({ ...item, item_identifier: item.item_identifier ?? `${i + 1}` }));
+    const invoice: Record<string, unknown> = { ...group.invoice, items };
+    invoice.payment_information ??= {};
+    for (const role of ["seller", "buyer"] as const) {
+      const party = invoice[role] as Record<string, unknown> | undefined;
+      if (party) party.contact ??= {};
+    }
+    fillTotals(invoice, items);
+
+    const groupIssues: ImportIssue[] = [];
+    const parsed = InvoiceSchema.safeParse(invoice);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path.map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`)).join("").slice(1);
+        const missing = issue.code === "invalid_type" && issue.received === "undefined";
+        const message = missing ? "Required, but missing" : issue.message;
+        groupIssues.push({ ...locate(group, field, columns), field, severity: "error", message });
+      }
+    } else {
+      for (const issue of checkInvoice(parsed.data)) {
+        const { path, severity, message } = issue;
+        groupIssues.push({ ...locate(group, path, columns), field: path, severity, message });
+      }
+    }
+    // A cell that could not be read is already reported; its field then also shows up as missing
+    const reported = groupIssues.filter((issue) => !group.unreadable.has(`${issue.row}/${issue.column}`));
+    issues.push(...reported.map((issue) => ({ ...issue, invoice_number: group.number })));
+    const failed = group.unreadable.size > 0 || groupIssues.some((issue) => issue.severity === "error");
+    if (parsed.success && !failed) invoices.push(parsed.data);
+  }
+
+  issues.sort((a, b) => (a.row ?? 0) - (b.row ?? 0));
+  return {
+    invoices,
+    issues,
+    summary: {
+      rows: dataRows,
+      invoices: groups.length,
+      imported: invoices.length,
+      failed: groups.length - invoices.length,
+    },
+    unmapped_columns: unmapped,
+  };
+}
+
+/**
+ * Writes each invoice to `<dir>/<invoice_number>.json`, suffixing numbers
+ * that would share a file name. Returns the file paths.
+ */
+export async function writeInvoices(dir: string, invoices: Invoice[]): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+  const stems = fileStems(invoices.map((invoice) => invoice.invoice_number));
+  const files: string[] = [];
+  for (const [i, invoice] of invoices.entries()) {
+    const file = join(dir, `${stems[i]}.json`);
+    await writeFile(file, JSON.stringify(invoice, null, 2), "utf-8");
+    files.push(file);
+  }
+  return files;
+}
@@ -0,0 +1,213 @@
+import { inflateRawSync } from "node:zlib";
+import { extname } from "node:path";
+import { XMLParser } from "fast-xml-parser";
+import { readFileAsBuffer } from "./api-client.js";
+
+// ── Reading .csv and .xlsx ──
+//
+// Both formats are read into rows of cell text. XLSX workbooks are ZIP
+// archives of SpreadsheetML; only the parts needed for cell values are
+// read (workbook, relationships, shared strings and one worksheet), so no
+// spreadsheet library is required.
+
+export type Rows = string[][];
+
+// ── CSV ──
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+/** The delimiter that occurs most often in the first line, outside quotes */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, "");
+  const counts = CSV_DELIMITERS.map((d) => firstLine.split(d).length - 1);
+  return CSV_DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/** Parses RFC 4180 CSV: quoted fields may contain delimiters, line breaks and doubled quotes */
+export function parseCsv(text: string, delimiter?: string): Rows {
+  const source = text.replace(/^\uFEFF/, "");
+  const sep = delimiter ?? detectDelimiter(source);
+  const rows: Rows = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ── ZIP ──
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Reads the entries of a ZIP archive by name. Only stored and deflated entries are supported. */
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not an XLSX file: no ZIP directory found");
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) throw new Error("Corrupt XLSX file");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, () => {
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw new Error("Corrupt XLSX file");
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data);
+      throw new Error(`Unsupported compression method ${method} in ${name}`);
+    });
+  }
+  return entries;
+}
+
+// ── XLSX ──
+
+type XmlObject = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+  isArray: (name) => ["sheet", "Relationship", "si", "r", "row", "c"].includes(name),
+});
+
+function asArray(value: unknown): XmlObject[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]) as XmlObject[];
+}
+
+/** Text of an element that may be a plain string or carry attributes such as xml:space */
+function textOf(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return String((value as XmlObject)["#text"] ?? "");
+  return String(value);
+}
+
+/** Text of a shared or inline string, concatenating rich text runs */
+function stringItem(item: XmlObject): string {
+  if (item.t !== undefined) return textOf(item.t);
+  return asArray(item.r).map((run) => textOf(run.t)).join("");
+}
+
+/** Zero-based column index of a cell reference such as "AB12" */
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] ?? "";
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function readXml(entries: Map<string, () => Buffer>, name: string): XmlObject | undefined {
+  const entry = entries.get(name);
+  return entry ? (parser.parse(entry().toString("utf-8")) as XmlObject) : undefined;
+}
+
+/** Path of the worksheet named `sheet`, or of the first one */
+function worksheetPath(entries: Map<string, () => Buffer>, sheet: string | undefined): string {
+  const workbook = readXml(entries, "xl/workbook.xml")?.workbook as XmlObject | undefined;
+  const sheets = asArray((workbook?.sheets as XmlObject | undefined)?.sheet);
+  if (!sheets.length) throw new Error("The workbook has no worksheets");
+  const chosen = sheet === undefined ? sheets[0] : sheets.find((s) => s["@_name"] === sheet);
+  if (!chosen) {
+    const names = sheets.map((s) => `'${s["@_name"]}'`).join(", ");
+    throw new Error(`The workbook has no sheet '${sheet}'. Sheets: ${names}`);
+  }
+  const rels = readXml(entries, "xl/_rels/workbook.xml.rels")?.Relationships as XmlObject | undefined;
+  const rel = asArray(rels?.Relationship).find((r) => r["@_Id"] === chosen["@_id"]);
+  const target = String(rel?.["@_Target"] ?? "worksheets/sheet1.xml");
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/** Reads the cell values of one worksheet. Numbers and dates keep their stored form, e.g. date serials. */
+export function parseXlsx(buffer: Buffer, sheet?: string): Rows {
+  const entries = readZip(buffer);
+  const sharedStrings = asArray(
+    (readXml(entries, "xl/sharedStrings.xml")?.sst as XmlObject | undefined)?.si
+  ).map(stringItem);
+
+  const path = worksheetPath(entries, sheet);
+  const worksheet = readXml(entries, path)?.worksheet as XmlObject | undefined;
+  if (!worksheet) throw new Error(`Worksheet ${path} is missing from the workbook`);
+
+  const rows: Rows = [];
+  for (const row of asArray((worksheet.sheetData as XmlObject | undefined)?.row)) {
+    const index = Number(row["@_r"] ?? rows.length + 1) - 1;
+    const cells: string[] = [];
+    asArray(row.c).forEach((cell, i) => {
+      const ref = cell["@_r"];
+      const column = typeof ref === "string" ? columnIndex(ref) : i;
+      const type = cell["@_t"];
+      let value = textOf(cell.v);
+      if (type === "s") value = sharedStrings[Number(value)] ?? "";
+      else if (type === "inlineStr") value = stringItem((cell.is ?? {}) as XmlObject);
+      else if (type === "b") value = value === "1" ? "true" : "false";
+      cells[column] = value;
+    });
+    rows[index] = Array.from(cells, (cell) => cell ?? "");
+  }
+  return Array.from(rows, (row) => row ?? []);
+}
+
+// ── Public helpers ──
+
+/** Reads a .csv or .xlsx file into rows of cell text */
+export async function readSpreadsheet(
+  filePath: string,
+  options: { sheet?: string; delimiter?: string } = {}
+): Promise<Rows> {
+  const ext = extname(filePath).toLowerCase();
+  const buffer = await readFileAsBuffer(filePath);
+  if (ext === ".xlsx") return parseXlsx(buffer, options.sheet);
+  if (ext === ".csv" || ext === ".txt") return parseCsv(buffer.toString("utf-8"), options.delimiter);
+  throw new Error(`Unsupported spreadsheet type '${ext}'. Use .xlsx or .csv.`);
+}
@@ -1,21 +1,147 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
 import { z } from "zod";
-import { BatchOperationSchema } from "../schemas.js";
+import { BatchOperationSchema, BatchResultSchema, BatchRunSchema, type BatchResult, type BatchRun } from "../schemas.js";
 import { postJsonGetJson, handleApiError } from "../api-client.js";
+import {
+  BATCH_CHUNK_SIZE,
+  completeResults,
+  recordResults,
+  fileStems,
+  operationsFromGlob,
+  outputExtension,
+  planChunkedRun,
+  resolveInput,
+  runChunked,
+  serializeOutput,
+  toApiOperation,
+  writeManifest,
+  writeOutput,
+  type BatchItemResult,
+  type BatchOperation,
+} from "../batch.js";
+import type { CreditEstimate } from "../credits.js";
+import { formatDuplicate } from "../duplicates.js";
+import { progressReporter, withCreditGuard, withRetryReport } from "./common.js";
 
-interface BatchResult {
-  results: Array<{
-    id: string;
-    success: boolean;
-    output?: unknown;
-    error?: string;
-  }>;
-  summary: {
-    total: number;
-    successful: number;
-    failed: number;
-    processing_time_ms: number;
-  };
+const PREVIEW_LENGTH = 200;
+
+const outputModeSchema = z
+  .enum(["preview", "full", "resource"])
+  .default("preview")
+  .describe(
+    "How outputs appear in the text response: 'preview' (first 200 characters), 'full' (complete output inline) " +
+      "or 'resource' (one MCP embedded resource per output). Structured content always holds the full outputs."
+  );
+
+function formatResults(result: BatchResult, mode: z.infer<typeof outputModeSchema>): CallToolResult["content"] {
+  const lines: string[] = [
+    `Batch complete: ${result.summary.successful}/${result.summary.total} succeeded` +
+      ` (${result.summary.processing_time_ms}ms)`,
+  ];
+  if (result.manifest_path) lines.push(`Manifest: ${result.manifest_path}`);
+  lines.push("");
+
+  const resources: CallToolResult["content"] = [];
+  const stems = fileStems(result.results.map((r) => r.id));
+  for (const [i, r] of result.results.entries()) {
+    if (!r.success) {
+      lines.push(`[${r.id}] FAILED: ${r.error ?? "Unknown error"}`, "");
+      continue;
+    }
+
+    const text = serializeOutput(r.output);
+    const saved = r.output_file ? ` (saved to ${r.output_file})` : "";
+    if (mode === "full") {
+      lines.push(`[${r.id}] OK${saved}:`, text);
+    } else if (mode === "resource") {
+      const ext = outputExtension(r.output);
+      lines.push(`[${r.id}] OK${saved}`);
+      resources.push({
+        type: "resource",
+        resource: {
+          uri: `invapi://batch/${stems[i]}${ext}`,
+          mimeType: ext === ".xml" ? "application/xml" : "application/json",
+          text,
+        },
+      });
+    } else {
+      const preview = text.slice(0, PREVIEW_LENGTH) + (text.length > PREVIEW_LENGTH ? "…" : "");
+      lines.push(`[${r.id}] OK${saved}: ${preview}`);
+    }
+    for (const match of r.duplicates ?? []) lines.push(`Warning: ${formatDuplicate(match)}`);
+    lines.push("");
+  }
+
+  return [{ type: "text", text: lines.join("\n") }, ...resources];
+}
+
+// ── Large runs ──
+
+interface LargeRunArgs {
+  operations?: BatchOperation[];
+  input_glob?: string;
+  glob_operation?: BatchOperation["operation"];
+  glob_cwd?: string;
+  output_dir: string;
+  checkpoint_path?: string;
+  restart: boolean;
+}
+
+async function collectOperations(args: LargeRunArgs): Promise<BatchOperation[]> {
+  const operations = [...(args.operations ?? [])];
+  if (args.input_glob && args.glob_operation) {
+    operations.push(...(await operationsFromGlob(args.input_glob, args.glob_operation, args.glob_cwd)));
+  }
+  return operations;
+}
+
+function checkpointPathFor(args: LargeRunArgs): string {
+  return args.checkpoint_path ?? join(args.output_dir, "checkpoint.json");
+}
+
+/** One conversion credit per operation not yet converted in the checkpoint */
+async function estimateChunkedRun(args: LargeRunArgs): Promise<CreditEstimate> {
+  const operations = await collectOperations(args);
+  const { pending } = await planChunkedRun(operations, checkpointPathFor(args), args.restart);
+  return { conversion: pending };
+}
+
+function formatRun(run: BatchRun): string {
+  const { summary } = run;
+  const lines = [
+    `Batch run: ${summary.successful}/${summary.total} succeeded, ${summary.failed} failed` +
+      (summary.skipped ? `, ${summary.skipped} already done in checkpoint` : "") +
+      (summary.pending ? `, ${summary.pending} pending` : "") +
+      ` (${summary.processing_time_ms}ms API time)`,
+    `Manifest: ${run.manifest_path}`,
+    `Checkpoint: ${run.checkpoint_path}`,
+  ];
+  if (run.stopped_reason === "insufficient_credits") {
+    lines.push(
+      "",
+      "Stopped: insufficient credits. Top up your account at https://invapi.org and run the same call " +
+        "again to resume from the checkpoint."
+    );
+  } else if (summary.pending) {
+    lines.push("", "Run the same call again to process the pending operations.");
+  }
+
+  const failures = run.results.filter((r) => !r.success);
+  if (failures.length) {
+    lines.push("", "Failures:");
+    for (const r of failures) lines.push(`  [${r.id}] ${r.error ?? "Unknown error"}`);
+  }
+  const duplicates = run.results.filter((r) => r.duplicates?.length);
+  if (duplicates.length) {
+    lines.push("", "Possible duplicates:");
+    for (const r of duplicates) {
+      for (const match of r.duplicates ?? []) lines.push(`  [${r.id}] ${formatDuplicate(match)}`);
+    }
+  }
+  return lines.join("\n");
 }
 
 export function registerBatchTools(server: McpServer): void {
@@ -32,14 +158,23 @@ export function registerBatchTools(server: McpServer): void {
         "  - ubl_to_json: UBL XML string → Invoice JSON\n" +
         "  - cii_to_json: CII XML string → Invoice JSON\n" +
         "  - zugferd_to_json: ZUGFeRD data → Invoice JSON\n\n" +
-        "Each operation needs an 'id' (returned in results), an 'operation' type, and 'input' data.",
+        "Each operation needs an 'id' (returned in results), an 'operation' type, and either inline 'input' " +
+        "data or a 'file_path'. Set 'output_dir' to write each output to <id>.xml or <id>.json plus a " +
+        "manifest.json summarising successes and failures. " +
+        "With the ledger on (INVAPI_DATA_DIR), results list likely duplicates of invoices read earlier.",
       inputSchema: {
         operations: z
           .array(BatchOperationSchema)
           .min(1)
           .max(100)
           .describe("Array of conversion operations to perform"),
+        output_dir: z
+          .string()
+          .optional()
+          .describe("Directory to write outputs and manifest.json to (created if missing)"),
+        output_mode: outputModeSchema,
       },
+      outputSchema: BatchResultSchema.shape,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -47,35 +182,157 @@ export function registerBatchTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async ({ operations }) => {
+    withRetryReport(withCreditGuard(({ operations }) => ({ conversion: operations.length }), async ({ operations, output_dir, output_mode }) => {
       try {
-        const result = await postJsonGetJson<BatchResult>("/api/v1/batch/convert", {
-          operations,
-        });
-
-        const lines: string[] = [
-          `Batch complete: ${result.summary.successful}/${result.summary.total} succeeded` +
-            ` (${result.summary.processing_time_ms}ms)`,
-          "",
-        ];
-
-        for (const r of result.results) {
-          if (r.success) {
-            const preview =
-              typeof r.output === "string"
-                ? r.output.slice(0, 200) + (r.output.length > 200 ? "…" : "")
-                : JSON.stringify(r.output, null, 2).slice(0, 200);
-            lines.push(`[${r.id}] OK: ${preview}`);
+        // Operations whose input cannot be loaded fail locally and are not sent
+        const toSend: BatchOperation[] = [];
+        const localFailures = new Map<string, BatchItemResult>();
+        for (const op of operations) {
+          const resolved = await resolveInput(op);
+          if ("error" in resolved) {
+            localFailures.set(op.id, { id: op.id, success: false, error: resolved.error });
           } else {
-            lines.push(`[${r.id}] FAILED: ${r.error ?? "Unknown error"}`);
+            toSend.push(resolved.op);
           }
-          lines.push("");
         }
 
-        return { content: [{ type: "text", text: lines.join("\n") }] };
+        const remote: BatchResult = toSend.length
+          ? await postJsonGetJson<BatchResult>(
+              "/api/v1/batch/convert",
+              { operations: toSend.map(toApiOperation) },
+              { idempotent: false }
+            )
+          : { results: [], summary: { total: 0, successful: 0, failed: 0, processing_time_ms: 0 } };
+
+        // Keep results in the order the operations were given
+        const completed = await recordResults(
+          operations,
+          toSend,
+          completeResults(toSend, remote.results),
+          "invapi_batch_convert"
+        );
+        const remoteById = new Map(completed.map((r) => [r.id, r]));
+        const results = operations
+          .map((op) => localFailures.get(op.id) ?? remoteById.get(op.id))
+          .filter((r): r is BatchItemResult => r !== undefined);
+        const successful = results.filter((r) => r.success).length;
+
+        let result: BatchResult = {
+          results,
+          summary: {
+            total: results.length,
+            successful,
+            failed: results.length - successful,
+            processing_time_ms: remote.summary.processing_time_ms,
+          },
+        };
+        if (output_dir) {
+          await mkdir(output_dir, { recursive: true });
+          const stems = fileStems(result.results.map((r) => r.id));
+          const written = await Promise.all(result.results.map((r, i) => writeOutput(output_dir, r, stems[i])));
+          const manifestPath = await writeManifest(output_dir, result.summary, written);
+          result = { ...result, results: written, manifest_path: manifestPath };
+        }
+
+        return {
+          content: formatResults(result, output_mode),
+          structuredContent: result,
+          _meta: { credits_used: { conversion: toSend.length } },
+        };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
+  );
+
+  server.registerTool(
+    "invapi_batch_convert_large",
+    {
+      title: "Batch Convert Large Invoice Sets",
+      description:
+        "Run any number of conversion operations, or one operation over every file matching a glob. " +
+        `Operations are sent in chunks of ${BATCH_CHUNK_SIZE} with bounded concurrency, outputs are ` +
+        "written to output_dir as <id>.xml or <id>.json and a manifest.json lists successes and failures.\n\n" +
+        "Progress is recorded in a checkpoint file after every chunk. If a run crashes or runs out of " +
+        "credits, call the tool again with the same arguments: converted operations are skipped and " +
+        "failed ones are tried again. " +
+        "Sends MCP progress notifications when the client provides a progress token. " +
+        "With the ledger on (INVAPI_DATA_DIR), results list likely duplicates of invoices read earlier.",
+      inputSchema: {
+        operations: z
+          .array(BatchOperationSchema)
+          .optional()
+          .describe("Conversion operations to perform (no upper limit)"),
+        input_glob: z
+          .string()
+          .optional()
+          .describe("Glob of input files, e.g. 'invoices/**/*.xml'. Each file becomes one operation."),
+        glob_operation: BatchOperationSchema.shape.operation
+          .optional()
+          .describe("Operation to run on every file matched by input_glob"),
+        glob_cwd: z
+          .string()
+          .optional()
+          .describe("Directory input_glob is resolved against (default: the server's working directory)"),
+        output_dir: z.string().describe("Directory to write outputs, manifest.json and the checkpoint to"),
+        checkpoint_path: z
+          .string()
+          .optional()
+          .describe("Checkpoint file (default: <output_dir>/checkpoint.json)"),
+        restart: z
+          .boolean()
+          .default(false)
+          .describe("Ignore an existing checkpoint and process every operation again"),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(8)
+          .default(2)
+          .describe("Number of chunks sent in parallel"),
+      },
+      outputSchema: BatchRunSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(withCreditGuard(estimateChunkedRun, async (args, extra) => {
+      try {
+        if (args.input_glob && !args.glob_operation) {
+          return {
+            content: [{ type: "text", text: "Error: 'glob_operation' is required with 'input_glob'." }],
+            isError: true,
+          };
+        }
+
+        const operations = await collectOperations(args);
+        if (!operations.length) {
+          return {
+            content: [{ type: "text", text: "Error: No operations. Provide 'operations' or an 'input_glob' matching files." }],
+            isError: true,
+          };
+        }
+
+        const report = progressReporter(extra);
+        const run = await runChunked(operations, {
+          outputDir: args.output_dir,
+          checkpointPath: checkpointPathFor(args),
+          restart: args.restart,
+          concurrency: args.concurrency,
+          onProgress: (done, total) => report(done, total, `${done}/${total} operations processed`),
+        });
+
+        return {
+          content: [{ type: "text", text: formatRun(run) }],
+          structuredContent: run,
+          _meta: { credits_used: { conversion: run.summary.sent } },
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
   );
 }
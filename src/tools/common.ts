@@ -0,0 +1,138 @@
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { InvoiceSchema, type DuplicateMatch } from "../schemas.js";
+import { trackAnsweredCalls, trackRetries } from "../retry.js";
+import { checkCredits, formatEstimate, getGuardMode, recordSpend, totalCredits, type CreditEstimate } from "../credits.js";
+import { formatDuplicate } from "../duplicates.js";
+
+/**
+ * Wraps a tool handler so its result reports how many API retries were
+ * needed: always in `_meta.retries`, and as a trailing text note when
+ * any retries happened.
+ */
+export function withRetryReport<A extends unknown[]>(
+  handler: (...args: A) => Promise<CallToolResult>
+): (...args: A) => Promise<CallToolResult> {
+  return async (...args) => {
+    const { result, retries } = await trackRetries(() => handler(...args));
+    const content = retries
+      ? [
+          ...result.content,
+          { type: "text" as const, text: `(${retries} ${retries === 1 ? "retry" : "retries"} used)` },
+        ]
+      : result.content;
+    return { ...result, content, _meta: { ...result._meta, retries } };
+  };
+}
+
+/**
+ * Wraps a tool handler with the credit guard: estimates the credits the
+ * call will use, compares them with INVAPI_CREDIT_BUDGET and the account
+ * balance, and refuses (or warns, see INVAPI_CREDIT_GUARD) when either
+ * would run out. Calls the API answered are recorded against the budget,
+ * even when the tool fails afterwards, using `_meta.credits_used` when the
+ * handler reports actual usage.
+ */
+export function withCreditGuard<Args, Extra extends { sessionId?: string }>(
+  estimate: (args: NoInfer<Args>) => CreditEstimate | Promise<CreditEstimate>,
+  handler: (args: Args, extra: Extra) => Promise<CallToolResult>
+): (args: Args, extra: Extra) => Promise<CallToolResult> {
+  return async (args, extra) => {
+    const mode = getGuardMode();
+    let expected: CreditEstimate;
+    try {
+      expected = await estimate(args);
+    } catch {
+      // The handler reports unreadable inputs itself
+      return handler(args, extra);
+    }
+    if (mode === "off" || totalCredits(expected) === 0) {
+      return handler(args, extra);
+    }
+
+    const check = await checkCredits(expected, extra.sessionId);
+    if (check.problems.length && mode === "refuse") {
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Credit guard: this call was not run. Estimated cost: ${formatEstimate(expected)}.\n` +
+              check.problems.map((problem) => `  - ${problem}`).join("\n") +
+              "\nSet INVAPI_CREDIT_GUARD=warn to run such calls anyway.",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { result, answered } = await trackAnsweredCalls(() => handler(args, extra));
+    if (answered) {
+      const used = result._meta?.credits_used as CreditEstimate | undefined;
+      recordSpend(used ?? expected, extra.sessionId);
+    }
+
+    const notes = [...(mode === "warn" ? check.problems : []), ...check.notes];
+    if (!notes.length) return result;
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: `Credit guard: ${notes.join(" ")}` }],
+    };
+  };
+}
+
+/**
+ * Returns a callback that sends MCP progress notifications for the current
+ * tool call, or a no-op when the client did not ask for progress.
+ */
+export function progressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): (progress: number, total: number, message?: string) => Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return async () => {};
+  return (progress, total, message) =>
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    });
+}
+
+/** Formats a zod issue path as a field path, e.g. "items[0].price_details" */
+export function formatFieldPath(path: ReadonlyArray<string | number>): string {
+  return path
+    .map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`))
+    .join("")
+    .replace(/^\./, "");
+}
+
+/**
+ * Builds the result for tools that return an Invoice: pretty JSON as text
+ * plus `structuredContent`. The API has already charged for the response,
+ * so one that does not fit InvoiceSchema is still returned, with a warning
+ * listing the mismatching fields; InvoiceOutputSchema lets it through.
+ * Likely duplicates found in the ledger are reported as a trailing warning
+ * and in `_meta.duplicates`, keeping the structured output a plain Invoice.
+ */
+export function invoiceResult(data: unknown, duplicates: DuplicateMatch[] = []): CallToolResult {
+  const json = JSON.stringify(data, null, 2);
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { content: [{ type: "text", text: `The API response is not an Invoice:\n\n${json}` }], isError: true };
+  }
+  const warnings: string[] = [];
+  const parsed = InvoiceSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `  - ${formatFieldPath(issue.path) || "(root)"}: ${issue.message}`
+    );
+    warnings.push(`Warning: the API response does not match InvoiceSchema:\n${issues.join("\n")}`);
+  }
+  warnings.push(...duplicates.map((match) => `Warning: ${formatDuplicate(match)}`));
+  return {
+    content: [
+      { type: "text", text: json },
+      ...(warnings.length ? [{ type: "text" as const, text: warnings.join("\n") }] : []),
+    ],
+    structuredContent: data as Record<string, unknown>,
+    ...(duplicates.length ? { _meta: { duplicates } } : {}),
+  };
+}
@@ -1,6 +1,19 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { InvoiceSchema } from "../schemas.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  InvoiceSchema,
+  InvoiceOutputSchema,
+  ProfileSchema,
+  XmlOutputSchema,
+  FileOutputSchema,
+  XmlConversionOutputSchema,
+  ZugferdConversionOutputSchema,
+  ZugferdPdfOutputSchema,
+  type Invoice,
+  type ProfileId,
+} from "../schemas.js";
+import { checkInvoice, hasErrors, formatCheckIssues } from "../checks.js";
 import {
   postJsonGetText,
   postJsonGetJson,
@@ -14,6 +27,182 @@ import {
   getFileName,
   handleApiError,
 } from "../api-client.js";
+import {
+  completeInvoiceJson,
+  completeInvoiceXml,
+  formatPdfOmissions,
+  pdfModel,
+  pdfOmissions,
+  toApiInvoice,
+} from "../invoice-xml.js";
+import { resolveAttachments, saveAttachments } from "../attachments.js";
+import { PROFILES, unsupportedSyntax } from "../profiles.js";
+import { DEFAULT_DOCUMENT_TYPE } from "../document-type.js";
+import { DOCUMENT_TYPE_CODES } from "../code-lists.js";
+import type { XmlFormat } from "../xml.js";
+import {
+  formatLostFields,
+  invoiceToXml,
+  lostFields,
+  retarget,
+  semanticModel,
+  xmlToInvoice,
+} from "../xml-conversion.js";
+import type { CreditEstimate } from "../credits.js";
+import { recordInvoice, recordInvoices } from "../ledger.js";
+import { formatValidationReport, validateXmlReport } from "./validation.js";
+import { withCreditGuard, withRetryReport, invoiceResult } from "./common.js";
+
+const skipChecksSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Skip the local pre-flight checks (totals, VAT, dates, currency) and send the invoice as-is");
+
+const attachmentsDirSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Directory to write embedded attachments to; their content in the result is replaced by file_path. " +
+      "If omitted, attachments keep their base64 content."
+  );
+
+const profileSchema = ProfileSchema.optional().describe(
+  "Target profile, overriding invoice.profile: sets the specification identifier (BT-24) and business process " +
+    "(BT-23) of the output. If neither is given, the API's default profile is used."
+);
+
+const validateSchema = z
+  .enum(["local", "remote", "both"])
+  .optional()
+  .describe(
+    "Validate the result: 'local' checks the core EN 16931 rules offline (no credits), 'remote' uses the " +
+      "Invapi API (one validation credit), 'both' compares the two. If omitted, the result is not validated."
+  );
+
+/** Two conversions through Invoice JSON, plus one validation credit unless validating locally only */
+function roundTripCost({ validate }: { validate?: "local" | "remote" | "both" }): CreditEstimate {
+  return validate && validate !== "local" ? { conversion: 2, validation: 1 } : { conversion: 2 };
+}
+
+/** Error result when the XML is not in the `expected` format */
+function formatError(actual: XmlFormat | "json", expected: XmlFormat): CallToolResult | undefined {
+  if (actual === expected) return undefined;
+  const text = `Error: Expected a ${expected.toUpperCase()} document, got ${actual.toUpperCase()}.`;
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/** Error result when `profile` cannot be produced in `format` */
+function profileError(profile: ProfileId | undefined, format: XmlFormat): CallToolResult | undefined {
+  const problem = profile && unsupportedSyntax(profile, format);
+  return problem ? { content: [{ type: "text", text: `Error: ${problem}.` }], isError: true } : undefined;
+}
+
+/**
+ * Error result for a document type other than a commercial invoice: the API
+ * renders the XML it embeds in a ZUGFeRD PDF as 380, and it cannot be fixed
+ * inside the PDF afterwards.
+ */
+function pdfDocumentTypeError(code: string | undefined): CallToolResult | undefined {
+  if (!code || code === DEFAULT_DOCUMENT_TYPE) return undefined;
+  const text =
+    `Error: ZUGFeRD PDFs can only embed a commercial invoice (${DEFAULT_DOCUMENT_TYPE}), not a ` +
+    `${DOCUMENT_TYPE_CODES[code]?.toLowerCase() ?? "document"} (${code}). Create UBL or CII XML for it instead.`;
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/** Error result for a profile passed to a ZUGFeRD PDF tool: the API embeds its default profile */
+function pdfProfileError(profile: ProfileId | undefined): CallToolResult | undefined {
+  if (!profile) return undefined;
+  const text =
+    `Error: ZUGFeRD PDFs get the API's default profile; ${PROFILES[profile].title} cannot be chosen. ` +
+    "Omit profile, or create CII XML in that profile instead.";
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/** `profile` of the ZUGFeRD PDF tools, accepted only to reject it rather than ignore it */
+const pdfProfileSchema = ProfileSchema.optional().describe(
+  "Not supported: the API embeds XML in its default profile, so a given profile is rejected. " +
+    "Create CII XML to choose one."
+);
+
+interface XmlConversionOptions {
+  /** Source file, for the ledger */
+  file_path?: string;
+  output_path?: string;
+  profile?: ProfileId;
+  validate?: "local" | "remote" | "both";
+}
+
+/**
+ * Converts UBL to CII or back through Invoice JSON, reporting the business
+ * terms lost on the way and validating the result when asked to.
+ */
+async function convertXml(
+  xmlContent: string,
+  from: XmlFormat,
+  to: XmlFormat,
+  { file_path, output_path, profile, validate }: XmlConversionOptions
+): Promise<CallToolResult> {
+  const source = semanticModel(xmlContent);
+  const wrongFormat = formatError(source.source, from);
+  if (wrongFormat) return wrongFormat;
+
+  const invoice = retarget(await xmlToInvoice(xmlContent, from), to, profile);
+  const converted = await invoiceToXml(invoice, to);
+  const lost = lostFields(source, semanticModel(converted));
+  const validation = validate
+    ? await validateXmlReport(converted, `/api/v1/${to}/validate`, to, validate, invoice.profile)
+    : undefined;
+  await recordInvoice(
+    invoice,
+    { tool: `invapi_convert_${from}_to_${to}`, format: from, file_path, content: xmlContent },
+    validation
+  );
+
+  const report = [formatLostFields(lost), ...(validation ? [formatValidationReport(validation)] : [])];
+  if (output_path) {
+    await saveBinaryFile(output_path, Buffer.from(converted, "utf-8"));
+    return {
+      content: [{ type: "text", text: [`${to.toUpperCase()} XML saved to ${output_path}`, ...report].join("\n\n") }],
+      structuredContent: { format: to, output_path, lost_fields: lost, validation },
+    };
+  }
+  return {
+    content: [
+      { type: "text", text: converted },
+      { type: "text", text: report.join("\n\n") },
+    ],
+    structuredContent: { format: to, xml: converted, lost_fields: lost, validation },
+  };
+}
+
+/**
+ * Runs the local pre-flight checks on every invoice. Returns an error result
+ * if any invoice has errors, so no credits are spent on a doomed request.
+ */
+function runPreflight(invoices: Invoice[], skip: boolean): CallToolResult | undefined {
+  if (skip) return undefined;
+
+  const issues = invoices.flatMap((invoice, i) =>
+    checkInvoice(invoice).map((issue) =>
+      invoices.length > 1 ? { ...issue, path: `invoices[${i}].${issue.path}` } : issue
+    )
+  );
+  if (!hasErrors(issues)) return undefined;
+
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          formatCheckIssues(issues) +
+          "\n\nFix the fields above and retry, or pass skip_checks: true to send the invoice anyway.",
+      },
+    ],
+    isError: true,
+  };
+}
 
 export function registerConversionTools(server: McpServer): void {
   // ── JSON → UBL ──
@@ -24,6 +213,8 @@ export function registerConversionTools(server: McpServer): void {
       title: "Convert JSON to UBL XML",
       description:
         "Converts an Invoice JSON object to UBL (Universal Business Language) XML format. " +
+        "Credit notes (document_type_code 381) are emitted with a CreditNote root. " +
+        "Attachments given by file_path are read from disk and embedded. " +
         "Optionally saves the XML to a file. Returns the UBL XML string.",
       inputSchema: {
         invoice: InvoiceSchema,
@@ -31,7 +222,10 @@ export function registerConversionTools(server: McpServer): void {
           .string()
           .optional()
           .describe("File path to save the UBL XML output. If omitted, XML is returned inline."),
+        skip_checks: skipChecksSchema,
+        profile: profileSchema,
       },
+      outputSchema: XmlOutputSchema.shape,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -39,18 +233,37 @@ export function registerConversionTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async ({ invoice, output_path }) => {
+    withRetryReport(withCreditGuard(() => ({ conversion: 1 }), async ({ invoice, output_path, skip_checks, profile }) => {
+      const target = { ...invoice, profile: profile ?? invoice.profile };
+      const unsupported = profileError(target.profile, "ubl");
+      if (unsupported) return unsupported;
+      const preflight = runPreflight([target], skip_checks);
+      if (preflight) return preflight;
+
       try {
-        const xml = await postJsonGetText("/api/v1/json/ubl", invoice);
+        const resolved = await resolveAttachments(target);
+        const generated = await postJsonGetText("/api/v1/json/ubl", toApiInvoice(resolved));
+        const xml = completeInvoiceXml(generated, resolved);
+        await recordInvoice(target, {
+          tool: "invapi_convert_json_to_ubl",
+          format: "json",
+          content: JSON.stringify(invoice),
+        });
         if (output_path) {
           await saveBinaryFile(output_path, Buffer.from(xml, "utf-8"));
-          return { content: [{ type: "text", text: `UBL XML saved to ${output_path}` }] };
+          return {
+            content: [{ type: "text", text: `UBL XML saved to ${output_path}` }],
+            structuredContent: { format: "ubl", output_path },
+          };
         }
-        return { content: [{ type: "text", text: xml }] };
+        return {
+          content: [{ type: "text", text: xml }],
+          structuredContent: { format: "ubl", xml },
+        };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── JSON → CII ──
@@ -61,6 +274,7 @@ export function registerConversionTools(server: McpServer): void {
       title: "Convert JSON to CII XML",
       description:
         "Converts an Invoice JSON object to CII (Cross-Industry Invoice) XML format. " +
+        "Attachments given by file_path are read from disk and embedded. " +
         "Optionally saves the XML to a file. Returns the CII XML string.",
       inputSchema: {
         invoice: InvoiceSchema,
@@ -68,7 +282,10 @@ export function registerConversionTools(server: McpServer): void {
           .string()
           .optional()
           .describe("File path to save the CII XML output. If omitted, XML is returned inline."),
+        skip_checks: skipChecksSchema,
+        profile: profileSchema,
       },
+      outputSchema: XmlOutputSchema.shape,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -76,18 +293,37 @@ export function registerConversionTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async ({ invoice, output_path }) => {
+    withRetryReport(withCreditGuard(() => ({ conversion: 1 }), async ({ invoice, output_path, skip_checks, profile }) => {
+      const target = { ...invoice, profile: profile ?? invoice.profile };
+      const unsupported = profileError(target.profile, "cii");
+      if (unsupported) return unsupported;
+      const preflight = runPreflight([target], skip_checks);
+      if (preflight) return preflight;
+
       try {
-        const xml = await postJsonGetText("/api/v1/json/cii", invoice);
+        const resolved = await resolveAttachments(target);
+        const generated = await postJsonGetText("/api/v1/json/cii", toApiInvoice(resolved));
+        const xml = completeInvoiceXml(generated, resolved);
+        await recordInvoice(target, {
+          tool: "invapi_convert_json_to_cii",
+          format: "json",
+          content: JSON.stringify(invoice),
+        });
         if (output_path) {
           await saveBinaryFile(output_path, Buffer.from(xml, "utf-8"));
-          return { content: [{ type: "text", text: `CII XML saved to ${output_path}` }] };
+          return {
+            content: [{ type: "text", text: `CII XML saved to ${output_path}` }],
+            structuredContent: { format: "cii", output_path },
+          };
         }
-        return { content: [{ type: "text", text: xml }] };
+        return {
+          content: [{ type: "text", text: xml }],
+          structuredContent: { format: "cii", xml },
+        };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── UBL → JSON ──
@@ -98,19 +334,24 @@ export function registerConversionTools(server: McpServer): void {
       title: "Convert UBL XML to JSON",
       description:
         "Converts a UBL XML invoice to the Invapi JSON Invoice format. " +
-        "Provide either the XML content as a string or a path to an XML file.",
+        "Provide either the XML content as a string or a path to an XML file. " +
+        "Embedded attachments can be written to attachments_dir. " +
+        "When the ledger is on (INVAPI_DATA_DIR), invoices already read from another document are flagged as " +
+        "likely duplicates.",
       inputSchema: {
         xml: z.string().optional().describe("UBL XML content as a string"),
         file_path: z.string().optional().describe("Path to a UBL XML file on disk"),
+        attachments_dir: attachmentsDirSchema,
       },
+      outputSchema: InvoiceOutputSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ xml, file_path }) => {
+    withRetryReport(withCreditGuard(() => ({ conversion: 1 }), async ({ xml, file_path, attachments_dir }) => {
       try {
         const xmlContent = xml ?? (file_path ? await readFileAsString(file_path) : null);
         if (!xmlContent) {
@@ -119,12 +360,20 @@ export function registerConversionTools(server: McpServer): void {
             isError: true,
           };
         }
-        const result = await postXmlGetJson("/api/v1/ubl/json", xmlContent);
-        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        const result = await postXmlGetJson<Record<string, unknown>>("/api/v1/ubl/json", xmlContent);
+        const completed = completeInvoiceJson(result, xmlContent);
+        const output = attachments_dir ? await saveAttachments(completed, attachments_dir) : completed;
+        const duplicates = await recordInvoice(output, {
+          tool: "invapi_convert_ubl_to_json",
+          format: "ubl",
+          file_path,
+          content: xmlContent,
+        });
+        return invoiceResult(output, duplicates);
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── CII → JSON ──
@@ -135,19 +384,82 @@ export function registerConversionTools(server: McpServer): void {
       title: "Convert CII XML to JSON",
       description:
         "Converts a CII XML invoice to the Invapi JSON Invoice format. " +
-        "Provide either the XML content as a string or a path to an XML file.",
+        "Provide either the XML content as a string or a path to an XML file. " +
+        "Embedded attachments can be written to attachments_dir. " +
+        "When the ledger is on (INVAPI_DATA_DIR), invoices already read from another document are flagged as " +
+        "likely duplicates.",
       inputSchema: {
         xml: z.string().optional().describe("CII XML content as a string"),
         file_path: z.string().optional().describe("Path to a CII XML file on disk"),
+        attachments_dir: attachmentsDirSchema,
+      },
+      outputSchema: InvoiceOutputSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(withCreditGuard(() => ({ conversion: 1 }), async ({ xml, file_path, attachments_dir }) => {
+      try {
+        const xmlContent = xml ?? (file_path ? await readFileAsString(file_path) : null);
+        if (!xmlContent) {
+          return {
+            content: [{ type: "text", text: "Error: Provide either 'xml' or 'file_path'." }],
+            isError: true,
+          };
+        }
+        const result = await postXmlGetJson<Record<string, unknown>>("/api/v1/cii/json", xmlContent);
+        const completed = completeInvoiceJson(result, xmlContent);
+        const output = attachments_dir ? await saveAttachments(completed, attachments_dir) : completed;
+        const duplicates = await recordInvoice(output, {
+          tool: "invapi_convert_cii_to_json",
+          format: "cii",
+          file_path,
+          content: xmlContent,
+        });
+        return invoiceResult(output, duplicates);
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
+  );
+
+  // ── UBL → CII ──
+
+  server.registerTool(
+    "invapi_convert_ubl_to_cii",
+    {
+      title: "Convert UBL XML to CII XML",
+      description:
+        "Converts a UBL XML invoice to CII XML in one step, through Invoice JSON inside the MCP server, " +
+        "so no JSON passes through the conversation. " +
+        "Reports every business term of the source that is missing or changed in the result (lost_fields) " +
+        "and optionally validates the result. " +
+        "The profile the source claims is kept unless another is given. Uses two conversion credits.",
+      inputSchema: {
+        xml: z.string().optional().describe("UBL XML content as a string"),
+        file_path: z.string().optional().describe("Path to a UBL XML file on disk"),
+        output_path: z
+          .string()
+          .optional()
+          .describe("File path to save the CII XML output. If omitted, XML is returned inline."),
+        profile: profileSchema,
+        validate: validateSchema,
       },
+      outputSchema: XmlConversionOutputSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ xml, file_path }) => {
+    withRetryReport(withCreditGuard(roundTripCost, async ({ xml, file_path, output_path, profile, validate }) => {
+      const unsupported = profileError(profile, "cii");
+      if (unsupported) return unsupported;
+
       try {
         const xmlContent = xml ?? (file_path ? await readFileAsString(file_path) : null);
         if (!xmlContent) {
@@ -156,12 +468,60 @@ export function registerConversionTools(server: McpServer): void {
             isError: true,
           };
         }
-        const result = await postXmlGetJson("/api/v1/cii/json", xmlContent);
-        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        return await convertXml(xmlContent, "ubl", "cii", { file_path, output_path, profile, validate });
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
+  );
+
+  // ── CII → UBL ──
+
+  server.registerTool(
+    "invapi_convert_cii_to_ubl",
+    {
+      title: "Convert CII XML to UBL XML",
+      description:
+        "Converts a CII XML invoice to UBL XML in one step, through Invoice JSON inside the MCP server, " +
+        "so no JSON passes through the conversation. " +
+        "Reports every business term of the source that is missing or changed in the result (lost_fields) " +
+        "and optionally validates the result. " +
+        "The profile the source claims is kept unless another is given. Uses two conversion credits.",
+      inputSchema: {
+        xml: z.string().optional().describe("CII XML content as a string"),
+        file_path: z.string().optional().describe("Path to a CII XML file on disk"),
+        output_path: z
+          .string()
+          .optional()
+          .describe("File path to save the UBL XML output. If omitted, XML is returned inline."),
+        profile: profileSchema,
+        validate: validateSchema,
+      },
+      outputSchema: XmlConversionOutputSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(withCreditGuard(roundTripCost, async ({ xml, file_path, output_path, profile, validate }) => {
+      const unsupported = profileError(profile, "ubl");
+      if (unsupported) return unsupported;
+
+      try {
+        const xmlContent = xml ?? (file_path ? await readFileAsString(file_path) : null);
+        if (!xmlContent) {
+          return {
+            content: [{ type: "text", text: "Error: Provide either 'xml' or 'file_path'." }],
+            isError: true,
+          };
+        }
+        return await convertXml(xmlContent, "cii", "ubl", { file_path, output_path, profile, validate });
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
   );
 
   // ── JSON → XLSX ──
@@ -176,7 +536,9 @@ export function registerConversionTools(server: McpServer): void {
       inputSchema: {
         invoices: z.array(InvoiceSchema).min(1).describe("Array of Invoice objects to export"),
         output_path: z.string().describe("File path to save the .xlsx file"),
+        skip_checks: skipChecksSchema,
       },
+      outputSchema: FileOutputSchema.shape,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -184,10 +546,19 @@ export function registerConversionTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async ({ invoices, output_path }) => {
+    withRetryReport(withCreditGuard(({ invoices }) => ({ conversion: invoices.length }), async ({ invoices, output_path, skip_checks }) => {
+      const preflight = runPreflight(invoices, skip_checks);
+      if (preflight) return preflight;
+
       try {
-        const buffer = await postJsonGetBinary("/api/v1/json/xlsx", { invoices });
+        const buffer = await postJsonGetBinary("/api/v1/json/xlsx", { invoices: invoices.map(toApiInvoice) });
         await saveBinaryFile(output_path, buffer);
+        await recordInvoices(
+          invoices.map((invoice) => ({
+            invoice,
+            source: { tool: "invapi_convert_json_to_xlsx", format: "json", content: JSON.stringify(invoice) },
+          }))
+        );
         return {
           content: [
             {
@@ -195,11 +566,12 @@ export function registerConversionTools(server: McpServer): void {
               text: `Excel file saved to ${output_path} (${invoices.length} invoice(s))`,
             },
           ],
+          structuredContent: { output_path, size_bytes: buffer.length },
         };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── JSON → ZUGFeRD PDF ──
@@ -211,12 +583,18 @@ export function registerConversionTools(server: McpServer): void {
       description:
         "Creates a ZUGFeRD/Factur-X PDF by embedding CII XML invoice data into an existing PDF. " +
         "Requires both a source PDF file and an Invoice JSON object. " +
-        "The invoice is converted to CII XML, validated, and embedded into the PDF.",
+        "The invoice is converted to CII XML, validated, and embedded into the PDF. " +
+        "Only commercial invoices (document_type_code 380) can be embedded; other document types are rejected. " +
+        "Fields the API does not render, such as allowances, party identifiers and attachments, are left out " +
+        "of the embedded XML and listed in omitted_fields.",
       inputSchema: {
         pdf_path: z.string().describe("Path to the source PDF file"),
         invoice: InvoiceSchema,
         output_path: z.string().describe("Path to save the resulting ZUGFeRD PDF"),
+        skip_checks: skipChecksSchema,
+        profile: pdfProfileSchema,
       },
+      outputSchema: ZugferdPdfOutputSchema.shape,
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -224,26 +602,140 @@ export function registerConversionTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async ({ pdf_path, invoice, output_path }) => {
+    withRetryReport(withCreditGuard(() => ({ conversion: 1 }), async ({ pdf_path, invoice, output_path, skip_checks, profile }) => {
+      const unsupported = pdfProfileError(profile) ?? pdfDocumentTypeError(invoice.document_type_code);
+      if (unsupported) return unsupported;
+      const preflight = runPreflight([invoice], skip_checks);
+      if (preflight) return preflight;
+
       try {
         const pdfBuffer = await readFileAsBuffer(pdf_path);
+        const resolved = await resolveAttachments(invoice);
         const requestBody = {
           file: {
             content: pdfBuffer.toString("base64"),
             contentType: "application/pdf",
             fileName: getFileName(pdf_path),
           },
-          invoice,
+          invoice: toApiInvoice(resolved),
+        };
+        const resultBuffer = await postJsonGetBinary("/api/v1/json/zugferd", requestBody);
+        await saveBinaryFile(output_path, resultBuffer);
+        await recordInvoice(invoice, {
+          tool: "invapi_create_zugferd_pdf",
+          format: "json",
+          content: JSON.stringify(invoice),
+        });
+        const omitted = pdfOmissions(resolved);
+        const report = [
+          `ZUGFeRD PDF saved to ${output_path}`,
+          ...(omitted.length ? [formatPdfOmissions(omitted)] : []),
+        ];
+        return {
+          content: [{ type: "text", text: report.join("\n\n") }],
+          structuredContent: { output_path, size_bytes: resultBuffer.length, omitted_fields: omitted },
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
+  );
+
+  // ── XML → ZUGFeRD PDF ──
+
+  server.registerTool(
+    "invapi_convert_xml_to_zugferd",
+    {
+      title: "Convert XML Invoice to ZUGFeRD PDF",
+      description:
+        "Creates a ZUGFeRD/Factur-X PDF from a UBL or CII XML invoice (auto-detected) and an existing PDF, " +
+        "converting through Invoice JSON inside the MCP server. " +
+        "Reports every business term of the source that the embedded invoice data lacks or changes " +
+        "(lost_fields), including those the API does not render. The embedded XML cannot be read back, so " +
+        "validate checks the source XML, not the PDF. " +
+        "Only commercial invoices (type code 380) can be embedded; other document types are rejected. " +
+        "Uses two conversion credits.",
+      inputSchema: {
+        xml: z.string().optional().describe("UBL or CII XML content as a string"),
+        file_path: z.string().optional().describe("Path to a UBL or CII XML file on disk"),
+        pdf_path: z.string().describe("Path to the source PDF file"),
+        output_path: z.string().describe("Path to save the resulting ZUGFeRD PDF"),
+        profile: pdfProfileSchema,
+        validate: validateSchema.describe(
+          "Validate the source XML: 'local' (offline, no credits), 'remote' (one validation credit) or 'both'. " +
+            "The embedded XML is rendered by the API and cannot be read back as XML. If omitted, nothing is validated."
+        ),
+      },
+      outputSchema: ZugferdConversionOutputSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(withCreditGuard(roundTripCost, async ({ xml, file_path, pdf_path, output_path, profile, validate }) => {
+      const unsupported = pdfProfileError(profile);
+      if (unsupported) return unsupported;
+
+      try {
+        const xmlContent = xml ?? (file_path ? await readFileAsString(file_path) : null);
+        if (!xmlContent) {
+          return {
+            content: [{ type: "text", text: "Error: Provide either 'xml' or 'file_path'." }],
+            isError: true,
+          };
+        }
+        const source = semanticModel(xmlContent);
+        const wrongType = pdfDocumentTypeError(source.typeCode?.value);
+        if (wrongType) return wrongType;
+        const format = source.source === "cii" ? "cii" : "ubl";
+        const validation = validate
+          ? await validateXmlReport(xmlContent, `/api/v1/${format}/validate`, format, validate, undefined)
+          : undefined;
+
+        const invoice = retarget(await xmlToInvoice(xmlContent, format), "cii", undefined);
+        const pdfBuffer = await readFileAsBuffer(pdf_path);
+        const requestBody = {
+          file: {
+            content: pdfBuffer.toString("base64"),
+            contentType: "application/pdf",
+            fileName: getFileName(pdf_path),
+          },
+          invoice: toApiInvoice(invoice),
         };
         const resultBuffer = await postJsonGetBinary("/api/v1/json/zugferd", requestBody);
         await saveBinaryFile(output_path, resultBuffer);
+
+        await recordInvoice(
+          invoice,
+          { tool: "invapi_convert_xml_to_zugferd", format, file_path, content: xmlContent },
+          validation
+        );
+
+        // The embedded XML cannot be read back; compare with what the API renders of the invoice
+        const lost = lostFields(source, pdfModel(invoice));
+        const omitted = pdfOmissions(invoice);
+        const report = [
+          `ZUGFeRD PDF saved to ${output_path}`,
+          ...(omitted.length ? [formatPdfOmissions(omitted)] : []),
+          formatLostFields(lost),
+          ...(validation ? [`Validation of the source XML:\n${formatValidationReport(validation)}`] : []),
+        ];
         return {
-          content: [{ type: "text", text: `ZUGFeRD PDF saved to ${output_path}` }],
+          content: [{ type: "text", text: report.join("\n\n") }],
+          structuredContent: {
+            output_path,
+            size_bytes: resultBuffer.length,
+            omitted_fields: omitted,
+            lost_fields: lost,
+            validation,
+          },
         };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── ZUGFeRD PDF → JSON ──
@@ -254,25 +746,41 @@ export function registerConversionTools(server: McpServer): void {
       title: "Convert ZUGFeRD PDF to JSON",
       description:
         "Extracts the embedded CII XML from a ZUGFeRD/Factur-X PDF and converts it to " +
-        "the Invapi JSON Invoice format. The PDF must contain embedded XML invoice data.",
+        "the Invapi JSON Invoice format. The PDF must contain embedded XML invoice data. " +
+        "Embedded attachments can be written to attachments_dir. " +
+        "When the ledger is on (INVAPI_DATA_DIR), invoices already read from another document are flagged as " +
+        "likely duplicates.",
       inputSchema: {
         file_path: z.string().describe("Path to the ZUGFeRD PDF file"),
+        attachments_dir: attachmentsDirSchema,
       },
+      outputSchema: InvoiceOutputSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ file_path }) => {
+    withRetryReport(withCreditGuard(() => ({ conversion: 1 }), async ({ file_path, attachments_dir }) => {
       try {
         const buffer = await readFileAsBuffer(file_path);
-        const result = await postBinaryGetJson("/api/v1/zugferd/json", buffer, "application/pdf");
-        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        const result = await postBinaryGetJson<Record<string, unknown>>(
+          "/api/v1/zugferd/json",
+          buffer,
+          "application/pdf"
+        );
+        const output = attachments_dir ? await saveAttachments(result, attachments_dir) : result;
+        const duplicates = await recordInvoice(output, {
+          tool: "invapi_convert_zugferd_to_json",
+          format: "zugferd",
+          file_path,
+          content: buffer,
+        });
+        return invoiceResult(output, duplicates);
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 }
@@ -0,0 +1,103 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { InvoiceSchema, InvoiceDiffSchema, type Invoice, type InvoiceChange, type InvoiceDiff } from "../schemas.js";
+import { handleApiError } from "../api-client.js";
+import { DEFAULT_TOLERANCE, diffInvoices, inputKind, loadInvoice } from "../invoice-diff.js";
+import { withCreditGuard, withRetryReport } from "./common.js";
+
+const diffInputSchema = z
+  .object({
+    invoice: InvoiceSchema.optional().describe("Invoice JSON object"),
+    file_path: z
+      .string()
+      .optional()
+      .describe("Path to an Invoice JSON (.json), UBL/CII (.xml) or ZUGFeRD/Factur-X (.pdf) file"),
+  })
+  .describe("Provide either 'invoice' or 'file_path'");
+
+type DiffInput = z.infer<typeof diffInputSchema>;
+
+/** XML and PDF files are read through the conversion API, one credit each */
+function conversions(...inputs: DiffInput[]): number {
+  return inputs.filter((input) => !input.invoice && input.file_path && inputKind(input.file_path) !== "json").length;
+}
+
+async function resolve(input: DiffInput, name: string): Promise<Invoice> {
+  if (input.invoice) return input.invoice;
+  if (input.file_path) return loadInvoice(input.file_path);
+  throw new Error(`Provide either 'invoice' or 'file_path' for '${name}'.`);
+}
+
+function show(value: unknown): string {
+  return typeof value === "string" ? `'${value}'` : JSON.stringify(value);
+}
+
+function formatChange(change: InvoiceChange): string {
+  const item = change.item_identifier !== undefined ? ` (item ${change.item_identifier})` : "";
+  if (change.change === "added") return `  + ${change.path}${item}: ${show(change.after)}`;
+  if (change.change === "removed") return `  - ${change.path}${item}: ${show(change.before)}`;
+  return `  ~ ${change.path}${item}: ${show(change.before)} → ${show(change.after)}`;
+}
+
+function formatDiff(diff: InvoiceDiff): string {
+  if (diff.identical) return `The invoices are identical (amounts compared within ${diff.tolerance}).`;
+  const { added, removed, changed } = diff.summary;
+  return [
+    `${diff.changes.length} difference(s): ${added} added, ${removed} removed, ${changed} changed ` +
+      `(amounts compared within ${diff.tolerance})`,
+    ...diff.changes.map(formatChange),
+  ].join("\n");
+}
+
+export function registerDiffTools(server: McpServer): void {
+  // ── Invoice ↔ Invoice ──
+
+  server.registerTool(
+    "invapi_diff_invoices",
+    {
+      title: "Compare Two Invoices",
+      description:
+        "Compares two invoices field by field, e.g. what invapi_extract_invoice read from a PDF against the " +
+        "XML embedded in it, or two revisions of an outgoing invoice. Each side can be Invoice JSON or a " +
+        "JSON, UBL/CII or ZUGFeRD PDF file; all are normalised to Invoice JSON first. " +
+        "Reports fields added in, removed from or changed in `b` compared with `a`. Items are matched by " +
+        "item_identifier, so reordered lines are not reported; amounts are equal within `tolerance`. " +
+        "Uses one conversion credit per XML or PDF file, none for JSON.",
+      inputSchema: {
+        a: diffInputSchema.describe("The first invoice: provide either 'invoice' or 'file_path'"),
+        b: diffInputSchema.describe("The second invoice: provide either 'invoice' or 'file_path'"),
+        tolerance: z
+          .number()
+          .min(0)
+          .default(DEFAULT_TOLERANCE)
+          .describe("Largest difference between amounts that still counts as equal"),
+      },
+      outputSchema: InvoiceDiffSchema.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(withCreditGuard(({ a, b }) => ({ conversion: conversions(a, b) }), async ({ a, b, tolerance }) => {
+      try {
+        const [first, second] = await Promise.all([resolve(a, "a"), resolve(b, "b")]);
+        const changes = diffInvoices(first, second, tolerance);
+        const count = (change: InvoiceChange["change"]) => changes.filter((c) => c.change === change).length;
+        const result: InvoiceDiff = {
+          identical: changes.length === 0,
+          changes,
+          summary: { added: count("added"), removed: count("removed"), changed: count("changed") },
+          tolerance,
+        };
+        return {
+          content: [{ type: "text", text: formatDiff(result) }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
+  );
+}
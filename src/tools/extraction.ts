@@ -1,6 +1,14 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { join } from "node:path";
 import { z } from "zod";
-import { ExtractionPartySchema, CategorySchema } from "../schemas.js";
+import {
+  ExtractionPartySchema,
+  CategorySchema,
+  InvoiceOutputSchema,
+  QrResultSchema,
+  DirectoryExtractionSchema,
+  type PaymentCode,
+} from "../schemas.js";
 import {
   postJsonGetJson,
   readFileAsBuffer,
@@ -8,6 +16,90 @@ import {
   getFileName,
   handleApiError,
 } from "../api-client.js";
+import {
+  EXTRACTABLE_PATTERN,
+  extractDirectory,
+  extractInvoiceFile,
+  planDirectoryExtraction,
+  type DirectoryExtraction,
+} from "../extraction.js";
+import { isPaymentCodePayload, parsePaymentCode } from "../payment-codes.js";
+import { formatDuplicate } from "../duplicates.js";
+import type { CreditEstimate } from "../credits.js";
+import { withCreditGuard, withRetryReport, invoiceResult, progressReporter } from "./common.js";
+
+interface DirectoryArgs {
+  directory: string;
+  pattern: string;
+  output_dir?: string;
+  force: boolean;
+}
+
+/** Decodes the first Swiss QR-bill or EPC payload found among the strings of an API QR result */
+function decodePaymentCode(result: unknown): { payment_code?: PaymentCode; warning?: string } {
+  const strings: string[] = [];
+  const collect = (value: unknown): void => {
+    if (typeof value === "string") strings.push(value);
+    else if (value && typeof value === "object") Object.values(value).forEach(collect);
+  };
+  collect(result);
+
+  const payload = strings.find(isPaymentCodePayload);
+  if (!payload) return {};
+  try {
+    return { payment_code: parsePaymentCode(payload) };
+  } catch (error) {
+    return { warning: `The payment code could not be decoded: ${(error as Error).message}` };
+  }
+}
+
+function outputDirFor(args: DirectoryArgs): string {
+  return args.output_dir ?? join(args.directory, "extracted");
+}
+
+/** One extraction credit per file not yet recorded in the index */
+async function estimateDirectoryExtraction(args: DirectoryArgs): Promise<CreditEstimate> {
+  const { pending } = await planDirectoryExtraction(args.directory, args.pattern, outputDirFor(args), args.force);
+  return { extraction: pending };
+}
+
+/** Files sent to the API; files that could not be read fail locally and cost nothing */
+function chargedFiles(run: DirectoryExtraction): number {
+  const sent = run.files.filter((f) => f.status === "extracted" || (f.status === "failed" && f.sha256));
+  return sent.length;
+}
+
+function formatDirectoryExtraction(run: DirectoryExtraction): string {
+  const { summary } = run;
+  const lines = [
+    `Extracted ${summary.extracted} of ${summary.total} file(s): ${summary.skipped} skipped (already extracted), ` +
+      `${summary.failed} failed` +
+      (summary.pending ? `, ${summary.pending} pending` : ""),
+    `Output directory: ${run.output_dir}`,
+  ];
+  if (run.stopped_reason === "insufficient_credits") {
+    lines.push(
+      "",
+      "Stopped: insufficient credits. Top up your account at https://invapi.org and run the same call " +
+        "again; extracted files are skipped."
+    );
+  }
+  if (run.files.length) {
+    lines.push("", "| File | Status | Output / Error |", "|------|--------|----------------|");
+    for (const f of run.files) {
+      const detail = (f.error ?? f.output_file ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ");
+      lines.push(`| ${f.file} | ${f.status} | ${detail} |`);
+    }
+  }
+  const duplicates = run.files.filter((f) => f.duplicates?.length);
+  if (duplicates.length) {
+    lines.push("", "Possible duplicates:");
+    for (const f of duplicates) {
+      for (const match of f.duplicates ?? []) lines.push(`  ${f.file}: ${formatDuplicate(match)}`);
+    }
+  }
+  return lines.join("\n");
+}
 
 export function registerExtractionTools(server: McpServer): void {
   // ── Extract Invoice from PDF / Image ──
@@ -20,7 +112,11 @@ export function registerExtractionTools(server: McpServer): void {
         "Extracts structured invoice data from a PDF or image file using AI. " +
         "Returns the invoice as a JSON object. " +
         "Optionally pass known parties for better accuracy, custom instructions for the AI, " +
-        "categories for classification, and enable QR code extraction.",
+        "categories for classification, and enable QR code extraction. " +
+        "Identifiers missing from the document (electronic address, legal and tax registration) " +
+        "are filled from the matching known party. " +
+        "When the ledger is on (INVAPI_DATA_DIR), invoices already read from another document are flagged as " +
+        "likely duplicates.",
       inputSchema: {
         file_path: z.string().describe("Path to the PDF or image file (PNG, JPG, etc.)"),
         qr: z
@@ -31,7 +127,10 @@ export function registerExtractionTools(server: McpServer): void {
         parties: z
           .array(ExtractionPartySchema)
           .optional()
-          .describe("Known parties (sellers/buyers) to improve extraction accuracy"),
+          .describe(
+            "Known parties (sellers/buyers) to improve extraction accuracy; " +
+              "their electronic address and registration IDs fill gaps in the extracted seller and buyer"
+          ),
         instructions: z
           .string()
           .optional()
@@ -41,40 +140,105 @@ export function registerExtractionTools(server: McpServer): void {
           .optional()
           .describe("Categories for automatic invoice classification"),
       },
+      outputSchema: InvoiceOutputSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ file_path, qr, parties, instructions, categories }) => {
+    withRetryReport(withCreditGuard(() => ({ extraction: 1 }), async ({ file_path, qr, parties, instructions, categories }) => {
       try {
-        const buffer = await readFileAsBuffer(file_path);
-        const contentType = getContentType(file_path);
-        const fileName = getFileName(file_path);
+        const { invoice, duplicates } = await extractInvoiceFile(file_path, { qr, parties, instructions, categories });
+        return invoiceResult(invoice, duplicates);
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
+  );
 
-        const requestBody: Record<string, unknown> = {
-          file: {
-            content: buffer.toString("base64"),
-            contentType,
-            fileName,
-          },
-        };
-        if (qr) requestBody.qr = true;
-        if (parties?.length) requestBody.parties = parties;
-        if (instructions) requestBody.instructions = instructions;
-        if (categories?.length) requestBody.categories = categories;
+  // ── Extract Invoices from a Directory ──
 
-        const result = await postJsonGetJson<Record<string, unknown>>(
-          "/api/v1/file/json",
-          requestBody
-        );
-        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+  server.registerTool(
+    "invapi_extract_directory",
+    {
+      title: "Extract Invoices from a Directory",
+      description:
+        "Extracts every PDF and image in a directory (optionally filtered by a glob) with the same parties, " +
+        "instructions and categories, writing one JSON file per document to output_dir. " +
+        "Files already extracted are skipped by content hash, so the same call can be repeated as new " +
+        "documents arrive. Returns a summary table with the status of every file.",
+      inputSchema: {
+        directory: z.string().describe("Directory containing the invoices"),
+        pattern: z
+          .string()
+          .default(EXTRACTABLE_PATTERN)
+          .describe("Glob of files to extract, relative to the directory (default: all PDFs and images)"),
+        output_dir: z
+          .string()
+          .optional()
+          .describe("Directory to write the JSON files to (default: <directory>/extracted)"),
+        qr: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Whether to also extract QR code data from each file"),
+        parties: z
+          .array(ExtractionPartySchema)
+          .optional()
+          .describe("Known parties (sellers/buyers) to improve extraction accuracy"),
+        instructions: z
+          .string()
+          .optional()
+          .describe("Custom instructions for the AI extraction, applied to every file"),
+        categories: z
+          .array(CategorySchema)
+          .optional()
+          .describe("Categories for automatic invoice classification"),
+        force: z
+          .boolean()
+          .default(false)
+          .describe("Extract every file again, even if it was extracted before"),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(8)
+          .default(2)
+          .describe("Number of files extracted in parallel"),
+      },
+      outputSchema: DirectoryExtractionSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(withCreditGuard(estimateDirectoryExtraction, async (args, extra) => {
+      try {
+        const report = progressReporter(extra);
+        const run = await extractDirectory(args.directory, {
+          pattern: args.pattern,
+          outputDir: outputDirFor(args),
+          qr: args.qr,
+          parties: args.parties,
+          instructions: args.instructions,
+          categories: args.categories,
+          force: args.force,
+          concurrency: args.concurrency,
+          onProgress: (done, total) => report(done, total, `${done}/${total} files processed`),
+        });
+        return {
+          content: [{ type: "text", text: formatDirectoryExtraction(run) }],
+          structuredContent: run,
+          _meta: { credits_used: { extraction: chargedFiles(run) } },
+        };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── Extract QR Code from Image ──
@@ -85,10 +249,18 @@ export function registerExtractionTools(server: McpServer): void {
       title: "Extract QR Code from Image",
       description:
         "Scans an image file for QR codes and returns the parsed data as JSON. " +
-        "Useful for extracting payment information from invoice QR codes.",
+        "Useful for extracting payment information from invoice QR codes: Swiss QR-bills and EPC GiroCodes " +
+        "(SEPA credit transfer) are decoded into payment_code, with IBAN, amount, reference, creditor and " +
+        "the matching Invoice payment_information. If the QR text is already known, pass it as `payload` " +
+        "to decode it locally without using a credit.",
       inputSchema: {
-        file_path: z.string().describe("Path to the image file (PNG, JPG, etc.)"),
+        file_path: z.string().optional().describe("Path to the image file (PNG, JPG, etc.)"),
+        payload: z
+          .string()
+          .optional()
+          .describe("Text of a Swiss QR-bill (starting 'SPC') or EPC GiroCode (starting 'BCD') to decode locally"),
       },
+      outputSchema: QrResultSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -96,8 +268,22 @@ export function registerExtractionTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async ({ file_path }) => {
+    withRetryReport(withCreditGuard(({ payload }) => ({ qr: payload ? 0 : 1 }), async ({ file_path, payload }) => {
       try {
+        if (payload) {
+          const result = { payment_code: parsePaymentCode(payload) };
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+            structuredContent: result,
+          };
+        }
+        if (!file_path) {
+          return {
+            content: [{ type: "text", text: "Error: Provide either 'file_path' or 'payload'." }],
+            isError: true,
+          };
+        }
+
         const buffer = await readFileAsBuffer(file_path);
         const contentType = getContentType(file_path);
         const fileName = getFileName(file_path);
@@ -112,12 +298,20 @@ export function registerExtractionTools(server: McpServer): void {
 
         const result = await postJsonGetJson<Record<string, unknown>>(
           "/api/v1/file/qr",
-          requestBody
+          requestBody,
+          { idempotent: false }
         );
-        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        const { payment_code, warning } = decodePaymentCode(result);
+        const structured = payment_code ? { ...result, payment_code } : result;
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(structured, null, 2) + (warning ? `\n\nWarning: ${warning}` : "") },
+          ],
+          structuredContent: structured,
+        };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 }
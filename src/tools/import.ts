@@ -0,0 +1,105 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  SpreadsheetMappingSchema,
+  SpreadsheetImportSchema,
+  type ImportIssue,
+  type SpreadsheetImport,
+} from "../schemas.js";
+import { handleApiError, readFileAsBuffer } from "../api-client.js";
+import { readSpreadsheet } from "../spreadsheet.js";
+import { importRows, loadMapping, saveMapping, writeInvoices } from "../spreadsheet-import.js";
+import { recordInvoices } from "../ledger.js";
+
+function formatIssue(issue: ImportIssue): string {
+  const where = [
+    issue.row !== undefined ? `row ${issue.row}` : undefined,
+    issue.column ? `column '${issue.column}'` : undefined,
+    issue.field,
+  ].filter(Boolean);
+  const invoice = issue.invoice_number ? ` (invoice ${issue.invoice_number})` : "";
+  return `  - [${issue.severity}] ${where.join(", ") || "mapping"}${invoice}: ${issue.message}`;
+}
+
+function formatImport(result: SpreadsheetImport): string {
+  const { summary } = result;
+  const lines = [
+    `Imported ${summary.imported} of ${summary.invoices} invoice(s) from ${summary.rows} row(s)` +
+      (summary.failed ? `; ${summary.failed} left out because of errors` : ""),
+  ];
+  if (result.mapping_path) lines.push(`Mapping file: ${result.mapping_path}`);
+  if (result.unmapped_columns.length) lines.push(`Unmapped columns: ${result.unmapped_columns.join(", ")}`);
+  if (result.issues.length) lines.push("", "Issues:", ...result.issues.map(formatIssue));
+  if (result.output_files) {
+    lines.push("", "Invoice JSON files:", ...result.output_files.map((file) => `  - ${file}`));
+  } else if (result.invoices.length) {
+    lines.push("", JSON.stringify(result.invoices, null, 2));
+  }
+  return lines.join("\n");
+}
+
+export function registerImportTools(server: McpServer): void {
+  // ── Spreadsheet → JSON ──
+
+  server.registerTool(
+    "invapi_import_spreadsheet",
+    {
+      title: "Import Invoices from Excel or CSV",
+      description:
+        "Reads invoice drafts from an .xlsx or .csv file, one row per line item, and groups the rows into " +
+        "Invoice JSON objects by invoice number; a row without a number continues the invoice above. " +
+        "Columns are mapped to Invoice fields by `mapping`, which can be saved to and reused from a mapping " +
+        "file. Missing line totals, unit prices with VAT and invoice totals are calculated, and every invoice " +
+        "runs the pre-flight checks. Problems are reported per row and column; invoices with errors are left " +
+        "out. The result is ready for invapi_convert_json_to_ubl / _cii or, with output_dir, for " +
+        "invapi_batch_convert_large. Runs locally, no credits used.",
+      inputSchema: {
+        file_path: z.string().describe("Path to the .xlsx or .csv file"),
+        mapping: SpreadsheetMappingSchema.optional().describe(
+          "Column mapping. If omitted, it is read from mapping_path, or columns whose headers are Invoice " +
+            "field paths (e.g. 'invoice_number', 'items.item_quantity') are used."
+        ),
+        mapping_path: z
+          .string()
+          .optional()
+          .describe("Mapping file (JSON). With `mapping`, the mapping is saved there; without, it is read from there."),
+        output_dir: z
+          .string()
+          .optional()
+          .describe("Directory to write each imported invoice to as <invoice_number>.json"),
+      },
+      outputSchema: SpreadsheetImportSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ file_path, mapping, mapping_path, output_dir }) => {
+      try {
+        const resolved = mapping ?? (mapping_path ? await loadMapping(mapping_path) : {});
+        if (mapping && mapping_path) await saveMapping(mapping_path, mapping);
+
+        const rows = await readSpreadsheet(file_path, resolved);
+        const result: SpreadsheetImport = { ...importRows(rows, resolved), mapping_path };
+        if (output_dir && result.invoices.length) {
+          result.output_files = await writeInvoices(output_dir, result.invoices);
+        }
+        const content = await readFileAsBuffer(file_path);
+        await recordInvoices(
+          result.invoices.map((invoice) => ({
+            invoice,
+            source: { tool: "invapi_import_spreadsheet", format: "spreadsheet", file_path, content },
+          }))
+        );
+        return {
+          content: [{ type: "text", text: formatImport(result) }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }
+  );
+}
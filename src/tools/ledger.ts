@@ -0,0 +1,143 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  LedgerFilterSchema,
+  LedgerQuerySchema,
+  LedgerSummarySchema,
+  type LedgerGroup,
+  type LedgerQuery,
+  type LedgerRow,
+  type LedgerSummary,
+} from "../schemas.js";
+import { handleApiError } from "../api-client.js";
+import { filterEntries, readLedger, sortEntries, summarizeEntries, toRow } from "../ledger.js";
+
+const DEFAULT_LIMIT = 50;
+
+function amount(value: number, currency: string): string {
+  return `${value.toFixed(2)} ${currency}`;
+}
+
+function formatRow(row: LedgerRow): string {
+  const due = row.open ? `open, due ${row.payment_due_date ?? "(no due date)"}` : "paid";
+  return (
+    `  - ${row.invoice_date} ${row.invoice_number} (${row.invoice_type}) ${row.seller} → ${row.buyer}: ` +
+    `${amount(row.total_amount_with_vat, row.currency)}, ${due}, ${row.validation_status}`
+  );
+}
+
+function formatQuery(result: LedgerQuery): string {
+  const shown = result.invoices.length < result.matches ? ` (showing ${result.invoices.length})` : "";
+  return [
+    `${result.matches} invoice(s) match${shown}. Ledger: ${result.ledger_path}`,
+    ...result.invoices.map(formatRow),
+  ].join("\n");
+}
+
+function formatGroup(group: LedgerGroup): string {
+  const overdue = group.overdue_amount ? `, ${amount(group.overdue_amount, group.currency)} overdue` : "";
+  return (
+    `  - ${group.key}: ${group.count} invoice(s), ${amount(group.total_amount_with_vat, group.currency)} total; ` +
+    `${group.open_count} open, ${amount(group.open_amount_due, group.currency)} due${overdue}`
+  );
+}
+
+function formatSummary(result: LedgerSummary): string {
+  return [
+    `${result.matches} invoice(s) by ${result.group_by}. Ledger: ${result.ledger_path}`,
+    ...result.groups.map(formatGroup),
+  ].join("\n");
+}
+
+export function registerLedgerTools(server: McpServer): void {
+  // ── Query the ledger ──
+
+  server.registerTool(
+    "invapi_query_invoices",
+    {
+      title: "Query Invoice Ledger",
+      description:
+        "Lists invoices from the local ledger, which records every invoice the tools extract, convert, " +
+        "validate or import when INVAPI_DATA_DIR is set. Filters by seller, buyer, invoice type, invoice " +
+        "date, due date, category, currency, amount, payment state and validation status; all filters " +
+        "combine. Each entry shows the source format, file and SHA-256 it was read from. " +
+        "Runs locally, no credits used.",
+      inputSchema: {
+        ...LedgerFilterSchema.shape,
+        limit: z.number().int().min(1).default(DEFAULT_LIMIT).describe("Maximum number of invoices to return"),
+        include_invoices: z
+          .boolean()
+          .default(false)
+          .describe("Include the full Invoice JSON of each entry"),
+      },
+      outputSchema: LedgerQuerySchema.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ limit, include_invoices, ...filter }) => {
+      try {
+        const { entries, path } = await readLedger();
+        const matches = sortEntries(filterEntries(entries, filter));
+        const result: LedgerQuery = {
+          matches: matches.length,
+          invoices: matches.slice(0, limit).map((entry) => toRow(entry, include_invoices)),
+          ledger_path: path,
+        };
+        return {
+          content: [{ type: "text", text: formatQuery(result) }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }
+  );
+
+  // ── Aggregate the ledger ──
+
+  server.registerTool(
+    "invapi_summarize_invoices",
+    {
+      title: "Summarize Invoice Ledger",
+      description:
+        "Totals the invoices in the local ledger per seller, buyer, category, currency, month or validation " +
+        "status: count, total with VAT, amount due, and the open and overdue amounts of unpaid invoices. " +
+        "For example, open payables per supplier: invoice_type 'incoming', group_by 'seller'. Amounts in " +
+        "different currencies are kept in separate groups. Takes the same filters as invapi_query_invoices. " +
+        "Runs locally, no credits used.",
+      inputSchema: {
+        group_by: LedgerSummarySchema.shape.group_by.default("seller").describe("Field to group invoices by"),
+        ...LedgerFilterSchema.shape,
+      },
+      outputSchema: LedgerSummarySchema.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ group_by, ...filter }) => {
+      try {
+        const { entries, path } = await readLedger();
+        const matches = filterEntries(entries, filter);
+        const result: LedgerSummary = {
+          group_by,
+          matches: matches.length,
+          groups: summarizeEntries(matches, group_by),
+          ledger_path: path,
+        };
+        return {
+          content: [{ type: "text", text: formatSummary(result) }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }
+  );
+}
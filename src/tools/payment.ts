@@ -0,0 +1,77 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  InvoiceSchema,
+  PaymentCodeFormatSchema,
+  PaymentCodeOutputSchema,
+  type PaymentCodeOutput,
+} from "../schemas.js";
+import { handleApiError, saveBinaryFile } from "../api-client.js";
+import { defaultPaymentCodeFormat, paymentCodeImage, paymentCodePayload } from "../payment-codes.js";
+
+export function registerPaymentTools(server: McpServer): void {
+  // ── Invoice → payment QR code ──
+
+  server.registerTool(
+    "invapi_create_payment_code",
+    {
+      title: "Create Payment QR Code",
+      description:
+        "Creates the payment QR code for an outgoing invoice: a Swiss QR-bill (SPC, with the Swiss cross) or " +
+        "an EPC GiroCode for SEPA credit transfers. The creditor is the seller, the account the IBAN in " +
+        "payment_information.payment_account_number and the amount totals.amount_due_for_payment. " +
+        "payment_information.payment_reference is used as QR or creditor (RF) reference when it is one, " +
+        "otherwise as the message. Returns the payload text and an SVG or PNG image. " +
+        "Runs locally, no credits used.",
+      inputSchema: {
+        invoice: InvoiceSchema.describe("The invoice to be paid"),
+        format: PaymentCodeFormatSchema.optional().describe(
+          "Code to create. Default: swiss_qr for Swiss and Liechtenstein IBANs, otherwise epc."
+        ),
+        image_format: z.enum(["svg", "png"]).default("svg").describe("Image format of the QR code"),
+        output_path: z
+          .string()
+          .optional()
+          .describe("File path to save the image. If omitted, the image is returned inline."),
+      },
+      outputSchema: PaymentCodeOutputSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ invoice, format, image_format, output_path }): Promise<CallToolResult> => {
+      try {
+        const codeFormat = format ?? defaultPaymentCodeFormat(invoice);
+        const payload = paymentCodePayload(invoice, codeFormat);
+        const image = paymentCodeImage(payload, codeFormat, image_format);
+        const result: PaymentCodeOutput = { format: codeFormat, payload, image_format };
+        const summary = `${codeFormat === "swiss_qr" ? "Swiss QR-bill" : "EPC GiroCode"} payload:\n${payload}`;
+
+        if (output_path) {
+          await saveBinaryFile(output_path, image);
+          result.output_path = output_path;
+          result.size_bytes = image.length;
+          return {
+            content: [{ type: "text", text: `QR code saved to ${output_path} (${image.length} bytes)\n\n${summary}` }],
+            structuredContent: result,
+          };
+        }
+        return {
+          content: [
+            { type: "text", text: summary },
+            image_format === "png"
+              ? { type: "image", data: image.toString("base64"), mimeType: "image/png" }
+              : { type: "text", text: image.toString("utf-8") },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }
+  );
+}
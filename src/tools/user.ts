@@ -1,15 +1,43 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { join } from "node:path";
+import { z } from "zod";
+import {
+  BatchOperationSchema,
+  CostEstimateSchema,
+  UserInfoSchema,
+  type CostEstimate,
+  type UserInfo,
+} from "../schemas.js";
 import { getJson, handleApiError } from "../api-client.js";
+import {
+  cacheBalance,
+  checkCredits,
+  formatEstimate,
+  totalCredits,
+  CREDIT_POOLS,
+  type CreditEstimate,
+} from "../credits.js";
+import { operationsFromGlob, planChunkedRun } from "../batch.js";
+import { EXTRACTABLE_PATTERN, planDirectoryExtraction } from "../extraction.js";
+import { withRetryReport } from "./common.js";
 
-interface UserInfo {
-  email: string;
-  role: string;
-  credits: {
-    extraction?: number;
-    conversion?: number;
-    validation?: number;
-    qr?: number;
-  };
+function formatCostEstimate(result: CostEstimate): string {
+  const lines = [`Estimated cost: ${formatEstimate(result.estimate)} (${result.total} credit(s) in total)`];
+  if (result.balance) {
+    lines.push(
+      "Remaining on account: " +
+        CREDIT_POOLS.map((pool) => `${pool} ${result.balance?.[pool] ?? "N/A"}`).join(", ")
+    );
+  }
+  if (result.budget) {
+    lines.push(
+      `Budget: ${result.budget.remaining} of ${result.budget.limit} remaining (${result.budget.spent} spent)`
+    );
+  }
+  lines.push(result.sufficient ? "Enough credits for this run." : "Not enough credits for this run:");
+  for (const problem of result.problems) lines.push(`  - ${problem}`);
+  for (const note of result.notes) lines.push(`Note: ${note}`);
+  return lines.join("\n");
 }
 
 export function registerUserTools(server: McpServer): void {
@@ -21,6 +49,7 @@ export function registerUserTools(server: McpServer): void {
         "Returns the current Invapi user's email, role, and remaining API credits " +
         "(extraction, conversion, validation, QR). Use this to check your credit balance.",
       inputSchema: {},
+      outputSchema: UserInfoSchema.shape,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -28,9 +57,10 @@ export function registerUserTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async () => {
+    withRetryReport(async () => {
       try {
         const user = await getJson<UserInfo>("/api/v1/user");
+        cacheBalance(user.credits);
         const lines = [
           `Email: ${user.email}`,
           `Role:  ${user.role}`,
@@ -41,10 +71,124 @@ export function registerUserTools(server: McpServer): void {
           `  Validation: ${user.credits.validation ?? "N/A"}`,
           `  QR:         ${user.credits.qr ?? "N/A"}`,
         ];
-        return { content: [{ type: "text", text: lines.join("\n") }] };
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          structuredContent: user,
+        };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    })
+  );
+
+  server.registerTool(
+    "invapi_estimate_cost",
+    {
+      title: "Estimate Credit Cost",
+      description:
+        "Estimates the credits a planned run will use and checks them against the account balance and " +
+        "INVAPI_CREDIT_BUDGET, without running anything. Prices a large batch (operation count or input " +
+        "glob, minus operations already in its checkpoint), a directory extraction (minus files already " +
+        "extracted) and any additional single calls. Estimates assume one credit per document.",
+      inputSchema: {
+        batch: z
+          .object({
+            operations: z
+              .array(BatchOperationSchema.pick({ id: true }))
+              .optional()
+              .describe("Planned operations; only the ids are needed, to match the checkpoint"),
+            operation_count: z
+              .number()
+              .int()
+              .min(0)
+              .optional()
+              .describe("Number of planned operations, if not listed"),
+            input_glob: z
+              .string()
+              .optional()
+              .describe("Glob of input files, as for invapi_batch_convert_large"),
+            glob_cwd: z.string().optional(),
+            output_dir: z.string().optional().describe("output_dir of the run, to find its checkpoint"),
+            checkpoint_path: z.string().optional(),
+          })
+          .optional()
+          .describe("A planned invapi_batch_convert or invapi_batch_convert_large run"),
+        directory: z
+          .object({
+            directory: z.string(),
+            pattern: z.string().default(EXTRACTABLE_PATTERN),
+            output_dir: z.string().optional().describe("Default: <directory>/extracted"),
+            force: z.boolean().default(false),
+          })
+          .optional()
+          .describe("A planned invapi_extract_directory run"),
+        additional: z
+          .object({
+            extraction: z.number().int().min(0).optional(),
+            conversion: z.number().int().min(0).optional(),
+            validation: z.number().int().min(0).optional(),
+            qr: z.number().int().min(0).optional(),
+          })
+          .optional()
+          .describe("Further single calls per credit pool, e.g. { validation: 20 }"),
+      },
+      outputSchema: CostEstimateSchema.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ batch, directory, additional }, extra) => {
+      try {
+        const estimate: CreditEstimate = { ...additional };
+        const add = (pool: keyof CreditEstimate, count: number) => {
+          estimate[pool] = (estimate[pool] ?? 0) + count;
+        };
+
+        if (batch) {
+          // Every operation costs one conversion credit, so the glob's operation type does not matter
+          const operations = [
+            ...(batch.operations ?? []),
+            ...(batch.input_glob ? await operationsFromGlob(batch.input_glob, "ubl_to_json", batch.glob_cwd) : []),
+          ];
+          const checkpointPath =
+            batch.checkpoint_path ?? (batch.output_dir ? join(batch.output_dir, "checkpoint.json") : undefined);
+          const { pending } = checkpointPath
+            ? await planChunkedRun(operations, checkpointPath, false)
+            : { pending: operations.length };
+          add("conversion", pending + (batch.operation_count ?? 0));
+        }
+
+        if (directory) {
+          const outputDir = directory.output_dir ?? join(directory.directory, "extracted");
+          const { pending } = await planDirectoryExtraction(
+            directory.directory,
+            directory.pattern,
+            outputDir,
+            directory.force
+          );
+          add("extraction", pending);
+        }
+
+        const check = await checkCredits(estimate, extra.sessionId);
+        const result: CostEstimate = {
+          estimate,
+          total: totalCredits(estimate),
+          balance: check.balance,
+          budget: check.budget,
+          sufficient: check.problems.length === 0,
+          problems: check.problems,
+          notes: check.notes,
+        };
+        return {
+          content: [{ type: "text", text: formatCostEstimate(result) }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    })
   );
 }
@@ -1,28 +1,304 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  InvoiceSchema,
+  ProfileSchema,
+  ValidationReportSchema,
+  CheckReportSchema,
+  type ProfileId,
+  type ValidationIssue,
+  type ValidationReport,
+} from "../schemas.js";
+import { checkInvoice, hasErrors, formatCheckIssues } from "../checks.js";
 import { postXmlGetJson, readFileAsString, handleApiError } from "../api-client.js";
+import { parseInvoiceXml, type XmlFormat } from "../xml.js";
+import { PROFILES, profileOf } from "../profiles.js";
+import { fromCii, fromUbl } from "../en16931/model.js";
+import { LOCAL_RULE_IDS } from "../en16931/rules.js";
+import { xpathToInvoiceField } from "../en16931/field-map.js";
+import {
+  validateXmlLocally,
+  validateInvoiceLocally,
+  type LocalValidationResult,
+} from "../en16931/validate.js";
+import type { CreditEstimate } from "../credits.js";
+import { recordInvoice, recordValidation } from "../ledger.js";
+import { withCreditGuard, withRetryReport } from "./common.js";
+
+/** Finding as returned by the validation endpoints. Only `message` is guaranteed. */
+interface RemoteValidationMessage {
+  message: string;
+  id?: string;
+  rule?: string;
+  severity?: string;
+  flag?: string;
+  location?: string;
+  xpath?: string;
+  line?: number;
+  test?: string;
+}
 
 interface ValidationResult {
   valid: boolean;
-  errors?: Array<{ message: string }>;
+  errors?: RemoteValidationMessage[];
+  warnings?: RemoteValidationMessage[];
 }
 
-function formatValidationResult(result: ValidationResult): string {
-  if (result.valid) {
-    return "Validation passed: The invoice is valid.";
-  }
+type ValidationMode = ValidationReport["mode"];
 
-  const lines = ["Validation failed:"];
-  if (result.errors?.length) {
-    for (const err of result.errors) {
-      lines.push(`  - ${err.message}`);
-    }
+/** Pulls the rule ID (e.g. "BR-CO-15") out of a remote validation message */
+function extractRuleId(message: string): string | undefined {
+  return /\b((?:BR|PEPPOL)-[A-Z0-9]+(?:-[A-Z0-9]+)*)\b/.exec(message)?.[1];
+}
+
+function toRemoteIssue(
+  msg: RemoteValidationMessage,
+  defaultSeverity: ValidationIssue["severity"]
+): ValidationIssue {
+  const location = msg.location ?? msg.xpath;
+  const severity = (msg.severity ?? msg.flag ?? defaultSeverity).toLowerCase();
+  return {
+    source: "remote",
+    rule: msg.rule ?? msg.id ?? extractRuleId(msg.message),
+    severity: severity === "warning" || severity === "information" ? "warning" : "error",
+    message: msg.message,
+    location,
+    line: msg.line,
+    test: msg.test,
+    field: location ? xpathToInvoiceField(location) : undefined,
+  };
+}
+
+function toLocalIssues(result: LocalValidationResult): ValidationIssue[] {
+  return result.violations.map((v) => ({
+    source: "local",
+    rule: v.rule,
+    severity: v.severity,
+    message: v.message,
+    location: v.location,
+    field: result.format === "json" ? v.location : xpathToInvoiceField(v.location),
+  }));
+}
+
+/** Works out where the local and remote verdicts disagree */
+function compareResults(
+  local: LocalValidationResult,
+  remote: ValidationResult,
+  remoteIssues: ValidationIssue[]
+): NonNullable<ValidationReport["comparison"]> {
+  const localRules = new Set(local.violations.map((v) => v.rule));
+  const remoteRules = new Set(
+    remoteIssues.map((issue) => issue.rule).filter((id): id is string => !!id)
+  );
+  return {
+    agree: local.valid === remote.valid,
+    local_valid: local.valid,
+    remote_valid: remote.valid,
+    only_local: [...localRules].filter((id) => !remoteRules.has(id)),
+    only_remote: [...remoteRules].filter((id) => LOCAL_RULE_IDS.has(id) && !localRules.has(id)),
+    not_covered_locally: [...remoteRules].filter((id) => !LOCAL_RULE_IDS.has(id)),
+  };
+}
+
+function buildReport(
+  mode: ValidationMode,
+  local: LocalValidationResult | undefined,
+  remote: ValidationResult | undefined
+): ValidationReport {
+  const remoteIssues = remote
+    ? [
+        ...(remote.errors ?? []).map((e) => toRemoteIssue(e, "error")),
+        ...(remote.warnings ?? []).map((w) => toRemoteIssue(w, "warning")),
+      ]
+    : [];
+  return {
+    valid: remote ? remote.valid : local!.valid,
+    mode,
+    format: local?.format,
+    issues: [...(local ? toLocalIssues(local) : []), ...remoteIssues],
+    comparison: local && remote ? compareResults(local, remote, remoteIssues) : undefined,
+  };
+}
+
+function formatIssue(issue: ValidationIssue): string {
+  const prefix = issue.rule && !issue.message.includes(issue.rule) ? `[${issue.rule}] ` : "";
+  let text = `  - ${prefix}${issue.severity === "warning" ? "warning: " : ""}${issue.message}`;
+  if (issue.location) text += `\n      at ${issue.location}${issue.line ? ` (line ${issue.line})` : ""}`;
+  if (issue.field && issue.field !== issue.location) text += `\n      JSON field: ${issue.field}`;
+  return text;
+}
+
+function formatSection(
+  title: string,
+  valid: boolean,
+  passedText: string,
+  issues: ValidationIssue[]
+): string {
+  if (valid && !issues.length) return `${title} passed: ${passedText}`;
+
+  const lines = [`${title} ${valid ? "passed with warnings" : "failed"}:`];
+  if (issues.length) {
+    lines.push(...issues.map(formatIssue));
   } else {
     lines.push("  - Unknown validation error");
   }
   return lines.join("\n");
 }
 
+function formatComparison(comparison: NonNullable<ValidationReport["comparison"]>): string {
+  const verdict = (valid: boolean) => (valid ? "valid" : "invalid");
+  const lines = ["Comparison:"];
+  lines.push(
+    comparison.agree
+      ? `  Verdicts agree (${verdict(comparison.remote_valid)}).`
+      : `  Verdicts DISAGREE: local says ${verdict(comparison.local_valid)}, ` +
+          `remote says ${verdict(comparison.remote_valid)}.`
+  );
+  if (comparison.only_local.length) {
+    lines.push(`  Reported only locally: ${comparison.only_local.join(", ")}`);
+  }
+  if (comparison.only_remote.length) {
+    lines.push(`  Reported only remotely: ${comparison.only_remote.join(", ")}`);
+  }
+  if (comparison.not_covered_locally.length) {
+    lines.push(`  Remote rules not covered by the local engine: ${comparison.not_covered_locally.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function formatProfile(report: ValidationReport): string | undefined {
+  const claimed = report.claimed_profile ? PROFILES[report.claimed_profile].title : "an unknown profile";
+  const lines: string[] = [];
+  if (report.profile) lines.push(`Profile: ${PROFILES[report.profile].title}`);
+  if (report.ignored_profile) {
+    lines.push(
+      `Profile ${PROFILES[report.ignored_profile].title} ignored: only local validation applies it, ` +
+        "and the API follows the profile the document claims"
+    );
+  }
+  if (report.specification_id) lines.push(`Document claims ${claimed} (${report.specification_id})`);
+  if (report.profile && report.specification_id && report.claimed_profile !== report.profile) {
+    lines.push("  warning: the document does not claim the profile it was validated against");
+  }
+  return lines.length ? lines.join("\n") : undefined;
+}
+
+export function formatValidationReport(report: ValidationReport): string {
+  const sections: string[] = [];
+  const profile = formatProfile(report);
+  if (profile) sections.push(profile);
+  if (report.mode !== "remote") {
+    const localIssues = report.issues.filter((issue) => issue.source === "local");
+    sections.push(
+      formatSection(
+        "Local validation",
+        report.comparison?.local_valid ?? !localIssues.some((issue) => issue.severity === "error"),
+        "No violations of the offline EN 16931 rule subset.",
+        localIssues
+      )
+    );
+  }
+  if (report.mode !== "local") {
+    sections.push(
+      formatSection(
+        report.mode === "both" ? "Remote validation" : "Validation",
+        report.valid,
+        "The invoice is valid.",
+        report.issues.filter((issue) => issue.source === "remote")
+      )
+    );
+  }
+  if (report.comparison) sections.push(formatComparison(report.comparison));
+  return sections.join("\n\n");
+}
+
+/** Local validation is free; remote and combined runs use one validation credit */
+function remoteValidationCost({ mode }: { mode: ValidationMode }): CreditEstimate {
+  return mode === "local" ? {} : { validation: 1 };
+}
+
+const modeSchema = z
+  .enum(["local", "remote", "both"])
+  .optional()
+  .default("remote")
+  .describe(
+    "'remote' validates with the Invapi API (full rule set, uses credits), " +
+    "'local' checks the core EN 16931 rules offline (BR-*, BR-CO-*, BR-S/Z/E/AE, plus BR-DE-* for XRechnung " +
+    "and PEPPOL-EN16931-* for Peppol; no credits), " +
+    "'both' runs both and reports where they disagree"
+  );
+
+const profileSchema = ProfileSchema.optional().describe(
+  "Profile whose rule set to validate against: xrechnung, peppol, en16931 or a factur-x-* profile. " +
+    "Applies to local validation; the API always follows the specification identifier (BT-24) the document claims."
+);
+
+/** The specification identifier (BT-24) a document claims, when it can be read */
+function claimedSpecification(xml: string): string | undefined {
+  try {
+    const doc = parseInvoiceXml(xml);
+    return (doc.format === "ubl" ? fromUbl(doc) : fromCii(doc)).specificationId?.value;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validates XML locally, remotely or both. Local rules follow `profile` when
+ * given; the report names it only when they ran. `endpoint` is the remote
+ * validation path for the expected format. In mode 'both', a document the
+ * local engine cannot read is reported as a local issue and the API still
+ * gives its verdict.
+ */
+export async function validateXmlReport(
+  xmlContent: string,
+  endpoint: string,
+  format: XmlFormat | undefined,
+  mode: ValidationMode,
+  profile: ProfileId | undefined
+): Promise<ValidationReport> {
+  let local: LocalValidationResult | undefined;
+  let localFailure: ValidationIssue | undefined;
+  if (mode === "local") {
+    local = validateXmlLocally(xmlContent, format, profile);
+  } else if (mode === "both") {
+    try {
+      local = validateXmlLocally(xmlContent, format, profile);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      localFailure = { source: "local", severity: "error", message: `Local validation could not run: ${message}` };
+    }
+  }
+  const remote = mode !== "local" ? await postXmlGetJson<ValidationResult>(endpoint, xmlContent) : undefined;
+
+  const specificationId = claimedSpecification(xmlContent);
+  const report = buildReport(mode, local, remote);
+  return {
+    ...report,
+    issues: localFailure ? [localFailure, ...report.issues] : report.issues,
+    profile: local ? profile : undefined,
+    ignored_profile: local ? undefined : profile,
+    specification_id: specificationId,
+    claimed_profile: profileOf(specificationId),
+  };
+}
+
+async function runValidation(
+  xmlContent: string,
+  endpoint: string,
+  format: XmlFormat | undefined,
+  mode: ValidationMode,
+  profile: ProfileId | undefined
+): Promise<CallToolResult> {
+  const report = await validateXmlReport(xmlContent, endpoint, format, mode, profile);
+  await recordValidation(xmlContent, report);
+  return {
+    content: [{ type: "text", text: formatValidationReport(report) }],
+    structuredContent: report,
+  };
+}
+
 async function resolveXmlInput(
   xml: string | undefined,
   file_path: string | undefined
@@ -40,20 +316,25 @@ export function registerValidationTools(server: McpServer): void {
     {
       title: "Validate UBL XML",
       description:
-        "Validates a UBL XML invoice against XRechnung 3.0.2 (EN 16931) rules. " +
-        "Provide either the XML content as a string or a path to an XML file.",
+        "Validates a UBL XML invoice against EN 16931 and the rules of its profile " +
+        "(XRechnung, Peppol BIS Billing 3.0, Factur-X/ZUGFeRD), and reports which profile it claims. " +
+        "Provide either the XML content as a string or a path to an XML file. " +
+        "Use mode 'local' for an offline check of the core rules or 'both' to compare.",
       inputSchema: {
         xml: z.string().optional().describe("UBL XML content as a string"),
         file_path: z.string().optional().describe("Path to a UBL XML file on disk"),
+        mode: modeSchema,
+        profile: profileSchema,
       },
+      outputSchema: ValidationReportSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ xml, file_path }) => {
+    withRetryReport(withCreditGuard(remoteValidationCost, async ({ xml, file_path, mode, profile }) => {
       try {
         const xmlContent = await resolveXmlInput(xml, file_path);
         if (!xmlContent) {
@@ -62,12 +343,11 @@ export function registerValidationTools(server: McpServer): void {
             isError: true,
           };
         }
-        const result = await postXmlGetJson<ValidationResult>("/api/v1/ubl/validate", xmlContent);
-        return { content: [{ type: "text", text: formatValidationResult(result) }] };
+        return await runValidation(xmlContent, "/api/v1/ubl/validate", "ubl", mode, profile);
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── Validate CII XML ──
@@ -77,20 +357,25 @@ export function registerValidationTools(server: McpServer): void {
     {
       title: "Validate CII XML",
       description:
-        "Validates a CII XML invoice against XRechnung 3.0.2 (EN 16931) rules. " +
-        "Provide either the XML content as a string or a path to an XML file.",
+        "Validates a CII XML invoice against EN 16931 and the rules of its profile " +
+        "(XRechnung, Peppol BIS Billing 3.0, Factur-X/ZUGFeRD), and reports which profile it claims. " +
+        "Provide either the XML content as a string or a path to an XML file. " +
+        "Use mode 'local' for an offline check of the core rules or 'both' to compare.",
       inputSchema: {
         xml: z.string().optional().describe("CII XML content as a string"),
         file_path: z.string().optional().describe("Path to a CII XML file on disk"),
+        mode: modeSchema,
+        profile: profileSchema,
       },
+      outputSchema: ValidationReportSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ xml, file_path }) => {
+    withRetryReport(withCreditGuard(remoteValidationCost, async ({ xml, file_path, mode, profile }) => {
       try {
         const xmlContent = await resolveXmlInput(xml, file_path);
         if (!xmlContent) {
@@ -99,12 +384,11 @@ export function registerValidationTools(server: McpServer): void {
             isError: true,
           };
         }
-        const result = await postXmlGetJson<ValidationResult>("/api/v1/cii/validate", xmlContent);
-        return { content: [{ type: "text", text: formatValidationResult(result) }] };
+        return await runValidation(xmlContent, "/api/v1/cii/validate", "cii", mode, profile);
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
-    }
+    }))
   );
 
   // ── Validate XML (auto-detect format) ──
@@ -114,21 +398,26 @@ export function registerValidationTools(server: McpServer): void {
     {
       title: "Validate XML Invoice",
       description:
-        "Validates an XML invoice against XRechnung 3.0.2 (EN 16931) rules. " +
+        "Validates an XML invoice against EN 16931 and the rules of its profile " +
+        "(XRechnung, Peppol BIS Billing 3.0, Factur-X/ZUGFeRD), and reports which profile it claims. " +
         "The format (UBL or CII) is auto-detected. " +
-        "Provide either the XML content as a string or a path to an XML file.",
+        "Provide either the XML content as a string or a path to an XML file. " +
+        "Use mode 'local' for an offline check of the core rules or 'both' to compare.",
       inputSchema: {
         xml: z.string().optional().describe("XML invoice content as a string"),
         file_path: z.string().optional().describe("Path to an XML invoice file on disk"),
+        mode: modeSchema,
+        profile: profileSchema,
       },
+      outputSchema: ValidationReportSchema.shape,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: true,
       },
     },
-    async ({ xml, file_path }) => {
+    withRetryReport(withCreditGuard(remoteValidationCost, async ({ xml, file_path, mode, profile }) => {
       try {
         const xmlContent = await resolveXmlInput(xml, file_path);
         if (!xmlContent) {
@@ -137,11 +426,88 @@ export function registerValidationTools(server: McpServer): void {
             isError: true,
           };
         }
-        const result = await postXmlGetJson<ValidationResult>("/api/v1/xml/validate", xmlContent);
-        return { content: [{ type: "text", text: formatValidationResult(result) }] };
+        return await runValidation(xmlContent, "/api/v1/xml/validate", undefined, mode, profile);
+      } catch (error) {
+        return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      }
+    }))
+  );
+
+  // ── Check Invoice JSON locally ──
+
+  server.registerTool(
+    "invapi_check_invoice",
+    {
+      title: "Check Invoice JSON",
+      description:
+        "Runs local pre-flight checks on an Invoice JSON object without calling the API " +
+        "(no credits used): line totals, unit prices vs. VAT rate, VAT sum, " +
+        "amount_due_for_payment = total_amount_with_vat - paid_amount + rounding_amount, " +
+        "date formats and ISO 4217 currency codes. " +
+        "Each issue is reported with the exact field path, e.g. 'items[0].item_total_amount_with_vat'. " +
+        "The conversion tools run the same checks automatically.",
+      inputSchema: {
+        invoice: InvoiceSchema,
+      },
+      outputSchema: CheckReportSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ invoice }) => {
+      const issues = checkInvoice(invoice);
+      await recordInvoice(invoice, { tool: "invapi_check_invoice", format: "json", content: JSON.stringify(invoice) });
+      return {
+        content: [{ type: "text", text: formatCheckIssues(issues) }],
+        structuredContent: { passed: !hasErrors(issues), issues },
+      };
+    }
+  );
+
+  // ── Validate Invoice JSON against EN 16931 locally ──
+
+  server.registerTool(
+    "invapi_validate_json",
+    {
+      title: "Validate Invoice JSON (EN 16931, offline)",
+      description:
+        "Evaluates the core EN 16931 business rules (BR-*, BR-CO-*, BR-S/Z/E/AE) directly on an " +
+        "Invoice JSON object, without calling the API (no credits used). " +
+        "Returns rule IDs, severity and the JSON field path of each violation. " +
+        "The VAT breakdown is derived from the items the same way the API does. " +
+        "With a profile (or invoice.profile), its BR-DE-* or PEPPOL-EN16931-* rules are checked too.",
+      inputSchema: {
+        invoice: InvoiceSchema,
+        profile: profileSchema,
+      },
+      outputSchema: ValidationReportSchema.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ invoice, profile }) => {
+      const target = profile ?? invoice.profile;
+      let report: ValidationReport;
+      try {
+        report = { ...buildReport("local", validateInvoiceLocally(invoice, target), undefined), profile: target };
       } catch (error) {
         return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
       }
+      await recordInvoice(
+        invoice,
+        { tool: "invapi_validate_json", format: "json", content: JSON.stringify(invoice) },
+        report
+      );
+      return {
+        content: [{ type: "text", text: formatValidationReport(report) }],
+        structuredContent: report,
+      };
     }
   );
 }
@@ -0,0 +1,113 @@
+import type { Invoice, VatBreakdown } from "./schemas.js";
+import type { XmlFormat } from "./xml.js";
+import { fromInvoiceJson, type SemanticInvoice, type SemanticVatBreakdown } from "./en16931/model.js";
+import { CII_NS, UBL_NS, contentOf, element, find, findAll, insert, prefixFor, textOf, type OrderedNode } from "./xml-edit.js";
+
+// ── VAT breakdown (BG-23) ──
+//
+// The API derives one breakdown group per VAT category and rate from the
+// items, allowances and charges. Exemption reasons (BT-120/121) have no
+// source in the items, so generated XML gets them from vat_breakdown, or
+// the standard VATEX reason for categories AE, K, G and O.
+
+function toJson(group: SemanticVatBreakdown): VatBreakdown {
+  return {
+    vat_category_code: group.category.value as VatBreakdown["vat_category_code"],
+    vat_percentage: group.rate.value ?? 0,
+    taxable_amount: group.taxableAmount.value ?? 0,
+    vat_amount: group.taxAmount.value ?? 0,
+    exemption_reason: group.exemptionReason.value,
+    exemption_reason_code: group.exemptionReasonCode.value,
+  };
+}
+
+/** The breakdown the API derives from items, allowances and charges, with default exemption reasons */
+export function deriveVatBreakdown(invoice: Invoice): VatBreakdown[] {
+  return fromInvoiceJson({ ...invoice, vat_breakdown: undefined }).vatBreakdown.map(toJson);
+}
+
+function sameGroup(group: VatBreakdown, category: string | undefined, rate: number | undefined): boolean {
+  return group.vat_category_code === category && group.vat_percentage === (rate ?? 0);
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+// ── UBL ──
+
+function applyUbl(root: OrderedNode, groups: VatBreakdown[]): void {
+  const cbc = prefixFor(root, UBL_NS.cbc, "cbc");
+  for (const taxTotal of findAll(contentOf(root), "TaxTotal")) {
+    for (const subtotal of findAll(contentOf(taxTotal), "TaxSubtotal")) {
+      const category = find(contentOf(subtotal), "TaxCategory");
+      if (!category) continue;
+      const nodes = contentOf(category);
+      if (find(nodes, "TaxExemptionReason") || find(nodes, "TaxExemptionReasonCode")) continue;
+      const group = groups.find((g) =>
+        sameGroup(g, textOf(find(nodes, "ID")), toNumber(textOf(find(nodes, "Percent"))))
+      );
+      const following = ["TierRange", "TierRatePercent", "TaxScheme"];
+      if (group?.exemption_reason_code) {
+        insert(nodes, element(`${cbc}TaxExemptionReasonCode`, group.exemption_reason_code), following);
+      }
+      if (group?.exemption_reason) {
+        insert(nodes, element(`${cbc}TaxExemptionReason`, group.exemption_reason), following);
+      }
+    }
+  }
+}
+
+// ── CII ──
+
+function applyCii(root: OrderedNode, groups: VatBreakdown[]): void {
+  const ram = prefixFor(root, CII_NS.ram, "ram");
+  const transaction = find(contentOf(root), "SupplyChainTradeTransaction");
+  const settlement = transaction && find(contentOf(transaction), "ApplicableHeaderTradeSettlement");
+  if (!settlement) return;
+
+  for (const tax of findAll(contentOf(settlement), "ApplicableTradeTax")) {
+    const nodes = contentOf(tax);
+    if (find(nodes, "ExemptionReason") || find(nodes, "ExemptionReasonCode")) continue;
+    const group = groups.find((g) =>
+      sameGroup(g, textOf(find(nodes, "CategoryCode")), toNumber(textOf(find(nodes, "RateApplicablePercent"))))
+    );
+    if (group?.exemption_reason) {
+      insert(nodes, element(`${ram}ExemptionReason`, group.exemption_reason), [
+        "BasisAmount",
+        "LineTotalBasisAmount",
+        "AllowanceChargeBasisAmount",
+        "CategoryCode",
+        "ExemptionReasonCode",
+        "TaxPointDate",
+        "DueDateTypeCode",
+        "RateApplicablePercent",
+      ]);
+    }
+    if (group?.exemption_reason_code) {
+      insert(nodes, element(`${ram}ExemptionReasonCode`, group.exemption_reason_code), [
+        "TaxPointDate",
+        "DueDateTypeCode",
+        "RateApplicablePercent",
+      ]);
+    }
+  }
+}
+
+// ── Public helpers ──
+
+/** Adds exemption reasons to the VAT breakdown groups of generated UBL or CII XML that lack them */
+export function applyVatBreakdown(root: OrderedNode, format: XmlFormat, invoice: Invoice): void {
+  const groups = invoice.vat_breakdown ?? deriveVatBreakdown(invoice);
+  if (format === "cii") {
+    applyCii(root, groups);
+  } else {
+    applyUbl(root, groups);
+  }
+}
+
+/** Fills vat_breakdown of an Invoice JSON converted from XML when the API left it out */
+export function readVatBreakdown(result: Record<string, unknown>, model: SemanticInvoice): Record<string, unknown> {
+  if (result.vat_breakdown !== undefined || !model.vatBreakdown.length) return result;
+  return { ...result, vat_breakdown: model.vatBreakdown.map(toJson) };
+}
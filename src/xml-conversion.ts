@@ -0,0 +1,82 @@
+import { InvoiceSchema, type Invoice, type LostField } from "./schemas.js";
+import { postJsonGetText, postXmlGetJson } from "./api-client.js";
+import { parseInvoiceXml, type XmlFormat } from "./xml.js";
+import { completeInvoiceJson, completeInvoiceXml, toApiInvoice } from "./invoice-xml.js";
+import { unsupportedSyntax } from "./profiles.js";
+import { fromCii, fromUbl, type SemanticInvoice } from "./en16931/model.js";
+import { diffSemantic } from "./en16931/diff.js";
+import { xpathToInvoiceField } from "./en16931/field-map.js";
+
+// ── Direct XML conversion ──
+//
+// UBL → CII, CII → UBL and XML → ZUGFeRD run as two API conversions through
+// Invoice JSON in this process, each completed as the single-step tools do.
+// The semantic models of input and output are then compared to report the
+// business terms that did not survive the round trip.
+
+/** Values longer than this, e.g. embedded attachments, are shortened in the report */
+const MAX_VALUE_LENGTH = 80;
+
+/** The EN 16931 model of a UBL or CII document. Throws if it is neither. */
+export function semanticModel(xml: string): SemanticInvoice {
+  const doc = parseInvoiceXml(xml);
+  return doc.format === "ubl" ? fromUbl(doc) : fromCii(doc);
+}
+
+/** Converts UBL or CII to a completed Invoice JSON. Throws if the result does not fit InvoiceSchema. */
+export async function xmlToInvoice(xml: string, format: XmlFormat): Promise<Invoice> {
+  const result = await postXmlGetJson<Record<string, unknown>>(`/api/v1/${format}/json`, xml);
+  const completed = completeInvoiceJson(result, xml);
+  const parsed = InvoiceSchema.safeParse(completed);
+  if (!parsed.success) {
+    const fields = parsed.error.issues.map((issue) => issue.path.join(".") || "(root)");
+    throw new Error(`The ${format.toUpperCase()} document converts to incomplete Invoice JSON: ${fields.join(", ")}`);
+  }
+  // The original object is passed on so fields unknown to the schema are kept
+  return completed as Invoice;
+}
+
+/**
+ * The invoice to render in `format`: with `profile` when given, otherwise
+ * with the profile the source claims unless `format` cannot carry it, in
+ * which case the API's default applies.
+ */
+export function retarget(invoice: Invoice, format: XmlFormat, profile: Invoice["profile"]): Invoice {
+  if (profile) return { ...invoice, profile };
+  if (invoice.profile && unsupportedSyntax(invoice.profile, format)) return { ...invoice, profile: undefined };
+  return invoice;
+}
+
+/** Converts an Invoice JSON to completed UBL or CII */
+export async function invoiceToXml(invoice: Invoice, format: XmlFormat): Promise<string> {
+  const generated = await postJsonGetText(`/api/v1/json/${format}`, toApiInvoice(invoice));
+  return completeInvoiceXml(generated, invoice);
+}
+
+function shorten(value: string | number | boolean): string {
+  // Located<true> marks a group that is present, such as a postal address
+  const text = value === true ? "(present)" : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}… (${text.length} characters)` : text;
+}
+
+/** Business terms of the `source` document that are missing or changed in `result` */
+export function lostFields(source: SemanticInvoice, result: SemanticInvoice): LostField[] {
+  return diffSemantic(source, result).map((difference) => ({
+    term: difference.term,
+    location: difference.location,
+    field: xpathToInvoiceField(difference.location),
+    value: shorten(difference.value),
+    converted: difference.other === undefined ? undefined : shorten(difference.other),
+  }));
+}
+
+export function formatLostFields(lost: LostField[]): string {
+  if (!lost.length) return "No fields were lost in the round trip.";
+  const lines = [`${lost.length} field(s) lost or changed in the round trip:`];
+  for (const field of lost) {
+    const change = field.converted === undefined ? "missing" : `became '${field.converted}'`;
+    lines.push(`  - ${field.term} = '${field.value}' (${change})`);
+    lines.push(`      at ${field.location}${field.field ? `\n      JSON field: ${field.field}` : ""}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,192 @@
+import { XMLBuilder, XMLParser } from "fast-xml-parser";
+import { ROOT_FORMATS, type XmlFormat } from "./xml.js";
+
+// ── Order-preserving XML editing ──
+//
+// fast-xml-parser's preserveOrder mode keeps element order, whitespace,
+// comments and entities, so untouched parts of the document round-trip as-is.
+
+export type OrderedNode = Record<string, unknown>;
+export type Attributes = Record<string, string>;
+
+const ATTRIBUTES = ":@";
+const TEXT = "#text";
+
+const ORDERED_OPTIONS = {
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+  processEntities: false,
+  commentPropName: "#comment",
+  cdataPropName: "#cdata",
+  suppressEmptyNode: true,
+};
+
+export const UBL_NS = {
+  invoice: "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2",
+  creditNote: "urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2",
+  cbc: "urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2",
+  cac: "urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2",
+};
+
+export const CII_NS = {
+  ram: "urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100",
+  udt: "urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100",
+  qdt: "urn:un:unece:uncefact:data:standard:QualifiedDataType:100",
+};
+
+const orderedParser = new XMLParser(ORDERED_OPTIONS);
+const orderedBuilder = new XMLBuilder(ORDERED_OPTIONS);
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttributes(attributes: Attributes): Attributes {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([key, value]) => [key, escapeXml(value).replace(/"/g, "&quot;")])
+  );
+}
+
+export function nameOf(node: OrderedNode): string {
+  return Object.keys(node).find((key) => key !== ATTRIBUTES) ?? "";
+}
+
+export function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+export function contentOf(node: OrderedNode): OrderedNode[] {
+  return node[nameOf(node)] as OrderedNode[];
+}
+
+export function attributesOf(node: OrderedNode): Attributes {
+  return (node[ATTRIBUTES] ??= {}) as Attributes;
+}
+
+export function attributeOf(node: OrderedNode | undefined, name: string): string | undefined {
+  return (node?.[ATTRIBUTES] as Attributes | undefined)?.[`@_${name}`];
+}
+
+export function findAll(nodes: OrderedNode[], local: string): OrderedNode[] {
+  return nodes.filter((node) => localName(nameOf(node)) === local);
+}
+
+export function find(nodes: OrderedNode[] | undefined, local: string): OrderedNode | undefined {
+  return nodes?.find((node) => localName(nameOf(node)) === local);
+}
+
+/** First element along a path of local names below `node` */
+export function findPath(node: OrderedNode | undefined, ...path: string[]): OrderedNode | undefined {
+  let current = node;
+  for (const local of path) current = current && find(contentOf(current), local);
+  return current;
+}
+
+export function textOf(node: OrderedNode | undefined): string | undefined {
+  const value = node ? contentOf(node).find((item) => TEXT in item)?.[TEXT] : undefined;
+  return value === undefined ? undefined : String(value).trim();
+}
+
+export function rename(node: OrderedNode, name: string): void {
+  const content = contentOf(node);
+  delete node[nameOf(node)];
+  node[name] = content;
+}
+
+export function setText(node: OrderedNode, value: string): void {
+  node[nameOf(node)] = [{ [TEXT]: escapeXml(value) }];
+}
+
+export function element(name: string, content: string | OrderedNode[], attributes?: Attributes): OrderedNode {
+  const node: OrderedNode = { [name]: typeof content === "string" ? [{ [TEXT]: escapeXml(content) }] : content };
+  if (attributes) node[ATTRIBUTES] = escapeAttributes(attributes);
+  return node;
+}
+
+function indentBefore(nodes: OrderedNode[], index: number): OrderedNode | undefined {
+  const previous = nodes[index - 1];
+  return previous && TEXT in previous && /^\s+$/.test(String(previous[TEXT])) ? { [TEXT]: previous[TEXT] } : undefined;
+}
+
+/** Lays out the child elements of a new `node` one per line below `indent` */
+function indentChildren(node: OrderedNode, indent: string): void {
+  const content = contentOf(node);
+  if (!content.length || content.some((child) => TEXT in child)) return;
+  const inner = `${indent}  `;
+  const laidOut: OrderedNode[] = [];
+  for (const child of content) {
+    indentChildren(child, inner);
+    laidOut.push({ [TEXT]: inner }, child);
+  }
+  laidOut.push({ [TEXT]: indent });
+  node[nameOf(node)] = laidOut;
+}
+
+/** Inserts `node` before `nodes[index]`, copying that sibling's indentation */
+export function insertAt(nodes: OrderedNode[], index: number, node: OrderedNode): void {
+  const indent = indentBefore(nodes, index);
+  if (indent) indentChildren(node, String(indent[TEXT]));
+  nodes.splice(index, 0, ...(indent ? [node, indent] : [node]));
+}
+
+/**
+ * Inserts `node` before the first sibling whose local name is in `following`
+ * (the elements the schema sequence puts after it), or after the last
+ * element. Copies the neighbouring indentation.
+ */
+export function insert(nodes: OrderedNode[], node: OrderedNode, following: string[]): void {
+  const anchor = nodes.findIndex((n) => following.includes(localName(nameOf(n))));
+  if (anchor >= 0) {
+    insertAt(nodes, anchor, node);
+    return;
+  }
+  let last = nodes.length - 1;
+  while (last >= 0 && nameOf(nodes[last]).startsWith("#")) last--;
+  const indent = last >= 0 ? indentBefore(nodes, last) : undefined;
+  if (indent) indentChildren(node, String(indent[TEXT]));
+  nodes.splice(last + 1, 0, ...(indent ? [indent, node] : [node]));
+}
+
+/** Removes `node` together with its indentation */
+export function remove(nodes: OrderedNode[], node: OrderedNode): void {
+  const index = nodes.indexOf(node);
+  const indented = indentBefore(nodes, index) !== undefined;
+  nodes.splice(indented ? index - 1 : index, indented ? 2 : 1);
+}
+
+/** Prefix (with colon) bound to `uri` on the root element, declaring `preferred` if none is */
+export function prefixFor(root: OrderedNode, uri: string, preferred: string): string {
+  const attributes = attributesOf(root);
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== uri) continue;
+    if (key === "@_xmlns") return "";
+    if (key.startsWith("@_xmlns:")) return `${key.slice("@_xmlns:".length)}:`;
+  }
+  attributes[`@_xmlns:${preferred}`] = uri;
+  return `${preferred}:`;
+}
+
+/**
+ * Parses a UBL or CII invoice, lets `edit` change its root element in place
+ * and serialises it again. Only the root element is rebuilt, so the prolog
+ * and trailing whitespace stay as they were. Returns the XML unchanged when
+ * it is malformed or not an invoice.
+ */
+export function editInvoiceXml(xml: string, edit: (root: OrderedNode, format: XmlFormat) => void): string {
+  let tree: OrderedNode[];
+  try {
+    tree = orderedParser.parse(xml) as OrderedNode[];
+  } catch {
+    return xml;
+  }
+  const root = tree.find((node) => Object.hasOwn(ROOT_FORMATS, localName(nameOf(node))));
+  if (!root) return xml;
+
+  const rootStart = xml.search(new RegExp(`<${nameOf(root)}[\\s/>]`));
+  edit(root, ROOT_FORMATS[localName(nameOf(root))]);
+  return xml.slice(0, Math.max(rootStart, 0)) + (orderedBuilder.build([root]) as string) + /\s*$/.exec(xml)![0];
+}
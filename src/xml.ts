@@ -0,0 +1,95 @@
+import { XMLParser } from "fast-xml-parser";
+
+// ── Minimal XML tree access for UBL / CII documents ──
+//
+// Namespace prefixes are stripped and every element is parsed as an array,
+// so lookups are uniform regardless of how often an element occurs.
+
+export type XmlNode = Record<string, unknown>;
+
+export type XmlFormat = "ubl" | "cii";
+
+export interface XmlDocument {
+  format: XmlFormat;
+  /** Local name of the root element, e.g. "Invoice", "CreditNote", "CrossIndustryInvoice" */
+  rootName: string;
+  root: XmlNode;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (_name, _jpath, _isLeaf, isAttribute) => !isAttribute,
+});
+
+/** Root element local names of the supported invoice formats */
+export const ROOT_FORMATS: Record<string, XmlFormat> = {
+  Invoice: "ubl",
+  CreditNote: "ubl",
+  CrossIndustryInvoice: "cii",
+};
+
+/** Parses a UBL or CII invoice. Throws if the XML is malformed or not an invoice. */
+export function parseInvoiceXml(xml: string): XmlDocument {
+  let parsed: XmlNode;
+  try {
+    parsed = parser.parse(xml, true) as XmlNode;
+  } catch (error) {
+    throw new Error(`Malformed XML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const [rootName, format] of Object.entries(ROOT_FORMATS)) {
+    const root = children(parsed, rootName)[0];
+    if (root) return { format, rootName, root };
+  }
+  throw new Error("Not a UBL (Invoice/CreditNote) or CII (CrossIndustryInvoice) document");
+}
+
+/** Child elements with the given local name */
+export function children(node: XmlNode | undefined, name: string): XmlNode[] {
+  const value = node?.[name];
+  if (!Array.isArray(value)) return [];
+  return value.map((item) => (typeof item === "object" && item !== null ? item : { "#text": item }));
+}
+
+/** First element along a path of local names, e.g. child(root, "AccountingSupplierParty", "Party") */
+export function child(node: XmlNode | undefined, ...path: string[]): XmlNode | undefined {
+  let current = node;
+  for (const name of path) {
+    current = children(current, name)[0];
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+/** Text content of an element */
+export function text(node: XmlNode | undefined): string | undefined {
+  const value = node?.["#text"];
+  if (value === undefined || value === null) return undefined;
+  const str = String(value).trim();
+  return str === "" ? undefined : str;
+}
+
+/** Attribute value of an element */
+export function attr(node: XmlNode | undefined, name: string): string | undefined {
+  const value = node?.[`@_${name}`];
+  return value === undefined ? undefined : String(value);
+}
+
+/** Text content of the first element along a path */
+export function textAt(node: XmlNode | undefined, ...path: string[]): string | undefined {
+  return text(child(node, ...path));
+}
+
+/** Parses a numeric element value, returning undefined for missing or non-numeric content */
+export function numberAt(node: XmlNode | undefined, ...path: string[]): number | undefined {
+  const value = textAt(node, ...path);
+  if (value === undefined) return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+}